@@ -1,19 +1,46 @@
 import React, { useState, useEffect, useRef } from 'react';
 import WebGPURenderer, { WebGPURendererRef } from './components/FireRenderer';
-import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, RecordingIndicator, ShaderEditor } from './components/UIComponents';
-import { ShaderError } from './types';
+import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, StillExportOverlay, RecordingIndicator, ShaderEditor } from './components/UIComponents';
+import { AudioStatus, IDLE_AUDIO_STATUS } from './components/Audio';
+import { ChannelSourceRecord, HistorySnapshot, PresetFile, PresetValue, RenderProgress, ShaderDiagnostic, ShaderError, ShaderParam, TiledCaptureOptions } from './types';
 import { BOILERPLATE_SHADER_WGSL } from './constants';
+import { decodeSceneHash, encodeSceneHash, formatImportReport, isTypingTarget, paramValues, parsePresetFile, PRESET_FILE_EXTENSION } from './components/Presets';
+import { changedParamIds, createHistory, describeChannelSource, describeParamChange, History, HistoryPanel, HistoryState, paramSetChanged, sameChannelSource } from './components/History';
+import { createRemoteControl, loadRemoteUrl, RemoteControl, RemotePanel, RemoteStatus } from './components/Remote';
 
 const App: React.FC = () => {
   const [error, setError] = useState<ShaderError | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ShaderDiagnostic[]>([]);
   const [showDocs, setShowDocs] = useState(false);
   const [showVideoModal, setShowVideoModal] = useState(false);
+  const [showStillModal, setShowStillModal] = useState(false);
   const [showEditor, setShowEditor] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showCameraPath, setShowCameraPath] = useState(false);
+  const [showChannels, setShowChannels] = useState(false);
+  const [showMidi, setShowMidi] = useState(false);
+  const [showModulation, setShowModulation] = useState(false);
+  const [showRemote, setShowRemote] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [progressive, setProgressive] = useState(false);
   const [shaderCode, setShaderCode] = useState(BOILERPLATE_SHADER_WGSL);
-  const [recordingStatus, setRecordingStatus] = useState({ isRecording: false, timeLeft: 0 });
+  // Scene restored from a share link; the renderer mounts once the URL has been read
+  const [isBooted, setIsBooted] = useState(false);
+  const [initialPreset, setInitialPreset] = useState<PresetFile | null>(null);
+  const [sceneKey, setSceneKey] = useState(0);
+  const [recordingStatus, setRecordingStatus] = useState<{ isRecording: boolean; timeLeft: number; progress?: RenderProgress }>({ isRecording: false, timeLeft: 0 });
   const [fps, setFps] = useState(0);
+  const [audioStatus, setAudioStatus] = useState<AudioStatus>(IDLE_AUDIO_STATUS);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteStatus>({ connection: 'disconnected', url: loadRemoteUrl(), error: null, received: 0, lastAddress: null });
+  const remoteRef = useRef<RemoteControl | null>(null);
+  const isRecordingRef = useRef(false); // Read by the remote's state stream
+  const [historyState, setHistoryState] = useState<HistoryState | null>(null);
+  const historyRef = useRef<History | null>(null);
+  const restoringParamsRef = useRef<Record<string, PresetValue> | null>(null); // Values waiting for a restored shader to compile
   const rendererRef = useRef<WebGPURendererRef>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
 
   // Debounce Shader Updates
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -21,9 +48,118 @@ const App: React.FC = () => {
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
       timeoutRef.current = setTimeout(() => {
           setShaderCode(newCode);
+          const history = historyRef.current;
+          if (history && newCode !== history.current().shaderCode) history.record('shader', 'Edit shader', { shaderCode: newCode });
       }, 500); // 500ms debounce
   };
 
+  // --- History ---
+  // Puts back whatever differs between two snapshots; the renderer's change callbacks then
+  // match the current entry, so restoring records nothing new
+  const restoreSnapshot = (target: HistorySnapshot, current: HistorySnapshot) => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current); // A pending edit would land on top of the restored code
+      const renderer = rendererRef.current;
+      restoringParamsRef.current = null;
+      if (target.shaderCode !== current.shaderCode) {
+          setShaderCode(target.shaderCode);
+          // Params the restored shader adds only exist once it compiles
+          if (paramSetChanged(target.params, current.params)) restoringParamsRef.current = target.params;
+      }
+      if (!renderer) return;
+      const live = paramValues(renderer.getParams());
+      changedParamIds(target.params, live).forEach(id => renderer.setParam(id, target.params[id]));
+      if (target.camera && target.camera !== current.camera) renderer.setCamera(target.camera);
+      renderer.setChannelSources(target.channels);
+  };
+
+  // A new history per scene, starting from whatever the renderer mounted with
+  useEffect(() => {
+      if (!isBooted) return;
+      const renderer = rendererRef.current;
+      historyRef.current = createHistory({
+          shaderCode,
+          params: renderer ? paramValues(renderer.getParams()) : {},
+          camera: null,
+          channels: renderer ? renderer.getChannelSources() : [],
+      }, { restore: restoreSnapshot }, setHistoryState);
+  }, [isBooted, sceneKey]);
+
+  const handleParamsChange = (params: ShaderParam[]) => {
+      const history = historyRef.current;
+      if (!history) return;
+      const values = paramValues(params);
+      const pending = restoringParamsRef.current;
+      if (pending && !paramSetChanged(values, pending)) {
+          restoringParamsRef.current = null;
+          changedParamIds(pending, values).forEach(id => rendererRef.current?.setParam(id, pending[id]));
+          return;
+      }
+      const snapshot = history.current();
+      // Reflection after a shader commit belongs to that commit
+      if (paramSetChanged(values, snapshot.params)) {
+          history.amend({ params: values });
+          return;
+      }
+      const changed = changedParamIds(values, snapshot.params);
+      if (changed.length === 0) return;
+      history.record('params', describeParamChange(params, changed), { params: values }, `params:${changed.sort().join(',')}`);
+  };
+
+  const handleChannelSourcesChange = (sources: ChannelSourceRecord[]) => {
+      const history = historyRef.current;
+      if (!history) return;
+      const previous = history.current().channels;
+      const index = sources.findIndex((source, i) => !sameChannelSource(source, previous[i] ?? null));
+      if (index !== -1) history.record('texture', describeChannelSource(index, sources[index]), { channels: sources });
+  };
+
+  const handleBookmarkCamera = () => {
+      const camera = rendererRef.current?.getCamera();
+      if (!camera || !historyRef.current || !historyState) return;
+      const count = historyState.entries.filter(e => e.kind === 'camera').length + 1;
+      historyRef.current.record('camera', `Camera bookmark ${count}`, { camera });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) outside text fields; Monaco keeps its own undo
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || (e.code !== 'KeyZ' && e.code !== 'KeyY') || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (e.shiftKey || e.code === 'KeyY') historyRef.current?.redo();
+      else historyRef.current?.undo();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  useEffect(() => {
+    decodeSceneHash(window.location.hash)
+      .then(scene => {
+          if (scene) {
+              setShaderCode(scene.shaderCode);
+              setInitialPreset(scene.preset);
+          }
+      })
+      .catch(err => {
+          console.warn("Ignoring shared scene:", err);
+          history.replaceState(null, '', window.location.pathname + window.location.search);
+      })
+      .finally(() => setIsBooted(true));
+  }, []);
+
+  // The remote survives scene resets; it always drives whichever renderer is mounted
+  useEffect(() => {
+    const remote = createRemoteControl({
+        renderer: () => rendererRef.current,
+        isRecording: () => isRecordingRef.current,
+    }, setRemoteStatus);
+    remoteRef.current = remote;
+    return () => {
+        remote.destroy();
+        remoteRef.current = null;
+    };
+  }, []);
+
   useEffect(() => {
     let lastTime = performance.now();
     let frame = 0;
@@ -47,21 +183,101 @@ const App: React.FC = () => {
       }
   };
 
+  const handleAudioSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow reloading the same file
+      if (file) rendererRef.current?.loadAudio(file);
+  };
+
+  const handleExportPreset = () => {
+      const preset = rendererRef.current?.exportPreset();
+      if (!preset) return;
+      const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `params_${Date.now()}${PRESET_FILE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handlePresetSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow re-importing the same file
+      if (!file || !rendererRef.current) return;
+      try {
+          const { preset, migratedFrom } = parsePresetFile(await file.text());
+          const report = rendererRef.current.importPreset(preset);
+          alert(formatImportReport({ ...report, migratedFrom }));
+      } catch (err: any) {
+          alert(`Could not import preset: ${err.message}`);
+      }
+  };
+
+  const handleShare = async () => {
+      const preset = rendererRef.current?.exportPreset();
+      if (!preset) return;
+      try {
+          const hash = await encodeSceneHash({ shaderCode, preset });
+          history.replaceState(null, '', hash);
+          await navigator.clipboard.writeText(window.location.href);
+          alert('Share link copied to clipboard.');
+      } catch (err: any) {
+          alert(`Could not create share link: ${err.message}`);
+      }
+  };
+
+  const handleCaptureTiled = async (options: TiledCaptureOptions) => {
+      try {
+          await rendererRef.current?.captureTiled(options);
+      } catch (err: any) {
+          alert(`Could not render still: ${err.message}`);
+      }
+  };
+
+  // Back to the stock shader, its default params and the default camera
+  const handleReset = () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+      setShaderCode(BOILERPLATE_SHADER_WGSL);
+      setInitialPreset(null);
+      setError(null);
+      setDiagnostics([]);
+      setSceneKey(k => k + 1); // Remount the renderer from scratch
+  };
+
   // Menu Configuration
   const menus: MenuGroup[] = [
     {
         label: 'File',
         items: [
-            { label: 'Reset Scene', action: () => window.location.reload(), shortcut: 'CMD+R' },
+            { label: 'Reset Scene', action: handleReset, shortcut: 'CMD+R' },
+            { label: 'Copy Share Link', action: handleShare },
             { label: 'Load Texture...', action: () => fileInputRef.current?.click(), shortcut: 'CMD+O' },
-            { label: 'Export Params', action: () => alert('Feature coming soon') },
+            { label: 'Export Params', action: handleExportPreset },
+            { label: 'Import Params...', action: () => presetInputRef.current?.click() },
             { label: 'GitHub Repo', action: () => window.open('https://github.com/google/genai-sdk-js', '_blank') }
         ]
     },
+    {
+        label: 'Edit',
+        items: [
+            { label: 'Undo', action: () => historyRef.current?.undo(), shortcut: 'CTRL+Z' },
+            { label: 'Redo', action: () => historyRef.current?.redo(), shortcut: 'CTRL+SHIFT+Z' },
+            { label: 'Bookmark Camera', action: handleBookmarkCamera },
+            { label: 'Toggle History', action: () => setShowHistory(!showHistory) },
+        ]
+    },
     {
         label: 'View',
         items: [
             { label: 'Toggle Code Editor', action: () => setShowEditor(!showEditor), shortcut: 'E' },
+            { label: 'Toggle Timeline', action: () => setShowTimeline(!showTimeline), shortcut: 'T' },
+            { label: 'Toggle Camera Path', action: () => setShowCameraPath(!showCameraPath) },
+            { label: 'Toggle Channels', action: () => setShowChannels(!showChannels) },
+            { label: 'Toggle Modulation', action: () => setShowModulation(!showModulation) },
+            { label: 'Toggle MIDI', action: () => setShowMidi(!showMidi) },
+            { label: 'Toggle Remote', action: () => setShowRemote(!showRemote) },
             { label: 'Documentation', action: () => setShowDocs(true), shortcut: 'F1' },
             { label: 'Toggle Fullscreen', action: () => {
                 if (!document.fullscreenElement) document.documentElement.requestFullscreen();
@@ -74,13 +290,17 @@ const App: React.FC = () => {
         items: [
             { label: 'Capture 4K (Standard)', action: () => rendererRef.current?.capture(1), shortcut: 'P' },
             { label: 'Capture 4K (Ultra + RT)', action: () => rendererRef.current?.capture(2), shortcut: 'SHIFT+P' },
+            { label: 'Capture Custom Still...', action: () => setShowStillModal(true) },
+            { label: 'Toggle Progressive Render', action: () => setProgressive(!progressive) },
             { label: 'Record Video...', action: () => setShowVideoModal(true), shortcut: 'V' }
         ]
     },
     {
-        label: 'Audio',
+        label: audioStatus.source === 'none' ? 'Audio' : 'Audio ●',
         items: [
-            { label: 'Start Microphone', action: () => rendererRef.current?.toggleAudio() },
+            { label: audioStatus.source === 'mic' ? 'Stop Microphone' : 'Start Microphone', action: () => rendererRef.current?.toggleAudio() },
+            { label: audioStatus.source === 'file' ? 'Replace Audio File...' : 'Play Audio File...', action: () => audioInputRef.current?.click() },
+            ...(audioStatus.source !== 'none' ? [{ label: 'Stop Audio', action: () => rendererRef.current?.stopAudio() }] : []),
         ]
     },
     {
@@ -96,21 +316,38 @@ const App: React.FC = () => {
 
   return (
     <div className="w-screen h-screen relative bg-void overflow-hidden font-sans text-white select-none pt-10 antialiased">
-      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileSelect} />
+      <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" onChange={handleFileSelect} />
+      <input type="file" ref={audioInputRef} className="hidden" accept="audio/*" onChange={handleAudioSelect} />
+      <input type="file" ref={presetInputRef} className="hidden" accept=".json,application/json" onChange={handlePresetSelect} />
       
       {/* Top Menu Bar */}
       <MenuBar menus={menus} />
 
       {/* 3D Canvas Layer */}
       <div className={`absolute inset-0 z-0 top-10 transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] ${showEditor ? 'left-[600px]' : 'left-0'}`}>
-        <WebGPURenderer 
+        {isBooted && <WebGPURenderer 
+          key={sceneKey}
           ref={rendererRef}
           shaderCode={shaderCode}
+          initialPreset={initialPreset}
+          showTimeline={showTimeline}
+          showCameraPath={showCameraPath}
+          showChannels={showChannels}
+          showMidi={showMidi}
+          showModulation={showModulation}
+          progressive={progressive}
           description={sceneDescription}
           onError={(e) => setError(e)}
           onClearError={() => setError(null)}
-          onRecordProgress={(isRecording, timeLeft) => setRecordingStatus({ isRecording, timeLeft })}
-        />
+          onDiagnostics={setDiagnostics}
+          onRecordProgress={(isRecording, timeLeft, progress) => {
+              isRecordingRef.current = isRecording;
+              setRecordingStatus({ isRecording, timeLeft, progress });
+          }}
+          onAudioChange={setAudioStatus}
+          onParamsChange={handleParamsChange}
+          onChannelSourcesChange={handleChannelSourcesChange}
+        />}
       </div>
 
       {/* HUD Layer (Non-Header parts) */}
@@ -142,16 +379,39 @@ const App: React.FC = () => {
                 code={shaderCode} 
                 onCodeChange={handleCodeChange} 
                 error={error}
+                diagnostics={diagnostics}
            />
            <VideoExportOverlay 
                 isOpen={showVideoModal} 
                 onClose={() => setShowVideoModal(false)}
                 onStartRecord={(config) => rendererRef.current?.startVideo(config)}
            />
+           <StillExportOverlay
+                isOpen={showStillModal}
+                onClose={() => setShowStillModal(false)}
+                onStartCapture={handleCaptureTiled}
+           />
            <RecordingIndicator 
                 isRecording={recordingStatus.isRecording} 
                 timeLeft={recordingStatus.timeLeft} 
-                onStop={() => rendererRef.current?.stopVideo()}
+                progress={recordingStatus.progress}
+                onStop={() => recordingStatus.progress?.unit === 'tiles' ? rendererRef.current?.cancelCapture() : rendererRef.current?.stopVideo()}
+           />
+           {historyState && (
+               <HistoryPanel
+                    isOpen={showHistory}
+                    state={historyState}
+                    onJump={(index) => historyRef.current?.jump(index)}
+                    onUndo={() => historyRef.current?.undo()}
+                    onRedo={() => historyRef.current?.redo()}
+                    onBookmarkCamera={handleBookmarkCamera}
+               />
+           )}
+           <RemotePanel
+                isOpen={showRemote}
+                status={remoteStatus}
+                onConnect={(url) => remoteRef.current?.connect(url)}
+                onDisconnect={() => remoteRef.current?.disconnect()}
            />
       </div>
     </div>
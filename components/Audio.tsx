@@ -0,0 +1,442 @@
+import React, { useEffect, useState } from 'react';
+import { BeatState, createBeatDetector, DEFAULT_BEAT_OPTIONS, fft, SILENT_BEAT } from './BeatDetector';
+
+// --- Audio Input ---
+// A microphone or an audio file feeds one analyser. Every frame it yields the `audio` uniform
+// (x = volume, yzw = three bands) and fills a 512x2 texture: row 0 is the spectrum, row 1 the
+// waveform, both 0-1. Shaders read it at group 0, binding AUDIO_TEXTURE_BINDING.
+// The same window feeds the beat detector behind the `beat`, `beatPhase` and `bpm` uniforms.
+// Video exports swap the live input for a decoded soundtrack, analysed the same way at each
+// frame's timestamp.
+
+export const AUDIO_TEXTURE_BINDING = 9; // After the channel texture/sampler pairs
+export const AUDIO_TEXTURE_WIDTH = 512;
+
+export interface AudioBand {
+  low: number; // Hz
+  high: number; // Hz
+}
+
+export type BeatAction = 'none' | 'flash' | 'preset';
+
+export interface AudioSettings {
+  bands: [AudioBand, AudioBand, AudioBand]; // audio.y, audio.z, audio.w
+  smoothing: number; // Analyser time constant, 0-0.95
+  gain: number; // Multiplies spectrum and bands before clamping to 1
+  sensitivity: number; // Onset threshold, in deviations above the mean flux
+  beatAction: BeatAction; // Arc flash or next library preset
+  beatEvery: number; // Run the action on every Nth beat
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  bands: [{ low: 20, high: 250 }, { low: 250, high: 2000 }, { low: 2000, high: 12000 }],
+  smoothing: 0.8,
+  gain: 1,
+  sensitivity: DEFAULT_BEAT_OPTIONS.sensitivity,
+  beatAction: 'none',
+  beatEvery: 4,
+};
+
+export interface AudioFrame {
+  levels: number[]; // The `audio` uniform: volume, then the three bands
+  beat: BeatState;
+}
+
+export const SILENT_AUDIO_FRAME: AudioFrame = { levels: [0, 0, 0, 0], beat: SILENT_BEAT };
+
+export interface AudioStatus {
+  source: 'none' | 'mic' | 'file';
+  name: string;
+  playing: boolean;
+  currentTime: number; // Seconds; files only
+  duration: number;
+  loop: boolean;
+}
+
+export const IDLE_AUDIO_STATUS: AudioStatus = { source: 'none', name: '', playing: false, currentTime: 0, duration: 0, loop: true };
+
+export interface AudioInput {
+  readonly texture: any;
+  startMic: () => Promise<void>;
+  loadFile: (file: File) => Promise<void>; // Starts playing once decoded
+  stop: () => void; // Releases the mic or file
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  setSettings: (settings: AudioSettings) => void;
+  sample: (time: number) => AudioFrame; // Reads the analyser and uploads the texture; `time` in seconds
+  upload: (texels: Uint8Array) => void; // Replaces the texture contents, e.g. with a soundtrack frame
+  destroy: () => void;
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Writes the spectrum × gain and every other waveform byte into the two texture rows, and
+// returns the `audio` uniform: mean level, then the mean of each band's bins.
+const fillTexels = (texels: Uint8Array, spectrum: Uint8Array, waveform: Uint8Array, sampleRate: number, settings: AudioSettings): number[] => {
+  const { gain } = settings;
+  let sum = 0;
+  for (let i = 0; i < AUDIO_TEXTURE_WIDTH; i++) {
+    const level = Math.min(255, spectrum[i] * gain);
+    texels[i] = level;
+    sum += level;
+    // Every other sample, so the row spans the whole analysis window
+    texels[AUDIO_TEXTURE_WIDTH + i] = waveform[i * 2];
+  }
+  const binHz = sampleRate / (AUDIO_TEXTURE_WIDTH * 2);
+  const bands = settings.bands.map(({ low, high }) => {
+    const from = Math.max(0, Math.floor(low / binHz));
+    const to = Math.min(AUDIO_TEXTURE_WIDTH - 1, Math.max(from, Math.ceil(high / binHz)));
+    let total = 0;
+    for (let i = from; i <= to; i++) total += texels[i];
+    return total / (to - from + 1) / 255;
+  });
+  return [clamp01(sum / AUDIO_TEXTURE_WIDTH / 255), ...bands.map(clamp01)];
+};
+
+// `onChange` reports source and transport changes for the menu and transport bar.
+export const createAudioInput = (device: any, onChange: (status: AudioStatus) => void): AudioInput => {
+  // 4 (TEXTURE_BINDING) | 2 (COPY_DST) = 6
+  const texture = device.createTexture({ size: [AUDIO_TEXTURE_WIDTH, 2, 1], format: 'r8unorm', usage: 6 });
+  const texels = new Uint8Array(AUDIO_TEXTURE_WIDTH * 2);
+  device.queue.writeTexture({ texture }, texels, { bytesPerRow: AUDIO_TEXTURE_WIDTH }, [AUDIO_TEXTURE_WIDTH, 2]);
+
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let spectrum = new Uint8Array(0);
+  let waveform = new Uint8Array(0);
+  let pcm = new Float32Array(0);
+  const detector = createBeatDetector();
+  let settings = DEFAULT_AUDIO_SETTINGS;
+  let status = IDLE_AUDIO_STATUS;
+  let node: AudioNode | null = null; // Source feeding the analyser
+  let stream: MediaStream | null = null;
+  let element: HTMLAudioElement | null = null;
+  let url: string | null = null;
+  let silent = true; // Texture already holds zeros
+
+  const report = (change: Partial<AudioStatus>) => {
+    status = { ...status, ...change };
+    onChange(status);
+  };
+
+  // The context may only start after a user gesture, so it's created on first use
+  const ensureContext = async () => {
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = AUDIO_TEXTURE_WIDTH * 2;
+      analyser.smoothingTimeConstant = settings.smoothing;
+      spectrum = new Uint8Array(analyser.frequencyBinCount);
+      waveform = new Uint8Array(analyser.fftSize);
+      pcm = new Float32Array(analyser.fftSize);
+    }
+    if (context.state === 'suspended') await context.resume();
+    return context;
+  };
+
+  const release = () => {
+    node?.disconnect();
+    node = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    if (element) {
+      element.pause();
+      element.removeAttribute('src');
+      element.load();
+      element = null;
+    }
+    if (url) URL.revokeObjectURL(url);
+    url = null;
+    detector.reset();
+  };
+
+  const startMic = async () => {
+    const ctx = await ensureContext();
+    const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    release();
+    stream = micStream;
+    node = ctx.createMediaStreamSource(micStream);
+    node.connect(analyser!); // Not routed to the speakers
+    report({ ...IDLE_AUDIO_STATUS, source: 'mic', name: micStream.getAudioTracks()[0]?.label || 'Microphone', playing: true, loop: status.loop });
+  };
+
+  const loadFile = async (file: File) => {
+    const ctx = await ensureContext();
+    release();
+    url = URL.createObjectURL(file);
+    const audio = new Audio(url);
+    audio.loop = status.loop;
+    element = audio;
+    const sync = () => report({ playing: !audio.paused, currentTime: audio.currentTime, duration: audio.duration || 0 });
+    ['play', 'pause', 'ended', 'timeupdate', 'seeked', 'loadedmetadata'].forEach(e => audio.addEventListener(e, () => { if (element === audio) sync(); }));
+    node = ctx.createMediaElementSource(audio);
+    node.connect(analyser!);
+    node.connect(ctx.destination);
+    report({ ...IDLE_AUDIO_STATUS, source: 'file', name: file.name, loop: status.loop });
+    await audio.play();
+  };
+
+  const stop = () => {
+    release();
+    report({ ...IDLE_AUDIO_STATUS, loop: status.loop });
+  };
+
+  const setSettings = (next: AudioSettings) => {
+    settings = next;
+    if (analyser) analyser.smoothingTimeConstant = Math.min(0.95, Math.max(0, next.smoothing));
+    detector.setOptions({ sensitivity: next.sensitivity });
+  };
+
+  const upload = (data: Uint8Array) => {
+    device.queue.writeTexture({ texture }, data, { bytesPerRow: AUDIO_TEXTURE_WIDTH }, [AUDIO_TEXTURE_WIDTH, 2]);
+    silent = false;
+  };
+
+  const sample = (time: number): AudioFrame => {
+    if (!analyser || !node || !context) {
+      if (!silent) {
+        texels.fill(0);
+        upload(texels);
+        silent = true;
+      }
+      return SILENT_AUDIO_FRAME;
+    }
+    analyser.getByteFrequencyData(spectrum);
+    analyser.getByteTimeDomainData(waveform);
+    analyser.getFloatTimeDomainData(pcm);
+    const levels = fillTexels(texels, spectrum, waveform, context.sampleRate, settings);
+    upload(texels);
+    return { levels, beat: detector.process(pcm, time) };
+  };
+
+  return {
+    texture,
+    startMic,
+    loadFile,
+    stop,
+    play: () => { element?.play(); },
+    pause: () => { element?.pause(); },
+    seek: (time: number) => { if (element) element.currentTime = time; },
+    setLoop: (loop: boolean) => {
+      if (element) element.loop = loop;
+      report({ loop });
+    },
+    setSettings,
+    sample,
+    upload,
+    destroy: () => {
+      release();
+      context?.close();
+      context = null;
+      texture.destroy();
+    },
+  };
+};
+
+// --- Soundtrack Analysis ---
+// An AnalyserNode's output depends on when the browser happens to read it, so exports analyse the
+// decoded file instead: the 1024-sample window ending at each frame's timestamp goes through the
+// analyser's own pipeline (Blackman window, magnitude / N, time smoothing, -100..-30 dB to bytes).
+// Bands, texture and beats then come out the same whatever the render speed.
+
+const FFT_SIZE = AUDIO_TEXTURE_WIDTH * 2;
+const MIN_DECIBELS = -100; // AnalyserNode defaults
+const MAX_DECIBELS = -30;
+const EXPORT_SAMPLE_RATE = 48000; // Supported by both AAC and Opus
+const ENCODE_BLOCK = 4096; // Frames per AudioData handed to the encoder
+
+export interface SoundtrackAnalyser {
+  readonly texels: Uint8Array; // Texture rows for the last analysed frame
+  frameAt: (time: number) => AudioFrame; // Seconds; call with increasing times, once per video frame
+}
+
+// Resampled to the export rate while decoding
+export const decodeSoundtrack = async (file: File): Promise<AudioBuffer> =>
+  new OfflineAudioContext(2, 1, EXPORT_SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+
+export const createSoundtrackAnalyser = (buffer: AudioBuffer, settings: AudioSettings): SoundtrackAnalyser => {
+  // Downmixed to mono, as the analyser hears a multichannel source
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  const blackman = Float64Array.from({ length: FFT_SIZE }, (_, i) =>
+    0.42 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE) + 0.08 * Math.cos((4 * Math.PI * i) / FFT_SIZE));
+  const smoothing = Math.min(0.95, Math.max(0, settings.smoothing));
+  const smoothed = new Float64Array(AUDIO_TEXTURE_WIDTH);
+  const pcm = new Float32Array(FFT_SIZE);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const spectrum = new Uint8Array(AUDIO_TEXTURE_WIDTH);
+  const waveform = new Uint8Array(FFT_SIZE);
+  const texels = new Uint8Array(AUDIO_TEXTURE_WIDTH * 2);
+  const detector = createBeatDetector({ sensitivity: settings.sensitivity });
+  const toByte = (v: number) => Math.min(255, Math.max(0, Math.floor(v)));
+
+  const frameAt = (time: number): AudioFrame => {
+    const end = Math.round(time * buffer.sampleRate);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const at = end - FFT_SIZE + i;
+      pcm[i] = at >= 0 && at < mono.length ? mono[at] : 0; // Silence before the start and after the end
+      re[i] = pcm[i] * blackman[i];
+      im[i] = 0;
+      waveform[i] = toByte(128 * (1 + pcm[i]));
+    }
+    fft(re, im);
+    for (let k = 0; k < AUDIO_TEXTURE_WIDTH; k++) {
+      smoothed[k] = smoothing * smoothed[k] + (1 - smoothing) * (Math.hypot(re[k], im[k]) / FFT_SIZE);
+      const db = 20 * Math.log10(smoothed[k]);
+      spectrum[k] = toByte((255 * (db - MIN_DECIBELS)) / (MAX_DECIBELS - MIN_DECIBELS));
+    }
+    const levels = fillTexels(texels, spectrum, waveform, buffer.sampleRate, settings);
+    return { levels, beat: detector.process(pcm, time) };
+  };
+
+  return { texels, frameAt };
+};
+
+// Queues the first `duration` seconds on a configured encoder as planar float blocks, stamped on
+// the same microsecond clock as the video frames. Mono sources are duplicated when `channels` is 2.
+export const encodeSoundtrack = (encoder: AudioEncoder, buffer: AudioBuffer, channels: number, duration: number) => {
+  const total = Math.min(buffer.length, Math.round(duration * buffer.sampleRate));
+  const sources = Array.from({ length: channels }, (_, c) => buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1)));
+  for (let from = 0; from < total; from += ENCODE_BLOCK) {
+    const frames = Math.min(ENCODE_BLOCK, total - from);
+    const data = new Float32Array(frames * channels);
+    sources.forEach((source, c) => data.set(source.subarray(from, from + frames), c * frames));
+    const block = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((from * 1e6) / buffer.sampleRate),
+      data,
+    });
+    encoder.encode(block);
+    block.close();
+  }
+};
+
+// --- UI Component ---
+
+interface AudioPanelProps {
+  status: AudioStatus;
+  bpm: number; // Rounded tempo estimate, 0 while searching
+  beatCount: number; // Increments on every beat
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onStop: () => void;
+  onSettingsChange: (settings: AudioSettings) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const BAND_UNIFORMS = ['audio.y', 'audio.z', 'audio.w'];
+const BEAT_ACTIONS: { id: BeatAction; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'flash', label: 'Arc Flash' },
+  { id: 'preset', label: 'Next Preset' },
+];
+const BEAT_INTERVALS = [1, 2, 4, 8, 16];
+
+export const AudioPanel: React.FC<AudioPanelProps> = ({ status, bpm, beatCount, onPlay, onPause, onSeek, onLoopChange, onStop, onSettingsChange }) => {
+  const [settings, setSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => { onSettingsChange(settings); }, [settings]);
+
+  if (status.source === 'none') return null;
+
+  const setBand = (index: number, change: Partial<AudioBand>) => setSettings(prev => ({
+    ...prev,
+    bands: prev.bands.map((b, i) => (i === index ? { ...b, ...change } : b)) as AudioSettings['bands'],
+  }));
+  const inputClass = 'w-14 bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none';
+
+  return (
+    <div
+        className="absolute top-16 left-1/2 -translate-x-1/2 z-40 w-[420px] bg-black/85 border border-white/10 backdrop-blur-xl font-mono text-[10px] uppercase tracking-widest"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <div className="flex items-center gap-3 px-4 h-9">
+            {status.source === 'file' && (
+                <button onClick={status.playing ? onPause : onPlay} className="w-6 text-acid hover:text-white">
+                    {status.playing ? '❚❚' : '▶'}
+                </button>
+            )}
+            <span className="flex-1 truncate normal-case text-gray-300" title={status.name}>
+                {status.source === 'mic' ? '● ' : ''}{status.name}
+            </span>
+            {status.source === 'file' && (
+                <>
+                    <span className="text-gray-500">{formatTime(status.currentTime)} / {formatTime(status.duration)}</span>
+                    <button onClick={() => onLoopChange(!status.loop)} className={status.loop ? 'text-acid' : 'text-gray-600 hover:text-white'}>Loop</button>
+                </>
+            )}
+            <span className="flex items-center gap-1 text-gray-500" title="Estimated tempo">
+                <span className={beatCount % 2 ? 'text-acid' : 'text-white/20'}>●</span>
+                {bpm > 0 ? `${bpm} BPM` : '--- BPM'}
+            </span>
+            <button onClick={() => setShowSettings(!showSettings)} className={showSettings ? 'text-acid' : 'text-gray-500 hover:text-white'}>Bands</button>
+            <button onClick={onStop} className="text-gray-500 hover:text-red-400">Stop</button>
+        </div>
+        {status.source === 'file' && (
+            <input
+                type="range"
+                min={0}
+                max={status.duration || 0}
+                step={0.01}
+                value={status.currentTime}
+                onChange={e => onSeek(parseFloat(e.target.value))}
+                className="block w-full h-1 accent-[#ccff00]"
+            />
+        )}
+        {showSettings && (
+            <div className="px-4 py-3 space-y-2 border-t border-white/10 text-gray-500">
+                {settings.bands.map((band, i) => (
+                    <label key={i} className="flex items-center gap-2">
+                        <span className="w-16 normal-case">{BAND_UNIFORMS[i]}</span>
+                        <input type="number" min={0} value={band.low} onChange={e => setBand(i, { low: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+                        –
+                        <input type="number" min={0} value={band.high} onChange={e => setBand(i, { high: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+                        Hz
+                    </label>
+                ))}
+                <label className="flex items-center gap-2">
+                    <span className="w-16">Smooth</span>
+                    <input type="range" min={0} max={0.95} step={0.01} value={settings.smoothing} onChange={e => setSettings({ ...settings, smoothing: parseFloat(e.target.value) })} className="flex-1 accent-[#ccff00]" />
+                    <span className="w-8 text-right text-white">{settings.smoothing.toFixed(2)}</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-16">Gain</span>
+                    <input type="range" min={0} max={4} step={0.05} value={settings.gain} onChange={e => setSettings({ ...settings, gain: parseFloat(e.target.value) })} className="flex-1 accent-[#ccff00]" />
+                    <span className="w-8 text-right text-white">{settings.gain.toFixed(2)}</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-16">Onset</span>
+                    <input type="range" min={0.5} max={4} step={0.1} value={settings.sensitivity} onChange={e => setSettings({ ...settings, sensitivity: parseFloat(e.target.value) })} className="flex-1 accent-[#ccff00]" />
+                    <span className="w-8 text-right text-white">{settings.sensitivity.toFixed(1)}</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="w-16">On Beat</span>
+                    <select value={settings.beatAction} onChange={e => setSettings({ ...settings, beatAction: e.target.value as BeatAction })} className="flex-1 bg-white/5 border border-white/10 px-1 py-0.5 text-white outline-none">
+                        {BEAT_ACTIONS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                    every
+                    <select value={settings.beatEvery} onChange={e => setSettings({ ...settings, beatEvery: parseInt(e.target.value, 10) })} className="bg-white/5 border border-white/10 px-1 py-0.5 text-white outline-none">
+                        {BEAT_INTERVALS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BeatState, createBeatDetector, estimateTempo } from './BeatDetector';
+
+const SAMPLE_RATE = 44100;
+const WINDOW = 1024;
+const HOP = 512;
+
+// Decaying 1 kHz clicks on every beat, starting at `offset` seconds
+const clickTrack = (bpm: number, seconds: number, offset = 0.25): Float32Array => {
+  const pcm = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const click = Math.round(0.03 * SAMPLE_RATE);
+  for (let t = offset; t < seconds; t += 60 / bpm) {
+    const start = Math.round(t * SAMPLE_RATE);
+    for (let i = 0; i < click && start + i < pcm.length; i++) {
+      pcm[start + i] = 0.8 * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE) * Math.exp(-i / (0.005 * SAMPLE_RATE));
+    }
+  }
+  return pcm;
+};
+
+// Feeds overlapping windows, each stamped with the time of its last sample
+const run = (pcm: Float32Array) => {
+  const detector = createBeatDetector();
+  const frames: (BeatState & { time: number })[] = [];
+  for (let end = WINDOW; end <= pcm.length; end += HOP) {
+    const time = end / SAMPLE_RATE;
+    frames.push({ ...detector.process(pcm.subarray(end - WINDOW, end), time), time });
+  }
+  return frames;
+};
+
+describe('estimateTempo', () => {
+  it.each([
+    [120, 120],
+    [90, 90],
+    [240, 120], // Folded into the default range
+    [60, 120],
+  ])('votes %i BPM onsets to %i', (bpm, expected) => {
+    const onsets = Array.from({ length: 12 }, (_, i) => i * (60 / bpm));
+    expect(estimateTempo(onsets, 70, 180)).toBeCloseTo(expected, 0);
+  });
+
+  it('needs at least four onsets', () => {
+    expect(estimateTempo([0, 0.5, 1], 70, 180)).toBe(0);
+  });
+});
+
+describe('createBeatDetector', () => {
+  const clicks = Array.from({ length: 20 }, (_, i) => 0.25 + i * 0.5);
+  const frames = run(clickTrack(120, 10));
+
+  it('fires onsets on the clicks', () => {
+    const onsets = frames.filter(f => f.onset).map(f => f.time);
+    // Each onset is in the window that first contains a click
+    onsets.forEach(time => {
+      expect(clicks.some(click => time >= click && time - click < (HOP * 2) / SAMPLE_RATE)).toBe(true);
+    });
+    // Only the first click can be missed while the threshold history fills
+    expect(onsets.length).toBeGreaterThanOrEqual(clicks.length - 1);
+  });
+
+  it('converges on 120 BPM', () => {
+    const late = frames.filter(f => f.time > 6);
+    late.forEach(f => expect(f.bpm).toBeGreaterThan(118));
+    late.forEach(f => expect(f.bpm).toBeLessThan(122));
+  });
+
+  it('wraps beatPhase once per beat', () => {
+    const late = frames.filter(f => f.time > 6);
+    const wraps = late.filter((f, i) => i > 0 && f.beatPhase < late[i - 1].beatPhase);
+    expect(wraps.length).toBeGreaterThanOrEqual(7);
+    expect(wraps.length).toBeLessThanOrEqual(9);
+    expect(late.filter(f => f.beatFired).length).toBe(wraps.length);
+    late.forEach(f => {
+      expect(f.beatPhase).toBeGreaterThanOrEqual(0);
+      expect(f.beatPhase).toBeLessThan(1);
+    });
+  });
+
+  it('finds no beats in silence', () => {
+    const silent = run(new Float32Array(5 * SAMPLE_RATE));
+    expect(silent.some(f => f.onset || f.beatFired)).toBe(false);
+    expect(silent.every(f => f.bpm === 0 && f.beatPhase === 0 && f.beat === 0)).toBe(true);
+  });
+});
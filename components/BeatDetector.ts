@@ -0,0 +1,215 @@
+// --- Beat Detection ---
+// Onsets come from spectral flux: the summed rise in log magnitude between consecutive analysis
+// windows, compared against the mean plus `sensitivity` deviations of the last 1.5s of flux.
+// Intervals between recent onsets vote for a tempo, and an oscillator at that tempo is pulled
+// toward each onset, so `beatPhase` keeps running 0→1 through quiet passages.
+// Everything here is a pure function of the PCM and timestamps passed in, so synthetic buffers
+// drive it exactly like live audio.
+
+export interface BeatOptions {
+  sensitivity: number; // Deviations above the mean flux an onset must reach
+  minBpm: number;
+  maxBpm: number; // Tempo estimates are folded into [minBpm, maxBpm] by doubling or halving
+  decay: number; // Rate per second at which `beat` falls back from 1
+}
+
+export const DEFAULT_BEAT_OPTIONS: BeatOptions = { sensitivity: 1.5, minBpm: 70, maxBpm: 180, decay: 8 };
+
+export interface BeatState {
+  beat: number; // 1 on a beat, decaying toward 0
+  beatPhase: number; // 0→1 between beats; 0 until a tempo is known
+  bpm: number; // 0 until a tempo is known
+  onset: boolean; // An onset was detected in this window
+  beatFired: boolean; // A beat started in this window (every onset until a tempo is known)
+}
+
+export const SILENT_BEAT: BeatState = { beat: 0, beatPhase: 0, bpm: 0, onset: false, beatFired: false };
+
+export interface BeatDetector {
+  // `samples` is one analysis window (power-of-two length) ending at `time` seconds
+  process: (samples: Float32Array, time: number) => BeatState;
+  setOptions: (change: Partial<BeatOptions>) => void;
+  reset: () => void;
+}
+
+// In-place iterative radix-2 FFT; both arrays must have the same power-of-two length.
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        const next = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = next;
+      }
+    }
+  }
+};
+
+// Hann-windowed magnitude spectrum of `samples`: length / 2 bins, a full-scale sine peaks near 1.
+export const magnitudeSpectrum = (samples: Float32Array): Float32Array => {
+  const n = samples.length;
+  if (n < 2 || (n & (n - 1)) !== 0) throw new Error(`Analysis window must be a power of two, got ${n}.`);
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  fft(re, im);
+  const bins = new Float32Array(n / 2);
+  for (let k = 0; k < n / 2; k++) bins[k] = (Math.hypot(re[k], im[k]) * 4) / n; // Hann halves the gain
+  return bins;
+};
+
+const FLUX_WINDOW = 1.5; // Seconds of flux history for the adaptive threshold
+const ONSET_WINDOW = 8; // Seconds of onsets that vote on the tempo
+const MIN_ONSET_GAP = 0.1; // Seconds
+const SILENCE_RMS = 1e-4;
+const TEMPO_STEP = 0.5; // BPM per histogram bin
+
+// Most-voted tempo from the intervals between onsets up to four apart, or 0 without enough onsets.
+export const estimateTempo = (onsets: number[], minBpm: number, maxBpm: number): number => {
+  if (onsets.length < 4) return 0;
+  const bins = new Float64Array(Math.floor((maxBpm - minBpm) / TEMPO_STEP) + 1);
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < Math.min(onsets.length, i + 5); j++) {
+      let bpm = 60 / (onsets[j] - onsets[i]);
+      if (!isFinite(bpm)) continue;
+      while (bpm < minBpm) bpm *= 2;
+      while (bpm > maxBpm) bpm /= 2;
+      if (bpm < minBpm) continue; // Folding overshot a narrow range
+      // Gaussian vote, with closer pairs counting more than pairs spanning several beats
+      const weight = 1 / (j - i);
+      bins.forEach((_, b) => {
+        const d = (minBpm + b * TEMPO_STEP - bpm) / 1.5;
+        bins[b] += weight * Math.exp(-0.5 * d * d);
+      });
+    }
+  }
+  let best = 0;
+  bins.forEach((v, b) => { if (v > bins[best]) best = b; });
+  return bins[best] > 0 ? minBpm + best * TEMPO_STEP : 0;
+};
+
+export const createBeatDetector = (options: Partial<BeatOptions> = {}): BeatDetector => {
+  let opts = { ...DEFAULT_BEAT_OPTIONS, ...options };
+  let previous: Float32Array | null = null; // Log magnitudes of the last window
+  let flux: { time: number; value: number }[] = [];
+  let onsets: number[] = [];
+  let lastTime: number | null = null;
+  let lastOnset = -Infinity;
+  let lastBeat = -Infinity;
+  let bpm = 0;
+  let pending = { bpm: 0, count: 0 }; // A differing tempo must win three evaluations to replace `bpm`
+  let phase = 0;
+
+  const reset = () => {
+    previous = null;
+    flux = [];
+    onsets = [];
+    lastTime = null;
+    lastOnset = lastBeat = -Infinity;
+    bpm = 0;
+    pending = { bpm: 0, count: 0 };
+    phase = 0;
+  };
+
+  const updateTempo = () => {
+    const candidate = estimateTempo(onsets, opts.minBpm, opts.maxBpm);
+    if (!candidate) return;
+    if (!bpm) {
+      bpm = candidate;
+    } else if (Math.abs(candidate - bpm) <= 4) {
+      bpm += (candidate - bpm) * 0.2;
+      pending.count = 0;
+    } else if (Math.abs(candidate - pending.bpm) <= 4 && ++pending.count >= 3) {
+      bpm = candidate;
+      pending.count = 0;
+    } else if (Math.abs(candidate - pending.bpm) > 4) {
+      pending = { bpm: candidate, count: 1 };
+    }
+  };
+
+  const process = (samples: Float32Array, time: number): BeatState => {
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+    const rms = Math.sqrt(energy / samples.length);
+
+    const spectrum = magnitudeSpectrum(samples);
+    const current = spectrum.map(m => Math.log1p(100 * m));
+    let value = 0;
+    if (previous) for (let k = 0; k < current.length; k++) value += Math.max(0, current[k] - previous[k]);
+    previous = current;
+
+    // Threshold from the history before this window
+    flux = flux.filter(f => f.time > time - FLUX_WINDOW);
+    const mean = flux.reduce((sum, f) => sum + f.value, 0) / Math.max(1, flux.length);
+    const deviation = Math.sqrt(flux.reduce((sum, f) => sum + (f.value - mean) ** 2, 0) / Math.max(1, flux.length));
+    const onset = flux.length >= 4
+      && rms > SILENCE_RMS
+      && value > mean + opts.sensitivity * deviation
+      && value > 1e-3
+      && time - lastOnset >= MIN_ONSET_GAP;
+    flux.push({ time, value });
+
+    onsets = onsets.filter(t => t > time - ONSET_WINDOW);
+    if (onset) {
+      lastOnset = time;
+      onsets.push(time);
+      updateTempo();
+    }
+    if (onsets.length === 0) bpm = 0; // Lost the beat after a long silence
+
+    const dt = lastTime === null ? 0 : Math.min(0.25, Math.max(0, time - lastTime));
+    lastTime = time;
+    let beatFired = false;
+    if (bpm > 0) {
+      phase += (dt * bpm) / 60;
+      if (phase >= 1) {
+        phase -= Math.floor(phase);
+        beatFired = true;
+      }
+      if (onset) {
+        // Pull toward the nearest beat when the onset is close to one
+        const error = phase > 0.5 ? phase - 1 : phase;
+        if (Math.abs(error) < 0.25) phase = Math.min(0.999, Math.max(0, phase - error * 0.3));
+      }
+    } else {
+      phase = 0;
+      beatFired = onset;
+    }
+    if (beatFired) lastBeat = time;
+
+    return {
+      beat: Math.exp(-(time - lastBeat) * opts.decay),
+      beatPhase: phase,
+      bpm,
+      onset,
+      beatFired,
+    };
+  };
+
+  return {
+    process,
+    setOptions: (change) => { opts = { ...opts, ...change }; },
+    reset,
+  };
+};
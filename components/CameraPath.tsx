@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CameraInterpolation, CameraKeyframe, CameraPath, CameraPose, CameraShot, Vec3 } from '../types';
+
+// --- Orbit Camera ---
+// The shader used to hardcode this look-at point and a focal length of 2.0 (~53.13° vertical FOV).
+export const ORBIT_TARGET: Vec3 = [0.0, -0.5, 0.0];
+export const DEFAULT_FOV = 2 * Math.atan(0.5) * 180 / Math.PI;
+
+export const orbitPosition = (pose: CameraPose): Vec3 => [
+  pose.radius * Math.cos(pose.phi) * Math.sin(pose.theta),
+  pose.radius * Math.sin(pose.phi),
+  pose.radius * Math.cos(pose.phi) * Math.cos(pose.theta),
+];
+
+export const orbitShot = (pose: CameraPose): CameraShot => ({
+  position: orbitPosition(pose),
+  target: [...ORBIT_TARGET] as Vec3,
+  roll: 0,
+  fov: DEFAULT_FOV,
+});
+
+// --- Path Evaluation ---
+// Catmull-Rom passes through every key, timed by the key times. Bezier treats the keys as
+// the control polygon of one curve spanning the first to the last key time, so only the
+// end keys are hit exactly. Position, target, roll and FOV all follow the same curve type.
+export const createCameraPath = (): CameraPath => ({ interpolation: 'catmull-rom', keyframes: [] });
+
+export const cameraPathDuration = (path: CameraPath): number =>
+  path.keyframes.length > 0 ? path.keyframes[path.keyframes.length - 1].time : 0;
+
+// Flattened so every channel shares one interpolation routine
+const toChannels = (key: CameraKeyframe): number[] => [...key.position, ...key.target, key.roll, key.fov];
+
+const fromChannels = (c: number[]): CameraShot => ({
+  position: [c[0], c[1], c[2]],
+  target: [c[3], c[4], c[5]],
+  roll: c[6],
+  fov: c[7],
+});
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, u: number) =>
+  0.5 * (2 * p1 + (p2 - p0) * u + (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u + (3 * p1 - p0 - 3 * p2 + p3) * u * u * u);
+
+const deCasteljau = (points: number[][], s: number): number[] => {
+  let level = points;
+  while (level.length > 1) {
+    level = level.slice(1).map((p, i) => p.map((v, c) => level[i][c] + (v - level[i][c]) * s));
+  }
+  return level[0];
+};
+
+// Camera at time `t` (clamped to the path), or null for an empty path.
+export const evaluateCameraPath = (path: CameraPath, t: number): CameraShot | null => {
+  const keys = path.keyframes;
+  if (keys.length === 0) return null;
+  if (keys.length === 1) return fromChannels(toChannels(keys[0]));
+
+  const first = keys[0].time;
+  const last = keys[keys.length - 1].time;
+  const time = Math.min(Math.max(t, first), last);
+
+  if (path.interpolation === 'bezier') {
+    const s = last > first ? (time - first) / (last - first) : 0;
+    return fromChannels(deCasteljau(keys.map(toChannels), s));
+  }
+
+  let i = 0;
+  while (i < keys.length - 2 && keys[i + 1].time <= time) i++;
+  const span = keys[i + 1].time - keys[i].time;
+  const u = span > 0 ? (time - keys[i].time) / span : 0;
+  const p0 = toChannels(keys[Math.max(i - 1, 0)]);
+  const p1 = toChannels(keys[i]);
+  const p2 = toChannels(keys[i + 1]);
+  const p3 = toChannels(keys[Math.min(i + 2, keys.length - 1)]);
+  return fromChannels(p1.map((_, c) => catmullRom(p0[c], p1[c], p2[c], p3[c], u)));
+};
+
+// --- UI Component ---
+export interface CameraPathPreview {
+  active: boolean;
+  time: number;
+}
+
+interface CameraPathPanelProps {
+  isOpen: boolean;
+  path: CameraPath;
+  setPath: React.Dispatch<React.SetStateAction<CameraPath>>;
+  recordShot: () => CameraShot; // Current orbit camera
+  onPreviewChange: (preview: CameraPathPreview) => void;
+}
+
+const KEY_SPACING = 2.0; // Seconds between recorded keys
+
+const NumberCell: React.FC<{ value: number; step: number; onChange: (v: number) => void }> = ({ value, step, onChange }) => (
+  <input
+    type="number"
+    step={step}
+    value={Number(value.toFixed(3))}
+    onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(v); }}
+    className="w-full bg-white/5 border border-white/10 px-1 py-0.5 text-[10px] font-mono text-white focus:border-acid outline-none transition-colors"
+  />
+);
+
+export const CameraPathPanel: React.FC<CameraPathPanelProps> = ({ isOpen, path, setPath, recordShot, onPreviewChange }) => {
+  const [preview, setPreview] = useState<CameraPathPreview>({ active: false, time: 0 });
+  const [isPlaying, setIsPlaying] = useState(false);
+  const duration = cameraPathDuration(path);
+  const timeRef = useRef(preview.time);
+
+  useEffect(() => {
+    timeRef.current = preview.time;
+    onPreviewChange(isOpen ? preview : { ...preview, active: false });
+  }, [preview, isOpen]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = timeRef.current + (now - last) * 0.001;
+      last = now;
+      if (next >= duration) {
+        setPreview({ active: true, time: duration });
+        setIsPlaying(false);
+        return;
+      }
+      setPreview({ active: true, time: next });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, duration]);
+
+  const updateKey = (index: number, patch: Partial<CameraKeyframe>) => {
+    setPath(prev => ({
+      ...prev,
+      keyframes: prev.keyframes.map((k, i) => (i === index ? { ...k, ...patch } : k)).sort((a, b) => a.time - b.time),
+    }));
+  };
+
+  const updateTarget = (index: number, axis: number, v: number) => {
+    const target = [...path.keyframes[index].target] as Vec3;
+    target[axis] = v;
+    updateKey(index, { target });
+  };
+
+  const recordKey = () => {
+    const shot = recordShot();
+    setPath(prev => ({
+      ...prev,
+      keyframes: [...prev.keyframes, { time: prev.keyframes.length > 0 ? cameraPathDuration(prev) + KEY_SPACING : 0, ...shot }],
+    }));
+  };
+
+  const removeKey = (index: number) => {
+    setPath(prev => ({ ...prev, keyframes: prev.keyframes.filter((_, i) => i !== index) }));
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) { setIsPlaying(false); return; }
+    setPreview({ active: true, time: preview.time >= duration ? 0 : preview.time });
+    setIsPlaying(true);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="absolute top-4 left-4 z-40 w-[460px] bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl font-mono text-[10px] animate-fade-in-up"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <div className="flex items-center px-4 h-9 border-b border-white/10">
+            <span className="uppercase tracking-widest text-gray-400">Camera Path</span>
+        </div>
+
+        <div className="p-4 space-y-4">
+            <div className="flex gap-2">
+                {(['catmull-rom', 'bezier'] as CameraInterpolation[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setPath(prev => ({ ...prev, interpolation: mode }))}
+                        className={`flex-1 p-2 uppercase border transition-all ${path.interpolation === mode ? 'border-acid text-acid bg-acid/10' : 'border-white/10 text-gray-500 hover:border-white/30'}`}
+                    >
+                        {mode}
+                    </button>
+                ))}
+                <button onClick={recordKey} className="flex-1 p-2 uppercase tracking-widest bg-acid text-black font-bold hover:bg-white transition-colors">
+                    Record Key
+                </button>
+            </div>
+
+            {path.keyframes.length > 0 ? (
+                <div className="space-y-1 max-h-56 overflow-y-auto custom-scrollbar">
+                    <div className="grid grid-cols-[1fr_1fr_1fr_1fr_1fr_1fr_16px] gap-1 text-gray-600 uppercase">
+                        <span>Time</span><span>Tgt X</span><span>Tgt Y</span><span>Tgt Z</span><span>Roll</span><span>FOV</span><span />
+                    </div>
+                    {path.keyframes.map((key, i) => (
+                        <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1fr_1fr_1fr_16px] gap-1 items-center">
+                            <NumberCell value={key.time} step={0.1} onChange={v => updateKey(i, { time: Math.max(0, v) })} />
+                            <NumberCell value={key.target[0]} step={0.1} onChange={v => updateTarget(i, 0, v)} />
+                            <NumberCell value={key.target[1]} step={0.1} onChange={v => updateTarget(i, 1, v)} />
+                            <NumberCell value={key.target[2]} step={0.1} onChange={v => updateTarget(i, 2, v)} />
+                            <NumberCell value={key.roll} step={0.05} onChange={v => updateKey(i, { roll: v })} />
+                            <NumberCell value={key.fov} step={1} onChange={v => updateKey(i, { fov: Math.min(170, Math.max(1, v)) })} />
+                            <button onClick={() => removeKey(i)} className="text-white/30 hover:text-red-500 transition-colors">×</button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="text-white/30">Orbit the camera and press Record Key to add waypoints.</div>
+            )}
+
+            <div className="flex items-center gap-3 border-t border-white/10 pt-4">
+                <label className="flex items-center gap-2 cursor-pointer text-gray-400 uppercase tracking-widest">
+                    <input
+                        type="checkbox"
+                        checked={preview.active}
+                        onChange={e => { setIsPlaying(false); setPreview({ ...preview, active: e.target.checked }); }}
+                        className="accent-[#ccff00]"
+                    />
+                    Preview
+                </label>
+                <button onClick={togglePlay} disabled={path.keyframes.length < 2} className="px-2 py-1 uppercase tracking-widest border border-white/10 hover:border-acid hover:text-acid transition-colors disabled:opacity-30">
+                    {isPlaying ? 'Pause' : 'Play'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={duration || 1}
+                    step={0.01}
+                    value={preview.time}
+                    onChange={e => { setIsPlaying(false); setPreview({ active: true, time: parseFloat(e.target.value) }); }}
+                    className="flex-1 accent-[#ccff00]"
+                />
+                <span className="w-16 text-right text-acid">{preview.time.toFixed(2)}s</span>
+            </div>
+            <div className="text-white/30">Pick the PATH shot in Record Video to render this move.</div>
+        </div>
+    </div>
+  );
+};
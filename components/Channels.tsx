@@ -0,0 +1,489 @@
+import React, { useRef, useState } from 'react';
+
+// --- Texture Channels ---
+// Four texture/sampler pairs in group 0: channelN at binding 1 + 2N, samplerN right after it.
+// A channel's view dimension comes from the shader, so declaring `texture_cube<f32>` reads a
+// cubemap; a source that doesn't match what the shader declares is replaced by a placeholder.
+// Video, webcam and canvas sources are copied into their texture every frame.
+
+export const CHANNEL_COUNT = 4;
+export const channelBinding = (index: number) => 1 + index * 2; // Sampler at +1
+
+export type ChannelDimension = '2d' | 'cube';
+export type ChannelSourceKind = 'default' | 'image' | 'video' | 'webcam' | 'canvas' | 'cubemap';
+export type ChannelWrap = 'repeat' | 'clamp' | 'mirror';
+
+export interface ChannelSampling {
+  filter: 'linear' | 'nearest';
+  wrap: ChannelWrap;
+  anisotropy: number; // 1-16; needs linear filtering and mipmaps
+  mipmaps: boolean;
+}
+
+export interface ChannelState {
+  kind: ChannelSourceKind;
+  name: string;
+  width: number;
+  height: number;
+  preview?: string; // Object URL of an image (first face for cubemaps)
+  sampling: ChannelSampling;
+}
+
+export const DEFAULT_CHANNEL_SAMPLING: ChannelSampling = { filter: 'linear', wrap: 'repeat', anisotropy: 1, mipmaps: false };
+
+const WRAP_MODES: Record<ChannelWrap, string> = { repeat: 'repeat', clamp: 'clamp-to-edge', mirror: 'mirror-repeat' };
+const ANISOTROPY_LEVELS = [1, 2, 4, 8, 16];
+
+// WebGPU cube layer order: +X, -X, +Y, -Y, +Z, -Z
+const CUBE_FACE_NAMES = [
+  ['px', 'posx', 'positivex', 'right'],
+  ['nx', 'negx', 'negativex', 'left'],
+  ['py', 'posy', 'positivey', 'top', 'up'],
+  ['ny', 'negy', 'negativey', 'bottom', 'down'],
+  ['pz', 'posz', 'positivez', 'front'],
+  ['nz', 'negz', 'negativez', 'back'],
+];
+
+// Orders six face files by name (e.g. `sky_px.png`, `negx.jpg`, `left.png`).
+export const sortCubeFaces = (files: File[]): File[] => {
+  const tokens = files.map(f => f.name.toLowerCase().split(/[^a-z0-9]+/));
+  return CUBE_FACE_NAMES.map(aliases => {
+    const matches = files.filter((_, i) => tokens[i].some(t => aliases.includes(t)));
+    if (matches.length !== 1) throw new Error(`Name the six cubemap faces px, nx, py, ny, pz, nz (or right, left, top, bottom, front, back).`);
+    return matches[0];
+  });
+};
+
+// View dimension of each channel as the shader declares it; undeclared channels are 2D.
+export const channelDimensions = (code: string): ChannelDimension[] => {
+  const dimensions: ChannelDimension[] = Array(CHANNEL_COUNT).fill('2d');
+  code.split('\n').forEach(line => {
+    const decl = line.replace(/\/\/.*$/, '');
+    const match = decl.match(/@group\s*\(\s*0\s*\)\s*@binding\s*\(\s*(\d+)\s*\)\s*var\s+\w+\s*:\s*texture_cube\s*</);
+    if (!match) return;
+    const index = (parseInt(match[1], 10) - 1) / 2;
+    if (Number.isInteger(index) && index >= 0 && index < CHANNEL_COUNT) dimensions[index] = 'cube';
+  });
+  return dimensions;
+};
+
+// Group 0 layout entries for the channels. 6 = FRAGMENT | COMPUTE
+export const channelLayoutEntries = (dimensions: ChannelDimension[]) => dimensions.flatMap((viewDimension, i) => [
+  { binding: channelBinding(i), visibility: 6, texture: { viewDimension } },
+  { binding: channelBinding(i) + 1, visibility: 6, sampler: {} },
+]);
+
+const MIPMAP_WGSL = `
+@group(0) @binding(0) var src: texture_2d<f32>;
+@group(0) @binding(1) var linearSampler: sampler;
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) i: u32) -> VertexOutput {
+  let pos = array<vec2f, 3>(vec2f(-1.0, -1.0), vec2f(3.0, -1.0), vec2f(-1.0, 3.0));
+  var output: VertexOutput;
+  output.position = vec4f(pos[i], 0.0, 1.0);
+  output.uv = pos[i] * vec2f(0.5, -0.5) + 0.5;
+  return output;
+}
+
+@fragment
+fn fs_main(input: VertexOutput) -> @location(0) vec4f {
+  return textureSampleLevel(src, linearSampler, input.uv, 0.0);
+}
+`;
+
+const CHANNEL_FORMAT = 'rgba8unorm';
+
+// Fills every mip level after the first by halving the one above it, per array layer.
+const createMipmapGenerator = (device: any) => {
+  const module = device.createShaderModule({ label: 'Mipmaps', code: MIPMAP_WGSL });
+  const pipeline = device.createRenderPipeline({
+    layout: 'auto',
+    vertex: { module, entryPoint: 'vs_main' },
+    fragment: { module, entryPoint: 'fs_main', targets: [{ format: CHANNEL_FORMAT }] },
+    primitive: { topology: 'triangle-list' },
+  });
+  const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+
+  return (texture: any) => {
+    const encoder = device.createCommandEncoder();
+    for (let layer = 0; layer < texture.depthOrArrayLayers; layer++) {
+      for (let level = 1; level < texture.mipLevelCount; level++) {
+        const view = (mip: number) => texture.createView({ dimension: '2d', baseMipLevel: mip, mipLevelCount: 1, baseArrayLayer: layer, arrayLayerCount: 1 });
+        const pass = encoder.beginRenderPass({
+          colorAttachments: [{ view: view(level), clearValue: { r: 0, g: 0, b: 0, a: 0 }, loadOp: 'clear', storeOp: 'store' }],
+        });
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(0, device.createBindGroup({
+          layout: pipeline.getBindGroupLayout(0),
+          entries: [{ binding: 0, resource: view(level - 1) }, { binding: 1, resource: sampler }],
+        }));
+        pass.draw(3);
+        pass.end();
+      }
+    }
+    device.queue.submit([encoder.finish()]);
+  };
+};
+
+type ExternalSource = ImageBitmap | HTMLCanvasElement | OffscreenCanvas | HTMLVideoElement;
+
+interface Channel {
+  state: ChannelState;
+  texture: any | null; // Null until a live source has a frame; shared placeholders are never owned
+  sampler: any;
+  images?: ImageBitmap[]; // Kept so a mipmap change can rebuild the texture
+  live?: HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas;
+  stream?: MediaStream;
+  url?: string; // Object URL backing a video
+  lastTime?: number; // Video time of the last uploaded frame
+}
+
+export interface ChannelSet {
+  loadFiles: (index: number, files: File[]) => Promise<void>; // One image, one video or six cubemap faces
+  startWebcam: (index: number) => Promise<void>;
+  setCanvas: (index: number, canvas: HTMLCanvasElement | OffscreenCanvas, name?: string) => void;
+  clear: (index: number) => void;
+  setSampling: (index: number, change: Partial<ChannelSampling>) => void;
+  update: () => void; // Uploads the current frame of live sources
+  bindEntries: (dimensions: ChannelDimension[]) => any[]; // Group 0 entries for every channel
+  resolutions: () => number[]; // vec4f per channel: xy = size, z = video time, w = 1 for cubemaps
+  destroy: () => void;
+}
+
+const createPlaceholderCanvas = () => {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size; canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = '#333';
+    for (let y = 0; y < size; y += 8) {
+      for (let x = 0; x < size; x += 8) {
+        if ((x / 8 + y / 8) % 2 === 0) ctx.fillRect(x, y, 8, 8);
+      }
+    }
+    const id = ctx.getImageData(0, 0, size, size);
+    for (let i = 0; i < id.data.length; i += 4) {
+      id.data[i] = Math.min(255, id.data[i] + Math.random() * 50);
+      id.data[i + 1] = Math.min(255, id.data[i + 1] + Math.random() * 50);
+      id.data[i + 2] = Math.min(255, id.data[i + 2] + Math.random() * 50);
+    }
+    ctx.putImageData(id, 0, 0);
+  }
+  return canvas;
+};
+
+const sourceSize = (source: ExternalSource): [number, number] =>
+  source instanceof HTMLVideoElement ? [source.videoWidth, source.videoHeight] : [source.width, source.height];
+
+// `onChange` fires whenever a channel's state or texture object changes; the caller rebinds.
+export const createChannelSet = (device: any, onChange: (states: ChannelState[]) => void): ChannelSet => {
+  const generateMipmaps = createMipmapGenerator(device);
+  const maxSize = device.limits.maxTextureDimension2D;
+
+  const createTexture = (width: number, height: number, layers: number, mipmaps: boolean) => device.createTexture({
+    size: [width, height, layers],
+    format: CHANNEL_FORMAT,
+    mipLevelCount: mipmaps ? Math.floor(Math.log2(Math.max(width, height))) + 1 : 1,
+    // Usage: TEXTURE_BINDING (4) | COPY_DST (2) | COPY_SRC (1) | RENDER_ATTACHMENT (16) = 23
+    usage: 23,
+  });
+
+  const upload = (texture: any, sources: ExternalSource[]) => {
+    sources.forEach((source, layer) => {
+      device.queue.copyExternalImageToTexture({ source }, { texture, origin: [0, 0, layer] }, [texture.width, texture.height]);
+    });
+    if (texture.mipLevelCount > 1) generateMipmaps(texture);
+  };
+
+  const createSampler = (s: ChannelSampling) => {
+    const mipmapFilter = s.mipmaps ? s.filter : 'nearest';
+    return device.createSampler({
+      magFilter: s.filter,
+      minFilter: s.filter,
+      mipmapFilter,
+      addressModeU: WRAP_MODES[s.wrap],
+      addressModeV: WRAP_MODES[s.wrap],
+      addressModeW: WRAP_MODES[s.wrap],
+      // Anisotropy is only valid with linear min, mag and mipmap filtering
+      maxAnisotropy: s.filter === 'linear' && mipmapFilter === 'linear' ? s.anisotropy : 1,
+    });
+  };
+
+  const placeholder = createTexture(64, 64, 1, false);
+  upload(placeholder, [createPlaceholderCanvas()]);
+  const placeholderCube = createTexture(1, 1, 6, false); // Black
+
+  const channels: Channel[] = Array.from({ length: CHANNEL_COUNT }, () => ({
+    state: { kind: 'default', name: 'Checker', width: 64, height: 64, sampling: DEFAULT_CHANNEL_SAMPLING },
+    texture: null,
+    sampler: createSampler(DEFAULT_CHANNEL_SAMPLING),
+  }));
+
+  const notify = () => onChange(channels.map(c => c.state));
+
+  // Stops and frees whatever the channel held
+  const release = (channel: Channel) => {
+    channel.texture?.destroy();
+    channel.texture = null;
+    channel.images?.forEach(image => image.close());
+    channel.stream?.getTracks().forEach(track => track.stop());
+    if (channel.live instanceof HTMLVideoElement) {
+      channel.live.pause();
+      channel.live.removeAttribute('src');
+      channel.live.srcObject = null;
+    }
+    if (channel.url) URL.revokeObjectURL(channel.url);
+    if (channel.state.preview) URL.revokeObjectURL(channel.state.preview);
+    channel.images = undefined;
+    channel.live = undefined;
+    channel.stream = undefined;
+    channel.url = undefined;
+    channel.lastTime = undefined;
+  };
+
+  const replace = (index: number, change: Partial<Channel>, state: Omit<ChannelState, 'sampling'>) => {
+    const channel = channels[index];
+    release(channel);
+    Object.assign(channel, change);
+    channel.state = { ...state, sampling: channel.state.sampling };
+    notify();
+  };
+
+  const setImages = (index: number, images: ImageBitmap[], name: string, preview: string) => {
+    const [width, height] = sourceSize(images[0]);
+    const texture = createTexture(width, height, images.length, channels[index].state.sampling.mipmaps);
+    upload(texture, images);
+    replace(index, { texture, images }, { kind: images.length === 6 ? 'cubemap' : 'image', name, width, height, preview });
+  };
+
+  // Decodes an image, scaled down if it exceeds the device's texture size limit
+  const decode = async (file: File) => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1) return bitmap;
+    const resized = await createImageBitmap(bitmap, {
+      resizeWidth: Math.floor(bitmap.width * scale),
+      resizeHeight: Math.floor(bitmap.height * scale),
+      resizeQuality: 'high',
+    });
+    bitmap.close();
+    return resized;
+  };
+
+  const setVideo = (index: number, video: HTMLVideoElement, kind: 'video' | 'webcam', name: string, extra: Partial<Channel>) => {
+    video.muted = true;
+    video.playsInline = true;
+    replace(index, { live: video, ...extra }, { kind, name, width: 0, height: 0 });
+    video.play().catch(err => console.warn('Channel video did not start:', err));
+  };
+
+  const loadFiles = async (index: number, files: File[]) => {
+    if (files.length === 1 && files[0].type.startsWith('video/')) {
+      const url = URL.createObjectURL(files[0]);
+      const video = document.createElement('video');
+      video.loop = true;
+      video.src = url;
+      setVideo(index, video, 'video', files[0].name, { url });
+      return;
+    }
+    if (!files.every(f => f.type.startsWith('image/')) || (files.length !== 1 && files.length !== 6)) {
+      throw new Error('Drop one image, one video, or six images for a cubemap.');
+    }
+    const ordered = files.length === 6 ? sortCubeFaces(files) : files;
+    const images = await Promise.all(ordered.map(decode));
+    const [width, height] = sourceSize(images[0]);
+    if (images.length === 6 && images.some(image => image.width !== width || image.height !== width)) {
+      images.forEach(image => image.close());
+      throw new Error('Cubemap faces must be square and all the same size.');
+    }
+    setImages(index, images, files.length === 6 ? `Cubemap (${ordered[0].name})` : files[0].name, URL.createObjectURL(ordered[0]));
+  };
+
+  const startWebcam = async (index: number) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+    const video = document.createElement('video');
+    video.srcObject = stream;
+    setVideo(index, video, 'webcam', stream.getVideoTracks()[0]?.label || 'Webcam', { stream });
+  };
+
+  const setCanvas = (index: number, canvas: HTMLCanvasElement | OffscreenCanvas, name = 'Canvas') => {
+    replace(index, { live: canvas }, { kind: 'canvas', name, width: canvas.width, height: canvas.height });
+  };
+
+  const clear = (index: number) => {
+    replace(index, {}, { kind: 'default', name: 'Checker', width: 64, height: 64 });
+  };
+
+  const setSampling = (index: number, change: Partial<ChannelSampling>) => {
+    const channel = channels[index];
+    const sampling = { ...channel.state.sampling, ...change };
+    channel.sampler = createSampler(sampling);
+    channel.state = { ...channel.state, sampling };
+    // Mip levels are fixed at creation; static images are rebuilt now, live sources on their next frame
+    if (channel.texture && (channel.texture.mipLevelCount > 1) !== sampling.mipmaps) {
+      channel.texture.destroy();
+      channel.texture = null;
+      if (channel.images) {
+        channel.texture = createTexture(channel.state.width, channel.state.height, channel.images.length, sampling.mipmaps);
+        upload(channel.texture, channel.images);
+      }
+    }
+    notify();
+  };
+
+  const update = () => {
+    let changed = false;
+    channels.forEach(channel => {
+      const source = channel.live;
+      if (!source) return;
+      if (source instanceof HTMLVideoElement) {
+        // HAVE_CURRENT_DATA; skip paused frames that were already uploaded
+        if (source.readyState < 2 || source.videoWidth === 0) return;
+        if (channel.texture && source.currentTime === channel.lastTime) return;
+        channel.lastTime = source.currentTime;
+      }
+      const [width, height] = sourceSize(source);
+      if (width === 0 || height === 0) return;
+      if (!channel.texture || channel.texture.width !== width || channel.texture.height !== height) {
+        channel.texture?.destroy();
+        channel.texture = createTexture(width, height, 1, channel.state.sampling.mipmaps);
+        channel.state = { ...channel.state, width, height };
+        changed = true;
+      }
+      upload(channel.texture, [source]);
+    });
+    if (changed) notify();
+  };
+
+  const bindEntries = (dimensions: ChannelDimension[]) => channels.flatMap((channel, i) => {
+    const isCube = channel.state.kind === 'cubemap';
+    const matches = channel.texture && isCube === (dimensions[i] === 'cube');
+    const view = matches
+      ? channel.texture.createView({ dimension: dimensions[i] })
+      : dimensions[i] === 'cube' ? placeholderCube.createView({ dimension: 'cube' }) : placeholder.createView();
+    return [
+      { binding: channelBinding(i), resource: view },
+      { binding: channelBinding(i) + 1, resource: channel.sampler },
+    ];
+  });
+
+  const resolutions = () => channels.flatMap(({ state, live }) => [
+    state.width,
+    state.height,
+    live instanceof HTMLVideoElement ? live.currentTime : 0,
+    state.kind === 'cubemap' ? 1 : 0,
+  ]);
+
+  notify(); // Report the placeholders
+  return {
+    loadFiles,
+    startWebcam,
+    setCanvas,
+    clear,
+    setSampling,
+    update,
+    bindEntries,
+    resolutions,
+    destroy: () => {
+      channels.forEach(release);
+      placeholder.destroy();
+      placeholderCube.destroy();
+    },
+  };
+};
+
+// --- UI Component ---
+
+interface ChannelStripProps {
+  isOpen: boolean;
+  states: ChannelState[];
+  dimensions: ChannelDimension[]; // What the shader declares
+  onLoad: (index: number, files: File[]) => void;
+  onWebcam: (index: number) => void;
+  onClear: (index: number) => void;
+  onSamplingChange: (index: number, change: Partial<ChannelSampling>) => void;
+}
+
+const KIND_LABELS: Record<ChannelSourceKind, string> = {
+  default: 'Default', image: 'Image', video: 'Video', webcam: 'Webcam', canvas: 'Canvas', cubemap: 'Cubemap',
+};
+
+type ChannelHandlers = Pick<ChannelStripProps, 'onLoad' | 'onWebcam' | 'onClear' | 'onSamplingChange'>;
+
+const ChannelCard: React.FC<ChannelHandlers & { index: number; state: ChannelState; dimension: ChannelDimension }> = ({
+  index, state, dimension, onLoad, onWebcam, onClear, onSamplingChange,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOver, setIsOver] = useState(false);
+  const { sampling } = state;
+  const mismatch = (dimension === 'cube') !== (state.kind === 'cubemap');
+  const toggleClass = (on: boolean) => `px-1 py-0.5 border transition-all ${on ? 'border-acid text-acid bg-acid/10' : 'border-white/10 text-gray-500 hover:border-white/30'}`;
+
+  return (
+    <div className="w-40 bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between px-2 h-6 border-b border-white/10">
+        <span className="text-white">CH{index} <span className="text-gray-500">{KIND_LABELS[state.kind]}</span></span>
+        <button onClick={() => onClear(index)} disabled={state.kind === 'default'} className="text-white/40 hover:text-acid disabled:opacity-20">×</button>
+      </div>
+      <div
+        onClick={() => inputRef.current?.click()}
+        onDragOver={e => { e.preventDefault(); setIsOver(true); }}
+        onDragLeave={() => setIsOver(false)}
+        onDrop={e => { e.preventDefault(); setIsOver(false); onLoad(index, Array.from(e.dataTransfer.files)); }}
+        className={`relative h-20 m-2 border border-dashed flex items-end cursor-pointer transition-colors bg-center bg-cover ${isOver ? 'border-acid' : 'border-white/20 hover:border-white/40'}`}
+        style={state.preview ? { backgroundImage: `url(${state.preview})` } : undefined}
+      >
+        <div className="w-full px-1 py-0.5 bg-black/70 truncate text-gray-300" title={state.name}>
+          {state.width > 0 ? `${state.width}×${state.height} ` : ''}{state.name}
+        </div>
+        <input
+          type="file"
+          ref={inputRef}
+          className="hidden"
+          multiple
+          accept="image/*,video/*"
+          onChange={e => { const files = Array.from(e.target.files || []); e.target.value = ''; if (files.length) onLoad(index, files); }}
+        />
+      </div>
+      {mismatch && <div className="px-2 pb-1 text-red-400">Shader expects {dimension === 'cube' ? 'a cubemap' : '2D'}</div>}
+      <div className="grid grid-cols-3 gap-1 px-2 pb-2 uppercase">
+        <button className={toggleClass(sampling.filter === 'linear')} onClick={() => onSamplingChange(index, { filter: sampling.filter === 'linear' ? 'nearest' : 'linear' })}>
+          {sampling.filter === 'linear' ? 'Linear' : 'Nearest'}
+        </button>
+        <button className={toggleClass(sampling.wrap !== 'clamp')} onClick={() => onSamplingChange(index, { wrap: sampling.wrap === 'repeat' ? 'clamp' : sampling.wrap === 'clamp' ? 'mirror' : 'repeat' })}>
+          {sampling.wrap}
+        </button>
+        <button className={toggleClass(sampling.mipmaps)} onClick={() => onSamplingChange(index, { mipmaps: !sampling.mipmaps })}>Mips</button>
+        <select
+          value={sampling.anisotropy}
+          disabled={sampling.filter !== 'linear' || !sampling.mipmaps}
+          onChange={e => onSamplingChange(index, { anisotropy: parseInt(e.target.value, 10) })}
+          className="col-span-2 bg-white/5 border border-white/10 px-1 py-0.5 text-white outline-none disabled:opacity-30"
+        >
+          {ANISOTROPY_LEVELS.map(level => <option key={level} value={level}>Aniso {level}x</option>)}
+        </select>
+        <button className={toggleClass(state.kind === 'webcam')} onClick={() => onWebcam(index)}>Cam</button>
+      </div>
+    </div>
+  );
+};
+
+export const ChannelStrip: React.FC<ChannelStripProps> = ({ isOpen, states, dimensions, ...handlers }) => {
+  if (!isOpen) return null;
+  return (
+    <div className="absolute bottom-4 left-4 z-40 flex gap-2 font-mono text-[10px]" onMouseDown={e => e.stopPropagation()}>
+      {states.map((state, index) => (
+        <ChannelCard key={index} index={index} state={state} dimension={dimensions[index]} {...handlers} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+// --- Frame Encoding & Archives ---
+// Browser-side writers for exported frames. Everything here works on plain bytes so the
+// renderer only has to hand over what it read back from the GPU.
+
+// --- Pixel Readback ---
+// GPU readback rows are padded to 256 bytes and the canvas is often BGRA; PNG wants tight RGBA.
+export const alignBytesPerRow = (width: number, bytesPerPixel = 4) => Math.ceil((width * bytesPerPixel) / 256) * 256;
+
+export const unpackReadback = (mapped: Uint8Array, width: number, height: number, bytesPerRow: number, bgra: boolean): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const src = y * bytesPerRow;
+    const dst = y * width * 4;
+    for (let x = 0; x < width * 4; x += 4) {
+      pixels[dst + x] = mapped[src + x + (bgra ? 2 : 0)];
+      pixels[dst + x + 1] = mapped[src + x + 1];
+      pixels[dst + x + 2] = mapped[src + x + (bgra ? 0 : 2)];
+      pixels[dst + x + 3] = 255; // Canvas is configured opaque
+    }
+  }
+  return pixels;
+};
+
+// rgba16float readback: the half-float bits are kept as-is
+export const unpackHalfReadback = (mapped: Uint8Array, width: number, height: number, bytesPerRow: number): Uint16Array => {
+  const halves = new Uint16Array(width * height * 4);
+  const src = new Uint16Array(mapped.buffer, mapped.byteOffset, (bytesPerRow * height) / 2);
+  for (let y = 0; y < height; y++) {
+    halves.set(src.subarray((y * bytesPerRow) / 2, (y * bytesPerRow) / 2 + width * 4), y * width * 4);
+  }
+  return halves;
+};
+
+export const encodePNG = async (pixels: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable for PNG encoding');
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+// --- Streaming PNG ---
+// For stills too large for a canvas: rows are filtered and deflated as they arrive, so only
+// one strip of the image is ever held uncompressed. Output is 8-bit RGB (the canvas is opaque).
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+export interface PNGStreamWriter {
+  writeRows: (pixels: Uint8ClampedArray) => Promise<void>; // Tight RGBA rows, top to bottom
+  finish: () => Promise<Blob>;
+  abort: () => void; // Tears down the deflate stream and drops what was written
+}
+
+export const createPNGStreamWriter = (width: number, height: number): PNGStreamWriter => {
+  const stream = new CompressionStream('deflate'); // zlib wrapper, as IDAT expects
+  const writer = stream.writable.getWriter();
+  const idat: Uint8Array[] = [];
+  const drained = (async () => {
+    const reader = stream.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      idat.push(pngChunk('IDAT', value));
+    }
+  })();
+  let rowsWritten = 0;
+
+  const writeRows = async (pixels: Uint8ClampedArray) => {
+    const rows = pixels.length / (width * 4);
+    const stride = 1 + width * 3;
+    const filtered = new Uint8Array(rows * stride);
+    for (let y = 0; y < rows; y++) {
+      const src = y * width * 4;
+      const dst = y * stride;
+      filtered[dst] = 1; // Sub filter: each byte minus the same channel of the pixel to its left
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          const left = x > 0 ? pixels[src + (x - 1) * 4 + c] : 0;
+          filtered[dst + 1 + x * 3 + c] = (pixels[src + x * 4 + c] - left) & 0xff;
+        }
+      }
+    }
+    rowsWritten += rows;
+    await writer.write(filtered);
+  };
+
+  const finish = async () => {
+    if (rowsWritten !== height) throw new Error(`PNG has ${rowsWritten} of ${height} rows`);
+    await writer.close();
+    await drained;
+    const header = new DataView(new ArrayBuffer(13));
+    header.setUint32(0, width);
+    header.setUint32(4, height);
+    header.setUint8(8, 8); // Bit depth
+    header.setUint8(9, 2); // Truecolor RGB
+    return new Blob([PNG_SIGNATURE, pngChunk('IHDR', new Uint8Array(header.buffer)), ...idat, pngChunk('IEND', new Uint8Array(0))], { type: 'image/png' });
+  };
+
+  const abort = () => {
+    // The pending read rejects once the stream errors; nothing is waiting on it any more
+    drained.catch(() => {});
+    writer.abort().catch(() => {});
+    idat.length = 0;
+  };
+
+  return { writeRows, finish, abort };
+};
+
+// --- OpenEXR ---
+// Scanline EXR with half-float R, G, B channels and ZIP compression (16 lines per block).
+// Linear values go in untouched, so the file can be graded like any render pass.
+const EXR_BLOCK_LINES = 16;
+const EXR_HALF = 1;
+const EXR_ZIP_COMPRESSION = 3;
+
+const exrHeader = (width: number, height: number): Uint8Array => {
+  const bytes: number[] = [];
+  const u8 = (v: number) => bytes.push(v & 0xff);
+  const i32 = (v: number) => { for (let i = 0; i < 4; i++) u8(v >> (i * 8)); };
+  const f32 = (v: number) => bytes.push(...new Uint8Array(new Float32Array([v]).buffer));
+  const str = (text: string) => { for (const c of text) u8(c.charCodeAt(0)); u8(0); };
+  const attribute = (name: string, type: string, size: number, write: () => void) => {
+    str(name); str(type); i32(size);
+    const start = bytes.length;
+    write();
+    if (bytes.length - start !== size) throw new Error(`EXR attribute ${name} is ${bytes.length - start} bytes, expected ${size}`);
+  };
+  const box = () => { i32(0); i32(0); i32(width - 1); i32(height - 1); };
+
+  i32(20000630); // Magic
+  i32(2); // Version 2, single-part scanline
+  // Channels must be listed alphabetically
+  attribute('channels', 'chlist', 3 * 18 + 1, () => {
+    for (const name of ['B', 'G', 'R']) { str(name); i32(EXR_HALF); u8(0); u8(0); u8(0); u8(0); i32(1); i32(1); }
+    u8(0);
+  });
+  attribute('compression', 'compression', 1, () => u8(EXR_ZIP_COMPRESSION));
+  attribute('dataWindow', 'box2i', 16, box);
+  attribute('displayWindow', 'box2i', 16, box);
+  attribute('lineOrder', 'lineOrder', 1, () => u8(0)); // Increasing Y
+  attribute('pixelAspectRatio', 'float', 4, () => f32(1));
+  attribute('screenWindowCenter', 'v2f', 8, () => { f32(0); f32(0); });
+  attribute('screenWindowWidth', 'float', 4, () => f32(1));
+  u8(0); // End of header
+  return new Uint8Array(bytes);
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Splits even and odd bytes, then delta-codes them, as the EXR ZIP codec expects before deflate
+const exrPredict = (raw: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(raw.length);
+  const half = (raw.length + 1) >> 1;
+  for (let i = 0; i < raw.length; i++) out[(i & 1) ? half + (i >> 1) : i >> 1] = raw[i];
+  for (let i = out.length - 1; i > 0; i--) out[i] = (out[i] - out[i - 1] + 128) & 0xff;
+  return out;
+};
+
+export interface EXRStreamWriter {
+  writeRows: (halves: Uint16Array) => Promise<void>; // Tight RGBA half-float rows, top to bottom
+  finish: () => Promise<Blob>;
+  abort: () => void; // Drops the blocks written so far
+}
+
+export const createEXRStreamWriter = (width: number, height: number): EXRStreamWriter => {
+  const blocks: Uint8Array[] = [];
+  let pending = new Uint16Array(0); // Rows waiting for a full block
+  let rowsWritten = 0;
+
+  const writeBlock = async (rows: Uint16Array, y: number) => {
+    const lines = rows.length / (width * 4);
+    // Per line: all B, then all G, then all R
+    const raw = new Uint16Array(lines * width * 3);
+    for (let line = 0; line < lines; line++) {
+      for (let c = 0; c < 3; c++) {
+        const dst = (line * 3 + c) * width;
+        const channel = 2 - c;
+        for (let x = 0; x < width; x++) raw[dst + x] = rows[(line * width + x) * 4 + channel];
+      }
+    }
+    let data = new Uint8Array(raw.buffer); // Little-endian, as EXR stores it
+    const compressed = await deflate(exrPredict(data));
+    if (compressed.length < data.length) data = compressed; // Otherwise the block is stored raw
+    const block = new Uint8Array(8 + data.length);
+    const view = new DataView(block.buffer);
+    view.setInt32(0, y, true);
+    view.setInt32(4, data.length, true);
+    block.set(data, 8);
+    blocks.push(block);
+  };
+
+  const writeRows = async (halves: Uint16Array) => {
+    const merged = new Uint16Array(pending.length + halves.length);
+    merged.set(pending);
+    merged.set(halves, pending.length);
+    const rowLength = width * 4;
+    const rows = merged.length / rowLength;
+    let row = 0;
+    for (; row + EXR_BLOCK_LINES <= rows; row += EXR_BLOCK_LINES) {
+      await writeBlock(merged.subarray(row * rowLength, (row + EXR_BLOCK_LINES) * rowLength), blocks.length * EXR_BLOCK_LINES);
+    }
+    pending = merged.slice(row * rowLength);
+    rowsWritten += halves.length / rowLength;
+  };
+
+  const finish = async () => {
+    if (rowsWritten !== height) throw new Error(`EXR has ${rowsWritten} of ${height} rows`);
+    if (pending.length > 0) await writeBlock(pending, blocks.length * EXR_BLOCK_LINES);
+    const header = exrHeader(width, height);
+    // Offset table: absolute file position of each block
+    const offsets = new DataView(new ArrayBuffer(blocks.length * 8));
+    let position = header.length + offsets.byteLength;
+    blocks.forEach((block, i) => {
+      offsets.setBigUint64(i * 8, BigInt(position), true);
+      position += block.length;
+    });
+    return new Blob([header, offsets.buffer, ...blocks], { type: 'image/x-exr' });
+  };
+
+  const abort = () => {
+    blocks.length = 0;
+    pending = new Uint16Array(0);
+  };
+
+  return { writeRows, finish, abort };
+};
+
+// --- ZIP (stored) ---
+// Frames are already compressed, so entries are stored as-is. No ZIP64: an archive must stay under 4GB and 65535 entries.
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export interface ZipWriter {
+  add: (name: string, data: Uint8Array) => void;
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  const stamp = dosDateTime(new Date());
+  let offset = 0;
+
+  const add = (name: string, data: Uint8Array) => {
+    const nameBytes = new TextEncoder().encode(name);
+    const crc = crc32(data);
+    if (offset + data.length > 0xffffffff || central.length >= 0xffff) throw new Error('ZIP archive would exceed 4GB or 65535 entries');
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    const entry = new DataView(new ArrayBuffer(46 + nameBytes.length));
+    entry.setUint32(0, 0x02014b50, true); // Central directory header
+    entry.setUint16(4, 20, true); // Version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, stamp.time, true);
+    entry.setUint16(14, stamp.date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true); // Local header offset; extra, comment and attributes stay 0
+    new Uint8Array(entry.buffer).set(nameBytes, 46);
+
+    parts.push(local.buffer, nameBytes, data);
+    central.push(new Uint8Array(entry.buffer));
+    offset += 30 + nameBytes.length + data.length;
+  };
+
+  const finish = () => {
+    const centralSize = central.reduce((sum, e) => sum + e.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory
+    end.setUint16(8, central.length, true);
+    end.setUint16(10, central.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+  };
+
+  return { add, finish };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
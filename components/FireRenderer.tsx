@@ -8,8 +8,20 @@
 
 
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { ShaderError, ShaderParam, VideoConfig } from '../types';
-import { calculateUniformLayout, writeParamsToBuffer, ParamsControlPanel } from './ShaderParams';
+import { CameraPath, CameraPose, CameraShot, ChannelSourceRecord, Modulator, PresetFile, PresetImportReport, PresetValue, RenderProgress, ShaderDiagnostic, ShaderError, ShaderParam, TiledCaptureOptions, Timeline, UniformLayout, VideoConfig } from '../types';
+import { applyPresetToParams, createPreset, MAX_PRESET_SLOTS, PresetManager } from './Presets';
+import { createMidiMapper, createWebMidiSource, ccLabel, loadMidiMappings, MidiMapper, MidiPanel, MidiSource, MidiStatus, saveMidiMappings } from './Midi';
+import { createTimeline, evaluateTimeline, TimelinePanel } from './Timeline';
+import { createModulationEngine, ModulationPanel, modulatedValues } from './Modulation';
+import { alignBytesPerRow, createEXRStreamWriter, createPNGStreamWriter, createZipWriter, downloadBlob, encodePNG, unpackHalfReadback, unpackReadback, ZipWriter } from './Encoders';
+import { AUDIO_CODEC_CANDIDATES, CODEC_CANDIDATES, CONTAINER_MIME, createVideoMuxer, VideoContainer, VideoMuxer } from './Muxers';
+import { Accumulator, createAccumulator, DEFAULT_PROGRESSIVE_SETTINGS, ProgressivePanel, sampleJitter } from './Progressive';
+import { CameraPathPanel, CameraPathPreview, createCameraPath, evaluateCameraPath, orbitShot } from './CameraPath';
+import { createPostStack, DEFAULT_POST_STACK, parseCubeLUT, PostStack, PostStackPanel, PostStackSettings, postTileMargin, SCENE_FORMAT } from './PostStack';
+import { createRenderGraph, parseRenderGraph, RenderGraph, validateRenderGraph } from './RenderGraph';
+import { AUDIO_TEXTURE_BINDING, AudioFrame, AudioInput, AudioPanel, AudioSettings, AudioStatus, createAudioInput, createSoundtrackAnalyser, decodeSoundtrack, DEFAULT_AUDIO_SETTINGS, encodeSoundtrack, IDLE_AUDIO_STATUS, SILENT_AUDIO_FRAME, SoundtrackAnalyser } from './Audio';
+import { CHANNEL_COUNT, ChannelDimension, channelDimensions, channelLayoutEntries, ChannelSet, ChannelState, ChannelStrip, createChannelSet } from './Channels';
+import { buildLayoutProbe, LayoutProbe, parseUniformStruct, PROBE_GROUP, paramsFromUniformFields, reflectUniforms, verifyLayoutProbe, writeParamsToBuffer, ParamsControlPanel } from './ShaderParams';
 
 function getErrorMessage(err: any): string {
   if (err === undefined) return "Undefined Error";
@@ -37,31 +49,96 @@ function getErrorMessage(err: any): string {
 
 export interface WebGPURendererRef {
   capture: (quality?: number) => void;
-  startVideo: (config: VideoConfig) => void;
+  captureTiled: (options: TiledCaptureOptions) => Promise<void>; // Rejects if the capture can't run
+  cancelCapture: () => void;
+  startVideo: (config: VideoConfig) => Promise<boolean>; // False if the export could not start; the reason goes to onError
   stopVideo: () => void;
-  loadTexture: (file: File) => void;
-  toggleAudio: () => Promise<void>;
+  loadTexture: (file: File, channel?: number) => void; // Image or video; channel 0 by default
+  setChannelCanvas: (channel: number, canvas: HTMLCanvasElement | OffscreenCanvas) => void; // Copied every frame
+  toggleAudio: () => Promise<void>; // Starts or stops the microphone
+  loadAudio: (file: File) => Promise<void>;
+  stopAudio: () => void;
+  exportPreset: (name?: string) => PresetFile;
+  importPreset: (preset: PresetFile) => PresetImportReport;
+  getParams: () => ShaderParam[]; // Includes changes not yet rendered by React
+  setParam: (id: string, value: PresetValue) => boolean; // False if the param is unknown or the value has the wrong shape
+  getCamera: () => CameraPose;
+  setCamera: (pose: Partial<CameraPose>) => void; // Clamped like mouse input
+  getChannelSources: () => ChannelSourceRecord[]; // Canvases set by host code are not tracked
+  setChannelSources: (sources: ChannelSourceRecord[]) => void; // Reloads only the channels that differ
 }
 
 interface WebGPURendererProps {
   shaderCode: string;
+  initialPreset?: PresetFile | null; // Applied once, after the first successful compile
+  showTimeline?: boolean;
+  showCameraPath?: boolean;
+  showChannels?: boolean;
+  showMidi?: boolean;
+  showModulation?: boolean;
+  midiSource?: MidiSource; // Replaces Web MIDI, e.g. with a virtual source when testing without hardware
+  progressive?: boolean; // Accumulate jittered samples into a still instead of animating
   description?: string;
   onError: (error: ShaderError) => void;
   onClearError: () => void;
-  onRecordProgress: (isRecording: boolean, timeLeft: number) => void;
+  onDiagnostics?: (diagnostics: ShaderDiagnostic[]) => void; // Every message of the latest compile, empty when it was clean
+  onRecordProgress: (isRecording: boolean, timeLeft: number, progress?: RenderProgress) => void;
+  onAudioChange?: (status: AudioStatus) => void;
+  onParamsChange?: (params: ShaderParam[]) => void; // After every committed change, from any source
+  onChannelSourcesChange?: (sources: ChannelSourceRecord[]) => void;
 }
 
-const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderCode, description, onError, onClearError, onRecordProgress }, ref) => {
+interface OfflineRender {
+  totalFrames: number;
+  zip: ZipWriter;
+  readback: any; // MAP_READ buffer reused for every frame
+  bytesPerRow: number;
+  bgra: boolean; // Canvas format channel order
+  pending: boolean; // A frame is being read back; the render loop waits
+  cancelled: boolean;
+}
+
+interface FrameUniforms {
+  width: number; // Full frame resolution, even when drawing a single tile
+  height: number;
+  time: number;
+  camera: CameraShot;
+  params: ShaderParam[];
+  tileOffset?: [number, number]; // Top-left pixel of the tile being drawn
+  seed: number; // Per-frame seed for stochastic effects
+}
+
+// Uniforms that change every sample without changing the image being converged on
+const ACCUMULATION_VOLATILE: Record<string, number> = { jitter: 2, frameSeed: 1, mouse: 4 };
+
+const writeUniform = (data: Float32Array, layout: UniformLayout, name: string, values: number[]) => {
+  const offset = layout.offsetMap[name];
+  if (offset !== undefined) data.set(values, offset / 4);
+};
+
+interface EncodedRecording {
+  encoder: VideoEncoder;
+  audioEncoder: AudioEncoder | null; // The whole soundtrack is queued when the recording starts
+  muxer: VideoMuxer;
+  container: VideoContainer;
+  totalFrames: number;
+  frameDuration: number; // Microseconds
+  keyInterval: number; // Frames between keyframes
+}
+
+const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderCode, initialPreset, showTimeline = false, showCameraPath = false, showChannels = false, showMidi = false, showModulation = false, midiSource, progressive = false, description, onError, onClearError, onDiagnostics, onRecordProgress, onAudioChange, onParamsChange, onChannelSourcesChange }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isSupported, setIsSupported] = useState<boolean>(true);
   
   const deviceRef = useRef<any>(null);
   const contextRef = useRef<any>(null);
-  const pipelineRef = useRef<any>(null);
+  const graphRef = useRef<RenderGraph | null>(null); // Pipelines for every pass
+  const bindGroupLayoutRef = useRef<any>(null); // Group 0, shared by all passes
   const uniformBufferRef = useRef<any>(null);
+  const compileGenerationRef = useRef(0); // Bumped per compile; an older compile that resolves late gives up
   const bindGroupRef = useRef<any>(null);
-  const textureRef = useRef<any>(null); // Channel 0
-  const samplerRef = useRef<any>(null); // Sampler
+  const channelsRef = useRef<ChannelSet | null>(null); // channel0-3 textures and samplers
+  const channelDimensionsRef = useRef<ChannelDimension[]>(Array(CHANNEL_COUNT).fill('2d')); // As the compiled shader declares them
   
   const requestRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(performance.now());
@@ -69,9 +146,17 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
   const errorReportedRef = useRef<boolean>(false);
   
   // Audio State
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyzerRef = useRef<AnalyserNode | null>(null);
-  const audioDataArrayRef = useRef<Uint8Array | null>(null);
+  const audioRef = useRef<AudioInput | null>(null); // Mic or file analyser and its FFT texture
+  const [audioStatus, setAudioStatus] = useState<AudioStatus>(IDLE_AUDIO_STATUS);
+  const audioSettingsRef = useRef<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const audioFrameRef = useRef<AudioFrame>(SILENT_AUDIO_FRAME); // Analysed once per frame, read by every uniform write
+  const beatCountRef = useRef(0);
+  const flashTimeRef = useRef(-Infinity); // Seconds; when the last beat-triggered arc flash fired
+  const audioClockRef = useRef(0); // Seconds; the clock the last audio frame was analysed on
+  const soundtrackRef = useRef<SoundtrackAnalyser | null>(null); // Replaces the live input while a video exports
+  const [bpm, setBpm] = useState(0);
+  const [beatCount, setBeatCount] = useState(0);
+  const [presetAdvance, setPresetAdvance] = useState(0); // Bumped by beat events to step the preset library
 
   // Capture State
   const capturePendingRef = useRef<number>(0); // 0 = None, 1 = HQ, 2 = Ultra
@@ -85,233 +170,794 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
   const recordedFramesRef = useRef<number>(0); // For deterministic timing
   const streamTrackRef = useRef<any>(null); // For manual frame capturing
 
+  // Offline Render State: each frame is read back from the GPU before the next one is drawn
+  const offlineRenderRef = useRef<OfflineRender | null>(null);
+  // Progressive accumulation: time freezes and jittered samples average until the target count
+  const progressiveRef = useRef({ enabled: progressive, frozenTime: 0, ...DEFAULT_PROGRESSIVE_SETTINGS });
+  const accumulatorRef = useRef<Accumulator | null>(null);
+  const accumulationKeyRef = useRef<Float32Array | null>(null);
+  const [sampleCount, setSampleCount] = useState(0);
+  const sampleReportRef = useRef({ count: -1, at: 0 });
+  const frameCounterRef = useRef(0);
+
+  // Tiled still in progress; the live loop is paused until it finishes
+  const tiledCaptureRef = useRef<{ cancelled: boolean } | null>(null);
+  // WebCodecs recording: frames are encoded on the recording clock and muxed when it ends
+  const encodedRecordingRef = useRef<EncodedRecording | null>(null);
+
   // --- EASY PARAM WIRING ---
-  const [params, setParams] = useState<ShaderParam[]>([
-    { id: 'animSpeed', label: 'Animation Speed', type: 'float', value: 0.2, min: 0.0, max: 2.0 },
-    { id: 'detail', label: 'Roughness / Detail', type: 'float', value: 0.35, min: 0.01, max: 1.0 },
-    { id: 'vignette', label: 'Vignette', type: 'float', value: 0.2, min: 0.0, max: 1.0 },
-    { id: 'metallic', label: 'Metallic', type: 'float', value: 1.0, min: 0.0, max: 1.0 },
-    { id: 'baseColor', label: 'Base Color', type: 'color', value: [0.8, 0.8, 0.85] }, // Silver
-    { id: 'grainStrength', label: 'Film Grain', type: 'float', value: 0.00, min: 0.0, max: 0.2 },
-    { id: 'lightAz', label: 'Light Azimuth', type: 'float', value: 0.1, min: 0.0, max: 1.0 },
-    { id: 'lightEl', label: 'Light Elevation', type: 'float', value: 0.6, min: 0.0, max: 1.0 },
-    { id: 'isRendering', label: 'Debug Quality', type: 'float', value: 0.0, min: 0.0, max: 2.0 }, // Hidden usually
-    { id: 'aberrationStrength', label: 'Chr. Aberration', type: 'float', value: 0.00, min: 0.0, max: 2.0 },
-    
-    // NEW PARAMS - Updated for electricity defaults
-    { id: 'electricSpeed', label: 'Arc Speed', type: 'float', value: 0.8, min: 0.0, max: 5.0 }, // Fast sparking
-    { id: 'electricIntensity', label: 'Arc Intensity', type: 'float', value: 12.0, min: 0.0, max: 30.0 }, // Very Bright
-    { id: 'electricColor', label: 'Arc Color', type: 'color', value: [0.1, 0.6, 1.0] },
-  ]);
+  // Params and offsets are reflected from the annotated `struct Uniforms` in the shader source.
+  const [params, setParams] = useState<ShaderParam[]>(() => paramsFromUniformFields(parseUniformStruct(shaderCode) || []));
 
   const paramsRef = useRef(params);
-  useEffect(() => { paramsRef.current = params; }, [params]);
+  useEffect(() => {
+    paramsRef.current = params;
+    onParamsChange?.(params);
+  }, [params]);
+  const initialPresetRef = useRef(initialPreset);
+
+  // MIDI: knobs drive params, pads recall library slots. Web MIDI is requested once the panel
+  // opens, or on load when mappings were saved.
+  const midiRef = useRef<MidiMapper | null>(null);
+  const midiRequestedRef = useRef(false);
+  const [midiStatus, setMidiStatus] = useState<MidiStatus | null>(null);
+  const [presetRecall, setPresetRecall] = useState<{ slot: number; serial: number }>();
+
+  useEffect(() => {
+    const mapper = createMidiMapper({
+        getParam: (id) => paramsRef.current.find(p => p.id === id),
+        setParam: (id, value) => {
+            const patch = (list: ShaderParam[]) => list.map(p => (p.id === id && (p.type === 'float' || p.type === 'int') ? { ...p, value } : p));
+            paramsRef.current = patch(paramsRef.current); // Soft takeover compares against it before React re-renders
+            setParams(patch);
+        },
+        recallPreset: (slot) => setPresetRecall(prev => ({ slot, serial: (prev?.serial ?? 0) + 1 })),
+    }, initialPresetRef.current?.midi ?? loadMidiMappings(), setMidiStatus);
+    midiRef.current = mapper;
+    return () => {
+        mapper.destroy();
+        midiRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (midiStatus) saveMidiMappings(midiStatus.mappings);
+  }, [midiStatus?.mappings]);
+
+  useEffect(() => {
+    const mapper = midiRef.current;
+    if (!mapper) return;
+    if (!showMidi && mapper.learning()) mapper.learn(null); // Closing the panel ends learn mode
+    if (midiSource) {
+        mapper.connect(midiSource);
+        return;
+    }
+    const { cc, notes } = mapper.mappings();
+    if (midiRequestedRef.current || !(showMidi || cc.length || notes.length)) return;
+    midiRequestedRef.current = true;
+    createWebMidiSource()
+        .then(source => { if (midiRef.current === mapper) mapper.connect(source); })
+        .catch(e => {
+            midiRequestedRef.current = false; // Retried the next time the panel opens
+            mapper.fail(getErrorMessage(e));
+        });
+  }, [showMidi, midiSource]);
+
+  // Keyframe animation; the playhead is owned by TimelinePanel
+  const [timeline, setTimeline] = useState<Timeline>(createTimeline);
+  const timelineRef = useRef(timeline);
+  useEffect(() => { timelineRef.current = timeline; }, [timeline]);
+  const timelineTimeRef = useRef(0);
 
-  // Standard Header Size: 48 bytes
-  const layout = calculateUniformLayout(params, 48);
+  // LFO, audio and expression offsets applied on top of the base and keyframed values each frame
+  const [modulators, setModulators] = useState<Modulator[]>([]);
+  const modulatorsRef = useRef(modulators);
+  useEffect(() => { modulatorsRef.current = modulators; }, [modulators]);
+  const modulationRef = useRef(createModulationEngine());
+  const [liveValues, setLiveValues] = useState<Record<string, PresetValue>>({});
+  const liveValuesRef = useRef({ time: 0, key: '{}' }); // Panel readout is refreshed at most every 100ms, and only on change
+
+  // Spline camera moves, rendered by the 'path' shot or scrubbed in CameraPathPanel
+  const [cameraPath, setCameraPath] = useState<CameraPath>(createCameraPath);
+  const cameraPathRef = useRef(cameraPath);
+  useEffect(() => { cameraPathRef.current = cameraPath; }, [cameraPath]);
+  const cameraPreviewRef = useRef<CameraPathPreview>({ active: false, time: 0 });
+
+  // Ordered post effects over the linear scene; the GPU side lives in postStackRef
+  const [postSettings, setPostSettings] = useState<PostStackSettings>(DEFAULT_POST_STACK);
+  const postSettingsRef = useRef(postSettings);
+  useEffect(() => { postSettingsRef.current = postSettings; }, [postSettings]);
+  const postStackRef = useRef<PostStack | null>(null);
+  const [lutName, setLutName] = useState<string | null>(null);
+  const [channelStates, setChannelStates] = useState<ChannelState[]>([]);
+  const [channelDims, setChannelDims] = useState<ChannelDimension[]>(channelDimensionsRef.current);
+
+  useEffect(() => {
+      progressiveRef.current.enabled = progressive;
+      progressiveRef.current.frozenTime = (performance.now() - startTimeRef.current) * 0.001;
+      accumulatorRef.current?.reset();
+  }, [progressive]);
+
+  // Filled in by compilePipeline once the shader is known to be valid
+  const layoutRef = useRef<UniformLayout>({ size: 0, offsetMap: {} });
   
   const cameraState = useRef({ theta: 0.5, phi: 0.3, radius: 4.5, isDragging: false, lastX: 0, lastY: 0 });
   const mouseState = useRef({ x: 0, y: 0, isDown: 0 });
 
-  // --- HELPER: Texture Creation ---
-  const createTextureFromImage = async (device: any, source: ImageBitmap | HTMLCanvasElement) => {
-    // Usage: TEXTURE_BINDING (4) | COPY_DST (2) | COPY_SRC (1) | RENDER_ATTACHMENT (16) = 23
-    const texture = device.createTexture({
-        size: [source.width, source.height, 1],
-        format: 'rgba8unorm',
-        usage: 23, 
-    });
-    device.queue.copyExternalImageToTexture(
-        { source },
-        { texture },
-        [source.width, source.height]
-    );
-    return texture;
-  };
-  
-  const createDefaultTexture = (device: any) => {
-      const size = 64;
-      const canvas = document.createElement('canvas');
-      canvas.width = size; canvas.height = size;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-          ctx.fillStyle = '#000';
-          ctx.fillRect(0, 0, size, size);
-          ctx.fillStyle = '#333';
-          for(let y=0; y<size; y+=8) {
-              for(let x=0; x<size; x+=8) {
-                  if ((x/8 + y/8) % 2 === 0) ctx.fillRect(x,y,8,8);
-              }
-          }
-          const id = ctx.getImageData(0,0,size,size);
-          for(let i=0; i<id.data.length; i+=4) {
-              id.data[i] = Math.min(255, id.data[i] + Math.random() * 50);
-              id.data[i+1] = Math.min(255, id.data[i+1] + Math.random() * 50);
-              id.data[i+2] = Math.min(255, id.data[i+2] + Math.random() * 50);
-          }
-          ctx.putImageData(id, 0, 0);
-      }
-      return createTextureFromImage(device, canvas);
-  };
-
   useImperativeHandle(ref, () => ({
     capture: (quality = 1) => {
       capturePendingRef.current = quality;
     },
-    loadTexture: async (file: File) => {
-        if (!deviceRef.current || !file) return;
-        try {
-            const bitmap = await createImageBitmap(file);
-            const texture = await createTextureFromImage(deviceRef.current, bitmap);
-            textureRef.current = texture;
-            rebind(deviceRef.current);
-        } catch (e) {
-            console.error("Failed to load texture", e);
-        }
+    captureTiled: (options: TiledCaptureOptions) => captureTiled(options),
+    cancelCapture: () => {
+        if (tiledCaptureRef.current) tiledCaptureRef.current.cancelled = true;
+    },
+    loadTexture: (file: File, channel = 0) => loadChannel(channel, [file]),
+    setChannelCanvas: (channel: number, canvas: HTMLCanvasElement | OffscreenCanvas) => {
+        channelsRef.current?.setCanvas(channel, canvas);
     },
     toggleAudio: async () => {
-        if (audioContextRef.current) {
-            audioContextRef.current.suspend();
-            audioContextRef.current = null;
+        if (!audioRef.current) return;
+        if (audioStatus.source === 'mic') {
+            audioRef.current.stop();
             return;
         }
-        
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            const ctx = new AudioContext();
-            const source = ctx.createMediaStreamSource(stream);
-            const analyzer = ctx.createAnalyser();
-            analyzer.fftSize = 256;
-            source.connect(analyzer);
-            
-            audioContextRef.current = ctx;
-            analyzerRef.current = analyzer;
-            audioDataArrayRef.current = new Uint8Array(analyzer.frequencyBinCount);
+            await audioRef.current.startMic();
         } catch (e) {
             console.error("Audio init failed", e);
             alert("Could not access microphone.");
         }
     },
-    startVideo: (config: VideoConfig) => {
-        if (!canvasRef.current) return;
+    loadAudio: async (file: File) => {
+        try {
+            await audioRef.current?.loadFile(file);
+        } catch (e) {
+            alert(`Could not play audio file: ${getErrorMessage(e)}`);
+        }
+    },
+    stopAudio: () => audioRef.current?.stop(),
+    startVideo: async (config: VideoConfig) => {
+        if (!canvasRef.current) return false;
+        let soundtrack: AudioBuffer | null = null;
+        if (config.soundtrack) {
+            try {
+                soundtrack = await decodeSoundtrack(config.soundtrack);
+            } catch (e) {
+                alert(`Could not decode soundtrack: ${getErrorMessage(e)}`);
+                return false;
+            }
+        }
+        if (!canvasRef.current) return false;
+        const { width: previousWidth, height: previousHeight } = canvasRef.current;
         recordingConfigRef.current = config;
         chunksRef.current = [];
         recordedFramesRef.current = 0;
         canvasRef.current.width = 1920;
         canvasRef.current.height = 1080;
+        // Beat actions start from the top so repeated exports match
+        soundtrackRef.current = soundtrack && createSoundtrackAnalyser(soundtrack, audioSettingsRef.current);
+        beatCountRef.current = 0;
+        flashTimeRef.current = -Infinity;
+        modulationRef.current.reset();
 
-        const stream = canvasRef.current.captureStream(0);
-        const track = stream.getVideoTracks()[0];
-        if (track && (track as any).requestFrame) {
-             streamTrackRef.current = track;
-        } else {
-             const autoStream = canvasRef.current.captureStream(config.fps);
-             recorderRef.current = new MediaRecorder(autoStream, { mimeType: 'video/webm' });
-             streamTrackRef.current = null;
-        }
-
-        let mimeType = 'video/webm;codecs=vp9';
-        if (!MediaRecorder.isTypeSupported(mimeType)) mimeType = 'video/webm;codecs=vp8';
-
-        if (!recorderRef.current) {
-            const recorder = new MediaRecorder(stream, {
-                mimeType,
-                videoBitsPerSecond: config.bitrate * 1000000
-            });
-            recorderRef.current = recorder;
+        if (config.format === 'png') {
+            startOfflineRender(config);
+            return true;
         }
-
-        const recorder = recorderRef.current!;
-        recorder.ondataavailable = (e) => {
-            if (e.data.size > 0) chunksRef.current.push(e.data);
-        };
-        recorder.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `cinematic_recording_${Date.now()}.webm`;
-            a.click();
-            URL.revokeObjectURL(url);
-            isRecordingRef.current = false;
-            streamTrackRef.current = null;
+        try {
+            if (!(await startEncodedRecording(config, soundtrack))) startMediaRecorder(config);
+            return true;
+        } catch (e) {
+            // Nothing is recording yet: put the canvas and the audio input back
+            console.error("Video export failed to start:", e);
+            soundtrackRef.current = null;
+            if (canvasRef.current) {
+                canvasRef.current.width = previousWidth;
+                canvasRef.current.height = previousHeight;
+            }
             onRecordProgress(false, 0);
-        };
-        recorder.start();
-        recordingStartTimeRef.current = performance.now();
-        isRecordingRef.current = true;
+            onError({ type: 'runtime', message: `Video Export: ${getErrorMessage(e)}` });
+            return false;
+        }
     },
     stopVideo: () => {
+        if (offlineRenderRef.current) {
+            endOfflineRender(offlineRenderRef.current, true);
+            return;
+        }
+        if (encodedRecordingRef.current) {
+            finishEncodedRecording(encodedRecordingRef.current, true);
+            return;
+        }
         if (recorderRef.current && recorderRef.current.state === 'recording') {
             recorderRef.current.stop();
         }
+    },
+    exportPreset: (name?: string) => {
+        return createPreset(paramsRef.current, cameraState.current, shaderCode, name, midiRef.current?.mappings());
+    },
+    importPreset: (preset: PresetFile) => {
+        const { params: next, report } = applyPresetToParams(preset, paramsRef.current, shaderCode);
+        paramsRef.current = next;
+        setParams(next);
+        if (preset.midi) midiRef.current?.setMappings(preset.midi);
+        if (preset.camera) {
+            cameraState.current.theta = preset.camera.theta;
+            cameraState.current.phi = preset.camera.phi;
+            cameraState.current.radius = preset.camera.radius;
+        }
+        return report;
+    },
+    getParams: () => paramsRef.current,
+    setParam: (id: string, value: PresetValue) => {
+        const param = paramsRef.current.find(p => p.id === id);
+        if (!param) return false;
+        let next: PresetValue;
+        if (typeof param.value === 'number') {
+            if (typeof value !== 'number' || !isFinite(value)) return false;
+            next = param.type === 'int' ? Math.round(value) : value;
+        } else {
+            if (!Array.isArray(value) || value.length !== param.value.length || !value.every(v => isFinite(v))) return false;
+            next = [...value];
+        }
+        const patch = (list: ShaderParam[]) => list.map(p => (p.id === id ? { ...p, value: next } as ShaderParam : p));
+        paramsRef.current = patch(paramsRef.current);
+        setParams(patch);
+        return true;
+    },
+    getChannelSources: () => channelSourcesRef.current,
+    setChannelSources: (sources: ChannelSourceRecord[]) => {
+        sources.slice(0, CHANNEL_COUNT).forEach((source, i) => {
+            if (source === channelSourcesRef.current[i]) return;
+            if (source === null) clearChannel(i);
+            else if (source === 'webcam') startWebcam(i);
+            else loadChannel(i, source);
+        });
+    },
+    getCamera: () => ({ theta: cameraState.current.theta, phi: cameraState.current.phi, radius: cameraState.current.radius }),
+    setCamera: (pose: Partial<CameraPose>) => {
+        const camera = cameraState.current;
+        if (pose.theta !== undefined && isFinite(pose.theta)) camera.theta = pose.theta;
+        if (pose.phi !== undefined && isFinite(pose.phi)) camera.phi = Math.max(0.1, Math.min(Math.PI - 0.1, pose.phi));
+        if (pose.radius !== undefined && isFinite(pose.radius)) camera.radius = Math.max(2.0, Math.min(20.0, pose.radius));
     }
   }));
 
+  // --- OFFLINE RENDER ---
+  // Frames are drawn on the recording clock like a video, but the loop waits for each one to
+  // finish on the GPU and be read back, so slow frames never drop. Output is a zipped PNG sequence.
+  const startOfflineRender = (config: VideoConfig) => {
+      const device = deviceRef.current;
+      if (!device) return;
+      const width = 1920, height = 1080;
+      const bytesPerRow = alignBytesPerRow(width);
+      offlineRenderRef.current = {
+          totalFrames: Math.max(1, Math.round(config.duration * config.fps)),
+          zip: createZipWriter(),
+          // 1 (MAP_READ) | 8 (COPY_DST) = 9
+          readback: device.createBuffer({ size: bytesPerRow * height, usage: 9 }),
+          bytesPerRow,
+          bgra: (navigator as any).gpu.getPreferredCanvasFormat() === 'bgra8unorm',
+          pending: false,
+          cancelled: false,
+      };
+      streamTrackRef.current = null;
+      recordingStartTimeRef.current = performance.now();
+      isRecordingRef.current = true;
+      onRecordProgress(true, config.duration, { frame: 0, totalFrames: offlineRenderRef.current.totalFrames });
+  };
+
+  const endOfflineRender = (job: OfflineRender, cancelled: boolean) => {
+      job.cancelled = cancelled;
+      if (!job.pending) job.readback.destroy(); // Otherwise the pending readback's mapAsync would be aborted
+      if (offlineRenderRef.current === job) offlineRenderRef.current = null;
+      isRecordingRef.current = false;
+      soundtrackRef.current = null;
+      onRecordProgress(false, 0);
+  };
+
+  const readOfflineFrame = async (device: any, job: OfflineRender, index: number, width: number, height: number) => {
+      try {
+          await device.queue.onSubmittedWorkDone();
+          await job.readback.mapAsync(1); // GPUMapMode.READ
+          const pixels = unpackReadback(new Uint8Array(job.readback.getMappedRange()), width, height, job.bytesPerRow, job.bgra);
+          job.readback.unmap();
+          if (!job.cancelled) job.zip.add(`frame_${String(index).padStart(5, '0')}.png`, await encodePNG(pixels, width, height));
+      } catch (e) {
+          if (!job.cancelled) {
+              console.error("Offline render failed:", e);
+              onError({ type: 'runtime', message: `Offline Render: ${getErrorMessage(e)}` });
+              job.cancelled = true;
+          }
+      }
+      job.pending = false;
+      if (job.cancelled) {
+          if (offlineRenderRef.current === job) endOfflineRender(job, true);
+          else job.readback.destroy();
+      } else if (index + 1 >= job.totalFrames) {
+          downloadBlob(job.zip.finish(), `render_sequence_${Date.now()}.zip`);
+          endOfflineRender(job, false);
+      }
+  };
+
+  // --- TILED CAPTURE ---
+  // Renders the frame as a grid of offscreen tiles. Each tile gets the full resolution plus its
+  // `tileOffset`, so rays match a single huge render; rows are streamed into one PNG.
+  const captureTiled = async ({ width, height, tileSize, format: output }: TiledCaptureOptions) => {
+      const device = deviceRef.current;
+      const post = postStackRef.current;
+      if (!device || !graphRef.current || !post || !bindGroupRef.current) throw new Error('Renderer is not ready');
+      if (tiledCaptureRef.current || isRecordingRef.current) throw new Error('Another render is already running');
+      width = Math.floor(width); height = Math.floor(height);
+      if (!(width > 0 && height > 0)) throw new Error('Width and height must be positive');
+      // EXR stores the scene's linear radiance as-is; PNG goes through the post stack
+      const exr = output === 'exr';
+      const postSettings = postSettingsRef.current;
+      const reach = exr ? 0 : postTileMargin(postSettings, width, height);
+      const tile = Math.max(64, Math.min(Math.floor(tileSize), device.limits.maxTextureDimension2D - 2 * reach));
+      const columns = Math.ceil(width / tile);
+      const rows = Math.ceil(height / tile);
+      // Each tile renders with a border of extra scene so bloom and aberration match across seams
+      const margin = columns * rows > 1 ? reach : 0;
+      const span = tile + 2 * margin;
+      if (columns * rows > 1 && layoutRef.current.offsetMap['tileOffset'] === undefined) {
+          throw new Error('This shader has no `tileOffset: vec2f` uniform, so every tile would render the same view. Add it, or use a tile size of at least the image size.');
+      }
+      if (columns * rows > 1 && graphRef.current.bufferPassCount > 0) {
+          throw new Error('Buffer passes cover one tile at a time and would not line up across tiles. Use a tile size of at least the image size.');
+      }
+
+      // Freeze the scene as it is now
+      const preview = cameraPreviewRef.current;
+      const time = (performance.now() - startTimeRef.current) * 0.001;
+      const modulation = { time, levels: audioFrameRef.current.levels, beat: audioFrameRef.current.beat };
+      const frame: FrameUniforms = {
+          width,
+          height,
+          time,
+          camera: (preview.active && evaluateCameraPath(cameraPathRef.current, preview.time)) || orbitShot(cameraState.current),
+          params: modulationRef.current.apply(evaluateTimeline(timelineRef.current, [...paramsRef.current], timelineTimeRef.current), modulatorsRef.current, modulation),
+          seed: 0,
+      };
+
+      const format = (navigator as any).gpu.getPreferredCanvasFormat();
+      // 16 (RENDER_ATTACHMENT) | 1 (COPY_SRC) = 17
+      const target = device.createTexture({ size: [span, span, 1], format, usage: 17 });
+      const bytesPerRow = alignBytesPerRow(tile, exr ? 8 : 4);
+      // 1 (MAP_READ) | 8 (COPY_DST) = 9
+      const readback = device.createBuffer({ size: bytesPerRow * tile, usage: 9 });
+      const job = { cancelled: false };
+      tiledCaptureRef.current = job;
+      const png = exr ? null : createPNGStreamWriter(width, height);
+      const exrWriter = exr ? createEXRStreamWriter(width, height) : null;
+      const progress = { frame: 0, totalFrames: columns * rows, unit: 'tiles' as const };
+      onRecordProgress(true, 0, progress);
+      let completed = false;
+
+      try {
+          for (let ty = 0; ty < rows; ty++) {
+              const stripHeight = Math.min(tile, height - ty * tile);
+              const strip = exr ? new Uint16Array(width * stripHeight * 4) : new Uint8ClampedArray(width * stripHeight * 4);
+              for (let tx = 0; tx < columns; tx++) {
+                  if (job.cancelled) return;
+                  const tileWidth = Math.min(tile, width - tx * tile);
+                  const tileOffset: [number, number] = [tx * tile - margin, ty * tile - margin];
+                  device.queue.writeBuffer(uniformBufferRef.current, 0, buildUniformData({ ...frame, tileOffset }));
+
+                  device.pushErrorScope('validation');
+                  const encoder = device.createCommandEncoder();
+                  post.resize(span, span);
+                  // Compute passes step once per still, not once per tile
+                  graphRef.current.encode(encoder, bindGroupRef.current, post.sceneView, span, span, tx === 0 && ty === 0);
+                  if (!exr) post.encode(encoder, postSettings, { resolution: [width, height], tileOffset, time: frame.time, seed: frame.seed }, target.createView());
+                  encoder.copyTextureToBuffer({ texture: exr ? post.sceneTexture : target, origin: [margin, margin, 0] }, { buffer: readback, bytesPerRow }, [tileWidth, stripHeight]);
+                  device.queue.submit([encoder.finish()]);
+                  const error = await device.popErrorScope();
+                  if (error) throw new Error(`GPU Validation: ${error.message}`);
+
+                  await readback.mapAsync(1); // GPUMapMode.READ
+                  const mapped = new Uint8Array(readback.getMappedRange());
+                  const pixels = exr ? unpackHalfReadback(mapped, tileWidth, stripHeight, bytesPerRow) : unpackReadback(mapped, tileWidth, stripHeight, bytesPerRow, format === 'bgra8unorm');
+                  readback.unmap();
+                  for (let y = 0; y < stripHeight; y++) {
+                      strip.set(pixels.subarray(y * tileWidth * 4, (y + 1) * tileWidth * 4), (y * width + tx * tile) * 4);
+                  }
+                  onRecordProgress(true, 0, { ...progress, frame: ty * columns + tx + 1 });
+              }
+              if (exrWriter) await exrWriter.writeRows(strip as Uint16Array);
+              else await png!.writeRows(strip as Uint8ClampedArray);
+          }
+          const file = exrWriter ? await exrWriter.finish() : await png!.finish();
+          completed = true;
+          downloadBlob(file, `render_still_${width}x${height}_${Date.now()}.${output}`);
+      } finally {
+          // Cancelled or failed: release the writer instead of leaving its stream open
+          if (!completed) {
+              png?.abort();
+              exrWriter?.abort();
+          }
+          target.destroy();
+          readback.destroy();
+          tiledCaptureRef.current = null;
+          onRecordProgress(false, 0);
+      }
+  };
+
+  // --- ENCODED RECORDING ---
+  // WebCodecs path: frames are stepped like an offline render and stamped with exact timestamps,
+  // so the file plays at the configured fps however long each frame took to draw. A soundtrack is
+  // encoded up front on the same clock and muxed as a second track.
+  const pickVideoCodec = async (container: VideoContainer, base: Omit<VideoEncoderConfig, 'codec'>): Promise<VideoEncoderConfig | null> => {
+      for (const codec of CODEC_CANDIDATES[container]) {
+          const candidate: VideoEncoderConfig = { ...base, codec, ...(codec.startsWith('avc1') ? { avc: { format: 'avc' } } : {}) };
+          try {
+              if ((await VideoEncoder.isConfigSupported(candidate)).supported) return candidate;
+          } catch (e) { /* try the next codec */ }
+      }
+      return null;
+  };
+
+  const pickAudioCodec = async (container: VideoContainer, base: Omit<AudioEncoderConfig, 'codec'>): Promise<AudioEncoderConfig | null> => {
+      if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return null;
+      for (const codec of AUDIO_CODEC_CANDIDATES[container]) {
+          const candidate: AudioEncoderConfig = { ...base, codec };
+          try {
+              if ((await AudioEncoder.isConfigSupported(candidate)).supported) return candidate;
+          } catch (e) { /* try the next codec */ }
+      }
+      return null;
+  };
+
+  const startEncodedRecording = async (config: VideoConfig, soundtrack: AudioBuffer | null): Promise<boolean> => {
+      if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return false;
+      const width = 1920, height = 1080;
+      const container: VideoContainer = config.format === 'mp4' ? 'mp4' : 'webm';
+      const encoderConfig = await pickVideoCodec(container, { width, height, framerate: config.fps, bitrate: config.bitrate * 1000000 });
+      if (!encoderConfig) return false;
+      const channels = soundtrack ? Math.min(2, soundtrack.numberOfChannels) : 0;
+      const audioConfig = soundtrack && await pickAudioCodec(container, { sampleRate: soundtrack.sampleRate, numberOfChannels: channels, bitrate: 192000 });
+      if (soundtrack && !audioConfig) {
+          // The uniforms still follow the soundtrack; only the file comes out silent
+          onError({ type: 'runtime', message: `Video Export: this browser cannot encode audio for ${container.toUpperCase()}, so the soundtrack is left out.` });
+      }
+
+      // The muxer, `configure` and the soundtrack encode can all throw; close whatever was opened
+      let encoder: VideoEncoder | null = null;
+      let audioEncoder: AudioEncoder | null = null;
+      let job: EncodedRecording;
+      try {
+          const muxer = createVideoMuxer(container, { codec: encoderConfig.codec, width, height, fps: config.fps },
+              audioConfig ? { codec: audioConfig.codec, sampleRate: audioConfig.sampleRate, channels } : undefined);
+          const fail = (label: string) => (e: DOMException) => {
+              console.error(`${label} failed:`, e);
+              onError({ type: 'runtime', message: `${label}: ${getErrorMessage(e)}` });
+              if (encodedRecordingRef.current === job) finishEncodedRecording(job, false);
+          };
+          encoder = new VideoEncoder({ output: (chunk, meta) => muxer.addChunk(chunk, meta), error: fail('Video Encoder') });
+          encoder.configure(encoderConfig);
+          audioEncoder = audioConfig ? new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: fail('Audio Encoder') }) : null;
+          if (audioEncoder && audioConfig && soundtrack) {
+              audioEncoder.configure(audioConfig);
+              encodeSoundtrack(audioEncoder, soundtrack, channels, config.duration);
+          }
+          job = {
+              encoder,
+              audioEncoder,
+              muxer,
+              container,
+              totalFrames: Math.max(1, Math.round(config.duration * config.fps)),
+              frameDuration: 1000000 / config.fps,
+              keyInterval: Math.max(1, Math.round(config.fps * 2)),
+          };
+      } catch (e) {
+          if (encoder && encoder.state !== 'closed') encoder.close();
+          if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+          throw e;
+      }
+      encodedRecordingRef.current = job;
+      streamTrackRef.current = null;
+      recordingStartTimeRef.current = performance.now();
+      isRecordingRef.current = true;
+      return true;
+  };
+
+  // Must run in the same task as the submit so the canvas still holds this frame
+  const encodeRecordedFrame = (job: EncodedRecording, canvas: HTMLCanvasElement, index: number) => {
+      const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(index * job.frameDuration),
+          duration: Math.round((index + 1) * job.frameDuration) - Math.round(index * job.frameDuration),
+      });
+      job.encoder.encode(frame, { keyFrame: index % job.keyInterval === 0 });
+      frame.close();
+      if (index + 1 >= job.totalFrames) finishEncodedRecording(job, true);
+  };
+
+  const finishEncodedRecording = async (job: EncodedRecording, save: boolean) => {
+      if (encodedRecordingRef.current === job) encodedRecordingRef.current = null;
+      isRecordingRef.current = false;
+      soundtrackRef.current = null;
+      onRecordProgress(false, 0);
+      try {
+          if (save) {
+              await Promise.all([job.encoder.flush(), job.audioEncoder?.flush()]);
+              downloadBlob(job.muxer.finish(), `cinematic_recording_${Date.now()}.${job.container}`);
+          }
+      } catch (e) {
+          console.error("Video export failed:", e);
+          onError({ type: 'runtime', message: `Video Export: ${getErrorMessage(e)}` });
+      } finally {
+          if (job.encoder.state !== 'closed') job.encoder.close();
+          if (job.audioEncoder && job.audioEncoder.state !== 'closed') job.audioEncoder.close();
+      }
+  };
+
+  // Fallback when WebCodecs is unavailable or supports none of the codecs: real-time MediaRecorder capture
+  const startMediaRecorder = (config: VideoConfig) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const candidates = config.format === 'mp4'
+          ? ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8']
+          : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8'];
+      const mimeType = candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+      const container: VideoContainer = mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+      let stream = canvas.captureStream(0);
+      const track = stream.getVideoTracks()[0];
+      if (track && (track as any).requestFrame) {
+           streamTrackRef.current = track;
+      } else {
+           stream = canvas.captureStream(config.fps);
+           streamTrackRef.current = null;
+      }
+
+      const recorder = new MediaRecorder(stream, {
+          mimeType,
+          videoBitsPerSecond: config.bitrate * 1000000
+      });
+      recorderRef.current = recorder;
+      recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+          const blob = new Blob(chunksRef.current, { type: CONTAINER_MIME[container] });
+          downloadBlob(blob, `cinematic_recording_${Date.now()}.${container}`);
+          isRecordingRef.current = false;
+          soundtrackRef.current = null;
+          streamTrackRef.current = null;
+          onRecordProgress(false, 0);
+      };
+      recorder.start();
+      recordingStartTimeRef.current = performance.now();
+      isRecordingRef.current = true;
+  };
+
+  const loadLUT = async (file: File) => {
+      try {
+          const lut = parseCubeLUT(await file.text());
+          postStackRef.current?.setLUT(lut);
+          setLutName(lut.title || file.name);
+      } catch (e) {
+          alert(`Could not load LUT: ${getErrorMessage(e)}`);
+      }
+  };
+
+  // What each channel was last loaded from, so history can put it back
+  const channelSourcesRef = useRef<ChannelSourceRecord[]>(Array(CHANNEL_COUNT).fill(null));
+  const setChannelSource = (index: number, source: ChannelSourceRecord) => {
+      channelSourcesRef.current = channelSourcesRef.current.map((s, i) => (i === index ? source : s));
+      onChannelSourcesChange?.(channelSourcesRef.current);
+  };
+
+  const loadChannel = async (index: number, files: File[]) => {
+      try {
+          await channelsRef.current?.loadFiles(index, files);
+          setChannelSource(index, files);
+      } catch (e) {
+          alert(`Could not load channel ${index}: ${getErrorMessage(e)}`);
+      }
+  };
+
+  const startWebcam = async (index: number) => {
+      try {
+          await channelsRef.current?.startWebcam(index);
+          setChannelSource(index, 'webcam');
+      } catch (e) {
+          alert(`Could not start webcam: ${getErrorMessage(e)}`);
+      }
+  };
+
+  const clearChannel = (index: number) => {
+      channelsRef.current?.clear(index);
+      setChannelSource(index, null);
+  };
+
   const rebind = (device: any) => {
-      if (!pipelineRef.current || !uniformBufferRef.current || !textureRef.current || !samplerRef.current) return;
+      if (!bindGroupLayoutRef.current || !uniformBufferRef.current || !channelsRef.current || !audioRef.current) return;
       
       const bindGroup = device.createBindGroup({
-          layout: pipelineRef.current.getBindGroupLayout(0),
+          layout: bindGroupLayoutRef.current,
           entries: [
               { binding: 0, resource: { buffer: uniformBufferRef.current } },
-              { binding: 1, resource: textureRef.current.createView() },
-              { binding: 2, resource: samplerRef.current }
+              ...channelsRef.current.bindEntries(channelDimensionsRef.current),
+              { binding: AUDIO_TEXTURE_BINDING, resource: audioRef.current.texture.createView() },
           ]
       });
       bindGroupRef.current = bindGroup;
   };
 
+  // Runs the layout probe compute shader and reads back the tagged words WGSL saw.
+  // Returns null if the probe itself could not run, in which case the check is skipped.
+  const runLayoutProbe = async (device: any, probe: LayoutProbe, size: number): Promise<Uint32Array | null> => {
+      const outputSize = probe.components.length * 4;
+      // 64 (UNIFORM) | 8 (COPY_DST) = 72
+      const probeUniforms = device.createBuffer({ size, usage: 72 });
+      // 128 (STORAGE) | 4 (COPY_SRC) = 132
+      const output = device.createBuffer({ size: outputSize, usage: 132 });
+      // 1 (MAP_READ) | 8 (COPY_DST) = 9
+      const readback = device.createBuffer({ size: outputSize, usage: 9 });
+
+      try {
+          device.pushErrorScope('validation');
+          const module = device.createShaderModule({ label: 'Layout Probe', code: probe.code });
+          const pipeline = device.createComputePipeline({ layout: 'auto', compute: { module, entryPoint: probe.entryPoint } });
+          device.queue.writeBuffer(probeUniforms, 0, probe.sentinel);
+
+          const encoder = device.createCommandEncoder();
+          const pass = encoder.beginComputePass();
+          pass.setPipeline(pipeline);
+          pass.setBindGroup(0, device.createBindGroup({
+              layout: pipeline.getBindGroupLayout(0),
+              entries: [{ binding: 0, resource: { buffer: probeUniforms } }]
+          }));
+          // Groups between the uniforms and the probe output are empty but must still be bound
+          for (let group = 1; group < PROBE_GROUP; group++) {
+              pass.setBindGroup(group, device.createBindGroup({ layout: pipeline.getBindGroupLayout(group), entries: [] }));
+          }
+          pass.setBindGroup(PROBE_GROUP, device.createBindGroup({
+              layout: pipeline.getBindGroupLayout(PROBE_GROUP),
+              entries: [{ binding: 0, resource: { buffer: output } }]
+          }));
+          pass.dispatchWorkgroups(1);
+          pass.end();
+          encoder.copyBufferToBuffer(output, 0, readback, 0, outputSize);
+          device.queue.submit([encoder.finish()]);
+
+          const error = await device.popErrorScope();
+          if (error) {
+              console.warn("Layout probe skipped:", error.message);
+              return null;
+          }
+
+          await readback.mapAsync(1); // GPUMapMode.READ
+          const words = new Uint32Array(readback.getMappedRange().slice(0));
+          readback.unmap();
+          return words;
+      } catch (e) {
+          console.warn("Layout probe skipped:", e);
+          return null;
+      } finally {
+          probeUniforms.destroy();
+          output.destroy();
+          readback.destroy();
+      }
+  };
+
   const compilePipeline = async (device: any, code: string, context: any) => {
-      const format = (navigator as any).gpu.getPreferredCanvasFormat();
-      
+      const generation = ++compileGenerationRef.current;
+      const isStale = () => generation !== compileGenerationRef.current;
       const shaderModule = device.createShaderModule({ label: 'Main', code });
       const compilationInfo = await shaderModule.getCompilationInfo();
-      if (compilationInfo.messages.length > 0) {
-        let hasError = false;
-        for (let msg of compilationInfo.messages) {
-          if (msg.type === 'error') {
-              hasError = true;
-              onError({ type: 'compilation', message: getErrorMessage(msg.message), lineNum: msg.lineNum, linePos: msg.linePos });
-          }
-        }
-        if (hasError) return;
+      if (isStale()) return;
+      // Warnings and info messages go to the editor too; the overlay shows the first error
+      const diagnostics: ShaderDiagnostic[] = compilationInfo.messages.map((msg: any) => ({
+          severity: msg.type,
+          message: getErrorMessage(msg.message),
+          lineNum: msg.lineNum,
+          linePos: msg.linePos,
+          length: msg.length ?? 0,
+      }));
+      onDiagnostics?.(diagnostics);
+      const firstError = diagnostics.find(d => d.severity === 'error');
+      if (firstError) {
+          onError({ type: 'compilation', message: firstError.message, lineNum: firstError.lineNum, linePos: firstError.linePos });
+          return;
+      }
+
+      // Errors from the later stages get a marker too when they point at a line
+      const failAt = (error: ShaderError) => {
+          if (error.lineNum) onDiagnostics?.([...diagnostics, { severity: 'error', message: error.message, lineNum: error.lineNum, linePos: error.linePos ?? 1, length: 0 }]);
+          onError(error);
+      };
+
+      const graphSpec = parseRenderGraph(code);
+      const graphError = validateRenderGraph(graphSpec, code);
+      if (graphError) {
+          failAt(graphError);
+          return;
       }
       onClearError();
       errorReportedRef.current = false;
 
+      // Re-derive params and offsets from the struct that was just compiled
+      let reflection;
+      try {
+          reflection = reflectUniforms(code);
+      } catch (e) {
+          onError({ type: 'validation', message: `Uniform Layout: ${getErrorMessage(e)}` });
+          return;
+      }
+      const { fields, layout } = reflection;
+
+      // Make sure values will land where the compiled shader reads them
+      const probe = buildLayoutProbe(code, reflection);
+      if (probe) {
+          const words = await runLayoutProbe(device, probe, layout.size);
+          if (isStale()) return;
+          const mismatch = words ? verifyLayoutProbe(probe, words, fields) : null;
+          if (mismatch) {
+              failAt(mismatch);
+              return;
+          }
+      }
+
+      // A larger layout gets a new buffer. The frames drawn while the pipeline builds still bind
+      // the old one, so it is only destroyed once the new bind group has replaced it.
+      const previousBuffer = uniformBufferRef.current;
+      const uniformBuffer = layout.size > previousBuffer.size ? device.createBuffer({ size: layout.size, usage: 72 }) : previousBuffer;
+      const discardBuffer = () => { if (uniformBuffer !== previousBuffer) uniformBuffer.destroy(); };
+
+      const dimensions = channelDimensions(code);
       const bindGroupLayout = device.createBindGroupLayout({ 
           entries: [
-              // 2 = FRAGMENT. (1=VERTEX, 2=FRAGMENT, 4=COMPUTE)
-              // We primarily use these in the Fragment shader.
-              { binding: 0, visibility: 2, buffer: { type: 'uniform' }},
-              { binding: 1, visibility: 2, texture: {} },
-              { binding: 2, visibility: 2, sampler: {} }
+              // 6 = FRAGMENT | COMPUTE. (1=VERTEX, 2=FRAGMENT, 4=COMPUTE)
+              // Fragment passes and '// @compute' passes both read these.
+              { binding: 0, visibility: 6, buffer: { type: 'uniform' }},
+              ...channelLayoutEntries(dimensions),
+              { binding: AUDIO_TEXTURE_BINDING, visibility: 6, texture: {} },
           ]
       });
 
-      const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
-      
       // Push error scope to catch "Invalid RenderPipeline" issues caused by layout mismatches
       device.pushErrorScope('validation');
       
-      const pipeline = device.createRenderPipeline({
-        layout: pipelineLayout,
-        vertex: { module: shaderModule, entryPoint: 'vs_main' },
-        fragment: { module: shaderModule, entryPoint: 'fs_main', targets: [{ format }] },
-        primitive: { topology: 'triangle-list' },
-      });
+      const graph = createRenderGraph(device, shaderModule, graphSpec, SCENE_FORMAT, bindGroupLayout);
       
       const error = await device.popErrorScope();
+      if (isStale()) {
+          graph.destroy();
+          discardBuffer();
+          return;
+      }
+      graphRef.current?.destroy();
       if (error) {
           console.error("Pipeline Validation Error:", error);
           onError({ type: 'runtime', message: `Pipeline Creation Failed: ${error.message}` });
-          pipelineRef.current = null;
+          graph.destroy();
+          graphRef.current = null;
+          discardBuffer();
           return;
       }
 
-      pipelineRef.current = pipeline;
+      // The graph is valid: commit the layout, params and buffer together
+      layoutRef.current = layout;
+      let nextParams = paramsFromUniformFields(fields, paramsRef.current);
+      if (initialPresetRef.current) {
+          const preset = initialPresetRef.current;
+          nextParams = applyPresetToParams(preset, nextParams, code).params;
+          if (preset.camera) Object.assign(cameraState.current, preset.camera);
+          initialPresetRef.current = null;
+      }
+      paramsRef.current = nextParams;
+      setParams(nextParams);
+
+      uniformBufferRef.current = uniformBuffer;
+      graphRef.current = graph;
+      bindGroupLayoutRef.current = bindGroupLayout;
+      channelDimensionsRef.current = dimensions;
+      setChannelDims(dimensions);
       rebind(device);
+      if (uniformBuffer !== previousBuffer) previousBuffer.destroy();
   };
 
   useEffect(() => {
@@ -343,22 +989,23 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         const context = canvas.getContext('webgpu') as any;
         contextRef.current = context;
         const format = gpu.getPreferredCanvasFormat();
-        context.configure({ device, format, alphaMode: 'opaque' });
+        // 16 (RENDER_ATTACHMENT) | 1 (COPY_SRC) = 17, so offline renders can read frames back
+        context.configure({ device, format, alphaMode: 'opaque', usage: 17 });
 
         // 64 (UNIFORM) | 8 (COPY_DST) = 72
         // Total Buffer Size: 512 bytes (Safer alignment & overflow protection)
         const uniformBuffer = device.createBuffer({ size: 512, usage: 72 });
         uniformBufferRef.current = uniformBuffer;
 
-        const defaultTex = await createDefaultTexture(device);
-        textureRef.current = defaultTex;
-        const sampler = device.createSampler({
-            magFilter: 'linear',
-            minFilter: 'linear',
-            addressModeU: 'repeat',
-            addressModeV: 'repeat',
+        audioRef.current = createAudioInput(device, (status) => {
+            setAudioStatus(status);
+            onAudioChange?.(status);
+        });
+        channelsRef.current = createChannelSet(device, (states) => {
+            setChannelStates(states);
+            rebind(device);
         });
-        samplerRef.current = sampler;
+        postStackRef.current = createPostStack(device, format);
 
         await compilePipeline(device, shaderCode, context);
 
@@ -366,7 +1013,16 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
       } catch (err: any) { onError({ type: 'compilation', message: getErrorMessage(err) }); }
     };
     initWebGPU();
-    return () => { isMountedRef.current = false; if (requestRef.current !== null) cancelAnimationFrame(requestRef.current); };
+    return () => {
+        isMountedRef.current = false;
+        if (requestRef.current !== null) cancelAnimationFrame(requestRef.current);
+        channelsRef.current?.destroy(); // Stops webcams and videos
+        channelsRef.current = null;
+        audioRef.current?.destroy(); // Stops the mic track
+        audioRef.current = null;
+        // Release the GPU when the scene is reset (renderer remounted)
+        if (deviceRef.current) { deviceRef.current.destroy(); deviceRef.current = null; }
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -376,16 +1032,55 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
       }
   }, [shaderCode]);
 
+  // --- UNIFORMS ---
+  // Builtins are written by member name; anything the shader doesn't declare is skipped.
+  const buildUniformData = (frame: FrameUniforms): Float32Array => {
+    // Buffer is at least 512 bytes, larger if the reflected struct needs it
+    const layout = layoutRef.current;
+    const uniformData = new Float32Array(uniformBufferRef.current.size / 4);
+    const writeBuiltin = (name: string, values: number[]) => writeUniform(uniformData, layout, name, values);
+    writeBuiltin('resolution', [frame.width, frame.height]);
+    writeBuiltin('time', [frame.time]);
+    writeBuiltin('cameraPos', frame.camera.position);
+    writeBuiltin('cameraTarget', [...frame.camera.target, frame.camera.roll]);
+    writeBuiltin('cameraFov', [frame.camera.fov]);
+    writeBuiltin('tileOffset', frame.tileOffset || [0, 0]);
+    writeBuiltin('frameSeed', [frame.seed]);
+    writeBuiltin('mouse', [mouseState.current.x, mouseState.current.y, mouseState.current.isDown]);
+    if (channelsRef.current) writeBuiltin('channelResolution', channelsRef.current.resolutions());
+    
+    writeParamsToBuffer(uniformData, frame.params, layout);
+
+    const { levels, beat } = audioFrameRef.current;
+    writeBuiltin('audio', levels);
+    writeBuiltin('beat', [beat.beat]);
+    writeBuiltin('beatPhase', [beat.beatPhase]);
+    writeBuiltin('bpm', [beat.bpm]);
+    writeBuiltin('flash', [Math.exp((flashTimeRef.current - audioClockRef.current) * 6)]);
+    return uniformData;
+  };
+
+  // Beat events run the configured action on every Nth beat
+  const handleBeat = (seconds: number) => {
+    const count = ++beatCountRef.current;
+    setBeatCount(count);
+    const { beatAction, beatEvery } = audioSettingsRef.current;
+    if (count % beatEvery !== 0) return;
+    if (beatAction === 'flash') flashTimeRef.current = seconds;
+    else if (beatAction === 'preset') setPresetAdvance(n => n + 1);
+  };
+
   const render = async (time: number) => {
     const device = deviceRef.current;
     const context = contextRef.current;
-    const pipeline = pipelineRef.current;
+    const graph = graphRef.current;
+    const post = postStackRef.current;
     const uniformBuffer = uniformBufferRef.current;
     const bindGroup = bindGroupRef.current;
     const canvas = canvasRef.current;
 
     // Strict validation
-    if (!device || !context || !pipeline || !uniformBuffer || !bindGroup || !canvas || !textureRef.current) {
+    if (!device || !context || !graph || !post || !uniformBuffer || !bindGroup || !canvas) {
          requestRef.current = requestAnimationFrame(render);
          return;
     }
@@ -395,10 +1090,18 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         return;
     }
 
+    // Tiled stills pause the loop; stepped renders hold the next frame until the previous one is read back or encoded
+    const offline = offlineRenderRef.current;
+    const encoded = encodedRecordingRef.current;
+    if (tiledCaptureRef.current || offline?.pending || (encoded && encoded.encoder.encodeQueueSize > 2)) {
+        requestRef.current = requestAnimationFrame(render);
+        return;
+    }
+
     let width = 0;
     let height = 0;
 
-    if (capturePendingRef.current > 0) {
+    if (capturePendingRef.current > 0 && !offline && !encoded) {
         width = 3840; height = 2160;
         canvas.width = width; canvas.height = height;
     } else if (isRecordingRef.current) {
@@ -417,15 +1120,21 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
     }
 
     let elapsedTime = (time - startTimeRef.current) * 0.001;
+    // Recordings always animate; progressive mode holds the frame still while it converges
+    const progressive = progressiveRef.current.enabled && !isRecordingRef.current;
+    if (progressive) elapsedTime = progressiveRef.current.frozenTime;
     let cameraTheta = cameraState.current.theta;
     let cameraPhi = cameraState.current.phi;
     let cameraRadius = cameraState.current.radius;
     
-    const currentParams = [...paramsRef.current];
+    // Keyframed params follow the recording's frame clock while exporting, the timeline playhead otherwise
+    const timelineClock = isRecordingRef.current && recordingConfigRef.current
+        ? recordedFramesRef.current / recordingConfigRef.current.fps
+        : timelineTimeRef.current;
+    const currentParams = evaluateTimeline(timelineRef.current, [...paramsRef.current], timelineClock);
     
     // Animation Logic...
-    let grainStrength = currentParams.find(p => p.id === 'grainStrength')?.value || 0;
-    let aberrationStrength = currentParams.find(p => p.id === 'aberrationStrength')?.value || 0;
+    let postSettings = postSettingsRef.current;
     
     if (isRecordingRef.current && recordingConfigRef.current) {
         const fps = recordingConfigRef.current.fps;
@@ -434,7 +1143,7 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         const duration = recordingConfigRef.current.duration;
         const progress = Math.min(1.0, elapsedTime / duration);
         const remaining = Math.max(0, duration - elapsedTime);
-        onRecordProgress(true, remaining);
+        onRecordProgress(true, remaining, offline ? { frame: recordedFramesRef.current - 1, totalFrames: offline.totalFrames } : undefined);
 
         const shot = recordingConfigRef.current.shotType;
         if (shot === 'orbit') {
@@ -455,65 +1164,108 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
                  const p = { ...currentParams[azIndex] } as any; p.value = (Math.sin(elapsedTime * 0.5) * 0.5 + 0.5); currentParams[azIndex] = p;
              }
         }
-        grainStrength = recordingConfigRef.current.postProcess.grain;
-        aberrationStrength = recordingConfigRef.current.postProcess.aberration;
+        // The export dialog's grain and aberration replace the live settings for the recording
+        const { grain, aberration } = recordingConfigRef.current.postProcess;
+        postSettings = { ...postSettings, effects: postSettings.effects.map(effect =>
+            effect.id === 'grain' ? { ...effect, enabled: grain > 0, values: { ...effect.values, strength: grain } }
+            : effect.id === 'aberration' ? { ...effect, enabled: aberration > 0, values: { ...effect.values, strength: aberration } }
+            : effect) };
 
-        if (elapsedTime >= duration) {
+        if (!offline && !encoded && elapsedTime >= duration) {
              if (recorderRef.current && recorderRef.current.state === 'recording') recorderRef.current.stop();
         }
     }
 
-    const cx = cameraRadius * Math.cos(cameraPhi) * Math.sin(cameraTheta);
-    const cy = cameraRadius * Math.sin(cameraPhi);
-    const cz = cameraRadius * Math.cos(cameraPhi) * Math.cos(cameraTheta);
-    
-    // Total Buffer Size: 512 bytes (128 floats)
-    const uniformData = new Float32Array(128); 
-    uniformData[0] = width; uniformData[1] = height; uniformData[2] = elapsedTime;
-    uniformData[4] = cx; uniformData[5] = cy; uniformData[6] = cz;
-    uniformData[8] = mouseState.current.x; uniformData[9] = mouseState.current.y; uniformData[10] = mouseState.current.isDown;
+    // A camera path overrides the orbit while it renders a 'path' shot or is being previewed
+    const pathClock = isRecordingRef.current && recordingConfigRef.current?.shotType === 'path'
+        ? elapsedTime
+        : cameraPreviewRef.current.active ? cameraPreviewRef.current.time : null;
+    const camera = (pathClock !== null && evaluateCameraPath(cameraPathRef.current, pathClock))
+        || orbitShot({ theta: cameraTheta, phi: cameraPhi, radius: cameraRadius });
     
-    writeParamsToBuffer(uniformData, currentParams, layout);
-
-    // Audio Analysis
-    if (audioContextRef.current && analyzerRef.current && audioDataArrayRef.current) {
-        analyzerRef.current.getByteFrequencyData(audioDataArrayRef.current);
-        const avg = audioDataArrayRef.current.reduce((a, b) => a + b, 0) / audioDataArrayRef.current.length;
-        uniformData[32] = avg / 255.0; // Volume
-        uniformData[33] = audioDataArrayRef.current[4] / 255.0; // Bass
-        uniformData[34] = audioDataArrayRef.current[10] / 255.0; // Mid
-        uniformData[35] = audioDataArrayRef.current[20] / 255.0; // High
+    // Live channels upload their current frame; a resized source rebinds group 0
+    channelsRef.current?.update();
+    // An export soundtrack is analysed at the frame's timestamp instead of reading the live input
+    const soundtrack = isRecordingRef.current ? soundtrackRef.current : null;
+    const audioClock = soundtrack ? elapsedTime : time * 0.001;
+    audioClockRef.current = audioClock;
+    if (audioRef.current) {
+        const audioFrame = soundtrack ? soundtrack.frameAt(audioClock) : audioRef.current.sample(audioClock);
+        if (soundtrack) audioRef.current.upload(soundtrack.texels);
+        audioFrameRef.current = audioFrame;
+        if (audioFrame.beat.beatFired) handleBeat(audioClock);
+        setBpm(Math.round(audioFrame.beat.bpm));
+    }
+    // Modulators run after the analysis so envelopes and expressions see this frame's audio
+    const modulation = { time: elapsedTime, levels: audioFrameRef.current.levels, beat: audioFrameRef.current.beat };
+    modulationRef.current.step(modulatorsRef.current, modulation);
+    const frameParams = modulationRef.current.apply(currentParams, modulatorsRef.current, modulation);
+    if (time - liveValuesRef.current.time > 100) {
+        const values = modulatedValues(frameParams, modulatorsRef.current);
+        const key = JSON.stringify(values);
+        if (key !== liveValuesRef.current.key) setLiveValues(values);
+        liveValuesRef.current = { time, key };
     }
+    const seed = frameCounterRef.current++ % 4096; // Wrapped to keep shader hashes precise
+    const uniformData = buildUniformData({ width, height, time: elapsedTime, camera, params: frameParams, seed });
 
+    // Restart accumulation whenever anything but the per-sample uniforms changed
+    let accumulator: Accumulator | null = null;
+    let converged = false;
+    if (progressive) {
+        accumulator = accumulatorRef.current || (accumulatorRef.current = createAccumulator(device, SCENE_FORMAT));
+        accumulator.resize(width, height);
+        const key = uniformData.slice();
+        for (const [name, length] of Object.entries(ACCUMULATION_VOLATILE)) {
+            const offset = layoutRef.current.offsetMap[name];
+            if (offset !== undefined) key.fill(0, offset / 4, offset / 4 + length);
+        }
+        const previous = accumulationKeyRef.current;
+        if (!previous || previous.length !== key.length || key.some((v, i) => v !== previous[i])) accumulator.reset();
+        accumulationKeyRef.current = key;
+
+        converged = accumulator.count >= progressiveRef.current.targetSamples;
+        writeUniform(uniformData, layoutRef.current, 'jitter', sampleJitter(accumulator.count));
+        writeUniform(uniformData, layoutRef.current, 'frameSeed', [accumulator.count]);
+    }
     device.queue.writeBuffer(uniformBuffer, 0, uniformData);
 
     // Command Encoding with Diagnostics
     const commandEncoder = device.createCommandEncoder();
-    const textureView = context.getCurrentTexture().createView();
+    const canvasTexture = context.getCurrentTexture();
+    const textureView = canvasTexture.createView();
     
-    const passEncoder = commandEncoder.beginRenderPass({
-      colorAttachments: [{
-        view: textureView,
-        clearValue: { r: 0, g: 0, b: 0, a: 1 },
-        loadOp: 'clear',
-        storeOp: 'store',
-      }],
-    });
     
     // We push an error scope HERE to catch validation errors during encoding
     device.pushErrorScope('validation');
 
     try {
-        passEncoder.setPipeline(pipeline);
-        passEncoder.setBindGroup(0, bindGroup);
-        passEncoder.draw(6);
-        passEncoder.end();
+        // Once converged, only the accumulated image is re-presented
+        post.resize(width, height);
+        if (!converged) {
+            graph.encode(commandEncoder, bindGroupRef.current, accumulator ? accumulator.sampleView : post.sceneView, width, height);
+        }
+        if (accumulator) accumulator.encode(commandEncoder, post.sceneView, !converged);
+        post.encode(commandEncoder, postSettings, { resolution: [width, height], tileOffset: [0, 0], time: elapsedTime, seed }, textureView);
+        if (offline) {
+            commandEncoder.copyTextureToBuffer(
+                { texture: canvasTexture },
+                { buffer: offline.readback, bytesPerRow: offline.bytesPerRow },
+                [width, height]
+            );
+        }
         
         device.queue.submit([commandEncoder.finish()]);
     } catch (e) {
         console.error("Frame failed:", e);
     }
 
+    if (encoded) encodeRecordedFrame(encoded, canvas, recordedFramesRef.current - 1);
+    if (offline) {
+        offline.pending = true;
+        readOfflineFrame(device, offline, recordedFramesRef.current - 1, width, height);
+    }
+
     // Check for validation errors in this frame
     device.popErrorScope().then((error: any) => {
         if (error && !errorReportedRef.current) {
@@ -523,8 +1275,18 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         }
     });
 
-    // Capture handling
-    if (capturePendingRef.current > 0) {
+    if (accumulator) {
+        const report = sampleReportRef.current;
+        if (accumulator.count !== report.count && (converged || time - report.at > 100)) {
+            sampleReportRef.current = { count: accumulator.count, at: time };
+            setSampleCount(accumulator.count);
+        }
+    }
+
+    // Capture handling; progressive captures can hold out for the target sample count
+    const captureReady = !accumulator || converged || !progressiveRef.current.waitForCapture;
+    if (capturePendingRef.current > 0 && !offline && !encoded && captureReady) { // Deferred until a stepped render ends
+        capturePendingRef.current = 0; // The snapshot is taken now; don't queue another while the blob encodes
         canvas.toBlob((blob) => {
             if (blob) {
                 const url = URL.createObjectURL(blob);
@@ -534,7 +1296,6 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
                 a.click();
                 URL.revokeObjectURL(url);
             }
-            capturePendingRef.current = 0;
         });
     }
 
@@ -590,7 +1351,86 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         <canvas ref={canvasRef} className="block w-full h-full" />
         
         {/* Params Overlay */}
-        <ParamsControlPanel params={params} setParams={setParams} description={description} />
+        <ParamsControlPanel
+            params={params}
+            setParams={setParams}
+            description={description}
+            modulated={liveValues}
+            learn={midiStatus ? {
+                armed: midiStatus.learning?.kind === 'param',
+                target: midiStatus.learning?.kind === 'param' ? midiStatus.learning.paramId : null,
+                bindings: Object.fromEntries(midiStatus.mappings.cc.map(m => [m.paramId, ccLabel(m)])),
+                onPick: (paramId) => midiRef.current?.learn({ kind: 'param', paramId }),
+            } : undefined}
+        >
+            <PostStackPanel settings={postSettings} setSettings={setPostSettings} lutName={lutName} onLoadLUT={loadLUT} />
+        </ParamsControlPanel>
+        <AudioPanel
+            status={audioStatus}
+            bpm={bpm}
+            beatCount={beatCount}
+            onPlay={() => audioRef.current?.play()}
+            onPause={() => audioRef.current?.pause()}
+            onSeek={(time) => audioRef.current?.seek(time)}
+            onLoopChange={(loop) => audioRef.current?.setLoop(loop)}
+            onStop={() => audioRef.current?.stop()}
+            onSettingsChange={(settings) => {
+                audioSettingsRef.current = settings;
+                audioRef.current?.setSettings(settings);
+            }}
+        />
+        <ChannelStrip
+            isOpen={showChannels}
+            states={channelStates}
+            dimensions={channelDims}
+            onLoad={loadChannel}
+            onWebcam={startWebcam}
+            onClear={clearChannel}
+            onSamplingChange={(index, change) => channelsRef.current?.setSampling(index, change)}
+        />
+        <TimelinePanel
+            isOpen={showTimeline}
+            timeline={timeline}
+            setTimeline={setTimeline}
+            params={params}
+            setParams={setParams}
+            onTimeChange={(t) => { timelineTimeRef.current = t; }}
+        />
+        <ModulationPanel
+            isOpen={showModulation}
+            modulators={modulators}
+            setModulators={setModulators}
+            params={params}
+        />
+        <CameraPathPanel
+            isOpen={showCameraPath}
+            path={cameraPath}
+            setPath={setCameraPath}
+            recordShot={() => orbitShot(cameraState.current)}
+            onPreviewChange={(preview) => { cameraPreviewRef.current = preview; }}
+        />
+        <ProgressivePanel
+            isOpen={progressive}
+            sampleCount={sampleCount}
+            onSettingsChange={(settings) => { Object.assign(progressiveRef.current, settings); }}
+        />
+        <PresetManager
+            params={params}
+            setParams={setParams}
+            createSnapshot={(name) => createPreset(paramsRef.current, cameraState.current, shaderCode, name)}
+            advance={presetAdvance}
+            recallRequest={presetRecall}
+        />
+        {midiStatus && (
+            <MidiPanel
+                isOpen={showMidi}
+                status={midiStatus}
+                params={params}
+                slotCount={MAX_PRESET_SLOTS}
+                onLearn={(target) => midiRef.current?.learn(target)}
+                onMappingsChange={(mappings) => midiRef.current?.setMappings(mappings)}
+            />
+        )}
       </div>
     </>
   );
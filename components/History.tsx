@@ -0,0 +1,178 @@
+import React from 'react';
+import { ChannelSourceRecord, HistoryEntry, HistoryKind, HistorySnapshot, PresetValue, ShaderParam } from '../types';
+
+// --- Undo History ---
+// Every entry holds a full snapshot of the undoable scene: shader source, param values, the
+// last camera bookmark and the channel sources. Snapshots share unchanged parts by reference,
+// so they stay small. Moving through the history hands the host the target and the current
+// snapshot, and the host restores only what differs. Live camera moves are not recorded; the
+// camera only changes when crossing a bookmark.
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // Current entry; later ones can be redone
+}
+
+export interface HistoryHost {
+  restore: (target: HistorySnapshot, current: HistorySnapshot) => void;
+}
+
+export interface History {
+  current: () => HistorySnapshot;
+  // Adds an entry with `change` applied to the current snapshot, dropping anything redoable
+  record: (kind: HistoryKind, label: string, change: Partial<HistorySnapshot>, coalesce?: string) => void;
+  // Folds a change into the current entry, e.g. params reflected after a shader commit
+  amend: (change: Partial<HistorySnapshot>) => void;
+  undo: () => void;
+  redo: () => void;
+  jump: (index: number) => void;
+}
+
+const MAX_ENTRIES = 200;
+const COALESCE_WINDOW = 1000; // ms between edits that still count as one drag
+
+let nextEntryId = 0;
+
+const entry = (kind: HistoryKind, label: string, snapshot: HistorySnapshot, coalesce?: string): HistoryEntry =>
+  ({ id: nextEntryId++, kind, label, time: Date.now(), coalesce, snapshot });
+
+export const createHistory = (initial: HistorySnapshot, host: HistoryHost, onChange: (state: HistoryState) => void): History => {
+  let state: HistoryState = { entries: [entry('initial', 'Open scene', initial)], index: 0 };
+
+  const update = (next: HistoryState) => {
+    state = next;
+    onChange(state);
+  };
+
+  const current = () => state.entries[state.index].snapshot;
+
+  const jump = (index: number) => {
+    if (index < 0 || index >= state.entries.length || index === state.index) return;
+    const from = current();
+    update({ ...state, index });
+    host.restore(current(), from);
+  };
+
+  const record = (kind: HistoryKind, label: string, change: Partial<HistorySnapshot>, coalesce?: string) => {
+    const top = state.entries[state.index];
+    const snapshot = { ...top.snapshot, ...change };
+    const atEnd = state.index === state.entries.length - 1;
+    if (coalesce && atEnd && top.coalesce === coalesce && Date.now() - top.time < COALESCE_WINDOW) {
+      const entries = [...state.entries];
+      entries[state.index] = { ...top, snapshot, time: Date.now() };
+      update({ ...state, entries });
+      return;
+    }
+    const entries = [...state.entries.slice(0, state.index + 1), entry(kind, label, snapshot, coalesce)].slice(-MAX_ENTRIES);
+    update({ entries, index: entries.length - 1 });
+  };
+
+  const amend = (change: Partial<HistorySnapshot>) => {
+    const entries = [...state.entries];
+    const top = entries[state.index];
+    entries[state.index] = { ...top, snapshot: { ...top.snapshot, ...change } };
+    update({ ...state, entries });
+  };
+
+  onChange(state);
+
+  return {
+    current,
+    record,
+    amend,
+    undo: () => jump(state.index - 1),
+    redo: () => jump(state.index + 1),
+    jump,
+  };
+};
+
+// --- Diffing ---
+
+export const samePresetValue = (a: PresetValue | undefined, b: PresetValue | undefined): boolean => {
+  if (typeof a === 'number' || typeof b === 'number' || !a || !b) return a === b;
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+};
+
+// IDs whose value differs; both maps must cover the same params
+export const changedParamIds = (next: Record<string, PresetValue>, previous: Record<string, PresetValue>): string[] =>
+  Object.keys(next).filter(id => !samePresetValue(next[id], previous[id]));
+
+// True when the shader gained or lost params, rather than a value being edited
+export const paramSetChanged = (next: Record<string, PresetValue>, previous: Record<string, PresetValue>): boolean => {
+  const ids = Object.keys(next);
+  return ids.length !== Object.keys(previous).length || ids.some(id => !(id in previous));
+};
+
+export const sameChannelSource = (a: ChannelSourceRecord, b: ChannelSourceRecord): boolean =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((file, i) => file === b[i]));
+
+export const describeParamChange = (params: ShaderParam[], ids: string[]): string => {
+  if (ids.length !== 1) return `Change ${ids.length} params`;
+  return `Change ${params.find(p => p.id === ids[0])?.label ?? ids[0]}`;
+};
+
+export const describeChannelSource = (index: number, source: ChannelSourceRecord): string => {
+  if (source === null) return `Clear channel ${index}`;
+  if (source === 'webcam') return `Webcam on channel ${index}`;
+  return `Load ${source.length === 6 ? 'cubemap' : source[0]?.name ?? 'texture'} into channel ${index}`;
+};
+
+// --- UI Component ---
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  state: HistoryState;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onBookmarkCamera: () => void;
+}
+
+const KIND_MARKS: Record<HistoryKind, string> = {
+  initial: '◆',
+  params: '≡',
+  shader: '{}',
+  texture: '▦',
+  camera: '◎',
+};
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, state, onJump, onUndo, onRedo, onBookmarkCamera }) => {
+  if (!isOpen) return null;
+
+  const { entries, index } = state;
+
+  return (
+    <div
+        className="fixed left-4 top-1/2 -translate-y-1/2 z-40 w-72 bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl font-mono text-[10px] animate-fade-in-up"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <div className="flex items-center gap-3 px-4 h-9 border-b border-white/10 uppercase tracking-widest">
+            <span className="flex-1 text-white">History</span>
+            <button onClick={onUndo} disabled={index === 0} className="text-gray-400 hover:text-acid disabled:text-gray-700" title="Undo (Ctrl+Z)">Undo</button>
+            <button onClick={onRedo} disabled={index === entries.length - 1} className="text-gray-400 hover:text-acid disabled:text-gray-700" title="Redo (Ctrl+Shift+Z)">Redo</button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto custom-scrollbar py-1">
+            {entries.map((item, i) => (
+                <button
+                    key={item.id}
+                    onClick={() => onJump(i)}
+                    className={`w-full flex items-center gap-2 px-4 py-1 text-left transition-colors ${
+                        i === index ? 'bg-acid/10 text-acid' : i > index ? 'text-white/25 hover:text-white/60' : 'text-gray-400 hover:text-white'
+                    }`}
+                >
+                    <span className="w-4 shrink-0 text-center opacity-60">{KIND_MARKS[item.kind]}</span>
+                    <span className="flex-1 truncate">{item.label}</span>
+                    <span className="shrink-0 opacity-40">{formatClock(item.time)}</span>
+                </button>
+            ))}
+        </div>
+
+        <button onClick={onBookmarkCamera} className="w-full px-4 h-8 border-t border-white/10 uppercase tracking-widest text-gray-400 hover:text-acid text-left">
+            + Bookmark Camera
+        </button>
+    </div>
+  );
+};
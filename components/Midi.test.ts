@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { MidiMappings, ShaderParam } from '../types';
+import { createMidiMapper, createVirtualMidiSource, EMPTY_MIDI_MAPPINGS, MidiStatus, parseMidiMappings } from './Midi';
+
+const cc = (channel: number, controller: number, value: number) => [0xb0 | channel, controller, value];
+const noteOn = (channel: number, note: number, velocity = 100) => [0x90 | channel, note, velocity];
+
+// A mapper wired to a virtual source and an in-memory param list
+const setup = (mappings: MidiMappings = EMPTY_MIDI_MAPPINGS) => {
+  let params: ShaderParam[] = [
+    { id: 'speed', label: 'Speed', type: 'float', value: 2.5, min: 0, max: 5 },
+    { id: 'steps', label: 'Steps', type: 'int', value: 4, min: 1, max: 16 },
+    { id: 'tint', label: 'Tint', type: 'color', value: [1, 1, 1] },
+  ];
+  const recalled: number[] = [];
+  let status: MidiStatus | null = null;
+  const mapper = createMidiMapper({
+    getParam: id => params.find(p => p.id === id),
+    setParam: (id, value) => { params = params.map(p => (p.id === id ? { ...p, value } as ShaderParam : p)); },
+    recallPreset: slot => recalled.push(slot),
+  }, mappings, next => { status = next; });
+  const midi = createVirtualMidiSource();
+  mapper.connect(midi.source);
+  return {
+    mapper,
+    send: midi.send,
+    value: (id: string) => params.find(p => p.id === id)!.value,
+    setValue: (id: string, value: number) => { params = params.map(p => (p.id === id ? { ...p, value } as ShaderParam : p)); },
+    status: () => status!,
+    recalled,
+  };
+};
+
+const mapped = (controller: number, paramId: string, min: number, max: number, softTakeover = false): MidiMappings =>
+  ({ cc: [{ channel: 0, controller, paramId, min, max, softTakeover }], notes: [] });
+
+describe('learn', () => {
+  it('assigns the next CC to the armed param', () => {
+    const { mapper, send, value, status } = setup();
+    mapper.learn({ kind: 'param', paramId: 'speed' });
+    send(cc(1, 7, 100));
+    expect(status().learning).toBeNull();
+    expect(status().mappings.cc).toEqual([{ channel: 1, controller: 7, paramId: 'speed', min: 0, max: 5, softTakeover: false }]);
+    expect(value('speed')).toBe(2.5); // The learning message itself doesn't move the param
+    send(cc(1, 7, 127));
+    expect(value('speed')).toBe(5);
+  });
+
+  it('moves a param to a new knob and gives a knob to one param', () => {
+    const { mapper, send, status } = setup(mapped(7, 'speed', 0, 5));
+    mapper.learn({ kind: 'param', paramId: 'steps' });
+    send(cc(0, 7, 0));
+    expect(status().mappings.cc.map(m => m.paramId)).toEqual(['steps']);
+  });
+
+  it('ignores CCs for params a knob cannot drive', () => {
+    const { mapper, send, status } = setup();
+    mapper.learn({ kind: 'param', paramId: 'tint' });
+    send(cc(0, 7, 64));
+    expect(status().mappings.cc).toEqual([]);
+  });
+
+  it('assigns a note to the armed preset slot', () => {
+    const { mapper, send, status, recalled } = setup();
+    mapper.learn({ kind: 'preset', slot: 2 });
+    send(noteOn(9, 36));
+    expect(status().mappings.notes).toEqual([{ channel: 9, note: 36, slot: 2 }]);
+    send(noteOn(9, 36));
+    send(noteOn(9, 36, 0)); // Velocity 0 is a note-off
+    expect(recalled).toEqual([2]);
+  });
+});
+
+describe('CC scaling', () => {
+  it.each([
+    { name: 'float at 0', mapping: mapped(1, 'speed', 0, 5), value: 0, expected: 0 },
+    { name: 'float at 127', mapping: mapped(1, 'speed', 0, 5), value: 127, expected: 5 },
+    { name: 'float midway', mapping: mapped(1, 'speed', 0, 5), value: 64, expected: (64 / 127) * 5 },
+    { name: 'inverted range', mapping: mapped(1, 'speed', 5, 0), value: 127, expected: 0 },
+    { name: 'narrowed range', mapping: mapped(1, 'speed', 1, 2), value: 127, expected: 2 },
+    { name: 'int is rounded', mapping: mapped(1, 'steps', 1, 16), value: 64, expected: 9 },
+    { name: 'int at 127', mapping: mapped(1, 'steps', 1, 16), value: 127, expected: 16 },
+  ])('$name', ({ mapping, value: input, expected }) => {
+    const { send, value } = setup(mapping);
+    send(cc(0, 1, input));
+    expect(value(mapping.cc[0].paramId)).toBeCloseTo(expected, 6);
+  });
+
+  it('ignores other channels and controllers', () => {
+    const { send, value } = setup(mapped(1, 'speed', 0, 5));
+    send(cc(1, 1, 127));
+    send(cc(0, 2, 127));
+    expect(value('speed')).toBe(2.5);
+  });
+});
+
+describe('soft takeover', () => {
+  it('waits until the knob crosses the current value', () => {
+    const { send, value, status } = setup(mapped(1, 'speed', 0, 5, true));
+    send(cc(0, 1, 0));
+    expect(value('speed')).toBe(2.5);
+    expect(status().waiting).toEqual(['speed']);
+    send(cc(0, 1, 40)); // Still below 2.5
+    expect(value('speed')).toBe(2.5);
+    send(cc(0, 1, 80)); // Jumped past it
+    expect(value('speed')).toBeCloseTo((80 / 127) * 5, 6);
+    expect(status().waiting).toEqual([]);
+    send(cc(0, 1, 20));
+    expect(value('speed')).toBeCloseTo((20 / 127) * 5, 6);
+  });
+
+  it('engages at once when the knob lands near the value', () => {
+    const { send, value } = setup(mapped(1, 'speed', 0, 5, true));
+    send(cc(0, 1, 64));
+    expect(value('speed')).toBeCloseTo((64 / 127) * 5, 6);
+  });
+
+  it('lets go again when something else moves the param', () => {
+    const { send, value, setValue } = setup(mapped(1, 'speed', 0, 5, true));
+    send(cc(0, 1, 64));
+    setValue('speed', 4.5);
+    send(cc(0, 1, 70));
+    expect(value('speed')).toBe(4.5);
+    send(cc(0, 1, 127));
+    expect(value('speed')).toBe(5);
+  });
+});
+
+describe('parseMidiMappings', () => {
+  it('round-trips mappings through JSON', () => {
+    const mappings: MidiMappings = {
+      cc: [
+        { channel: 0, controller: 1, paramId: 'speed', min: 0, max: 5, softTakeover: true },
+        { channel: 15, controller: 127, paramId: 'steps', min: 16, max: 1, softTakeover: false },
+      ],
+      notes: [{ channel: 9, note: 36, slot: 0 }],
+    };
+    expect(parseMidiMappings(JSON.parse(JSON.stringify(mappings)))).toEqual(mappings);
+  });
+
+  it('drops malformed entries', () => {
+    const parsed = parseMidiMappings({
+      cc: [
+        { channel: 16, controller: 1, paramId: 'speed', min: 0, max: 1 },
+        { channel: 0, controller: 1, paramId: 'speed', min: '0', max: 1 },
+        { channel: 0, controller: 2, paramId: 'speed', min: 0, max: 1 },
+      ],
+      notes: [{ channel: 0, note: 128, slot: 0 }],
+    });
+    expect(parsed).toEqual({ cc: [{ channel: 0, controller: 2, paramId: 'speed', min: 0, max: 1, softTakeover: false }], notes: [] });
+  });
+
+  it('returns undefined for documents without mappings', () => {
+    expect(parseMidiMappings(null)).toBeUndefined();
+    expect(parseMidiMappings({ cc: [], notes: [] })).toBeUndefined();
+  });
+});
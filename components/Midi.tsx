@@ -0,0 +1,353 @@
+import React from 'react';
+import { MidiCCMapping, MidiMappings, MidiNoteMapping, ShaderParam } from '../types';
+
+// --- MIDI Control ---
+// Control change messages drive float and int params; note-on messages recall preset library
+// slots. Bindings are made by learning: pick a target, then move a knob or hit a pad.
+// Messages arrive through a MidiSource, so Web MIDI can be swapped for a virtual source that
+// replays bytes without hardware.
+
+export interface MidiSource {
+  inputs: () => string[]; // Names of the connected input ports
+  // Calls `onMessage` with every raw message and `onInputsChange` when ports come and go
+  subscribe: (onMessage: (data: ArrayLike<number>) => void, onInputsChange?: () => void) => () => void;
+}
+
+export type MidiEvent =
+  | { type: 'cc'; channel: number; controller: number; value: number }
+  | { type: 'noteon'; channel: number; note: number; velocity: number };
+
+export type MidiLearnTarget = { kind: 'param'; paramId: string } | { kind: 'preset'; slot: number };
+
+export interface MidiStatus {
+  connected: boolean;
+  inputs: string[];
+  error: string | null; // Why the source couldn't be opened
+  learning: MidiLearnTarget | null;
+  mappings: MidiMappings;
+  waiting: string[]; // Params whose soft-takeover knob hasn't reached the current value yet
+  lastEvent: MidiEvent | null;
+}
+
+export const EMPTY_MIDI_MAPPINGS: MidiMappings = { cc: [], notes: [] };
+
+// Parameter access for the mapper; `setParam` must be visible to `getParam` immediately
+export interface MidiHost {
+  getParam: (id: string) => ShaderParam | undefined;
+  setParam: (id: string, value: number) => void;
+  recallPreset: (slot: number) => void;
+}
+
+export interface MidiMapper {
+  connect: (source: MidiSource) => void; // Replaces the previous source
+  fail: (error: string) => void; // Reports a source that couldn't be opened
+  learn: (target: MidiLearnTarget | null) => void;
+  learning: () => MidiLearnTarget | null;
+  setMappings: (mappings: MidiMappings) => void;
+  mappings: () => MidiMappings;
+  handle: (data: ArrayLike<number>) => void; // One raw message
+  destroy: () => void;
+}
+
+// Running status and system messages never reach Web MIDI listeners split up, so a message
+// always starts with its status byte. Note-on with velocity 0 is a note-off.
+export const parseMidiMessage = (data: ArrayLike<number>): MidiEvent | null => {
+  if (data.length < 3) return null;
+  const kind = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  if (kind === 0xb0) return { type: 'cc', channel, controller: data[1] & 0x7f, value: data[2] & 0x7f };
+  if (kind === 0x90 && data[2] > 0) return { type: 'noteon', channel, note: data[1] & 0x7f, velocity: data[2] & 0x7f };
+  return null;
+};
+
+export const describeMidiEvent = (event: MidiEvent): string =>
+  event.type === 'cc'
+    ? `CC ${event.controller} · ch ${event.channel + 1} = ${event.value}`
+    : `Note ${event.note} · ch ${event.channel + 1} vel ${event.velocity}`;
+
+export const ccLabel = (m: MidiCCMapping) => `CC${m.controller}${m.channel > 0 ? `/${m.channel + 1}` : ''}`;
+export const noteLabel = (m: MidiNoteMapping) => `N${m.note}${m.channel > 0 ? `/${m.channel + 1}` : ''}`;
+
+const scaleCC = (mapping: MidiCCMapping, value: number, param: ShaderParam) => {
+  const scaled = mapping.min + (value / 127) * (mapping.max - mapping.min);
+  return param.type === 'int' ? Math.round(scaled) : scaled;
+};
+
+// Keeps well-formed entries from a stored or imported document; returns undefined when there are none
+export const parseMidiMappings = (doc: any): MidiMappings | undefined => {
+  if (!doc || typeof doc !== 'object') return undefined;
+  const int = (v: any, max: number) => Number.isInteger(v) && v >= 0 && v <= max;
+  const cc: MidiCCMapping[] = (Array.isArray(doc.cc) ? doc.cc : [])
+    .filter((m: any) => m && int(m.channel, 15) && int(m.controller, 127) && typeof m.paramId === 'string'
+      && Number.isFinite(m.min) && Number.isFinite(m.max))
+    .map((m: any) => ({ channel: m.channel, controller: m.controller, paramId: m.paramId, min: m.min, max: m.max, softTakeover: m.softTakeover === true }));
+  const notes: MidiNoteMapping[] = (Array.isArray(doc.notes) ? doc.notes : [])
+    .filter((m: any) => m && int(m.channel, 15) && int(m.note, 127) && int(m.slot, 255))
+    .map((m: any) => ({ channel: m.channel, note: m.note, slot: m.slot }));
+  return cc.length || notes.length ? { cc, notes } : undefined;
+};
+
+const MAPPINGS_STORAGE_KEY = 'render-lab.midi';
+
+export const loadMidiMappings = (): MidiMappings => {
+  try {
+    return parseMidiMappings(JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || 'null')) ?? EMPTY_MIDI_MAPPINGS;
+  } catch (e) {
+    console.warn("MIDI mappings could not be read", e);
+    return EMPTY_MIDI_MAPPINGS;
+  }
+};
+
+export const saveMidiMappings = (mappings: MidiMappings) => {
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+};
+
+// Listens to every input port, including ones plugged in later
+export const createWebMidiSource = async (): Promise<MidiSource> => {
+  if (!navigator.requestMIDIAccess) throw new Error('This browser has no Web MIDI support.');
+  const access = await navigator.requestMIDIAccess();
+  const inputs = () => [...access.inputs.values()].filter(input => input.state === 'connected').map(input => input.name || input.id);
+
+  return {
+    inputs,
+    subscribe: (onMessage, onInputsChange) => {
+      const listener = (e: Event) => { const data = (e as MIDIMessageEvent).data; if (data) onMessage(data); };
+      const attached = new Set<MIDIInput>();
+      const attach = () => {
+        access.inputs.forEach(input => {
+          if (attached.has(input)) return;
+          attached.add(input);
+          input.addEventListener('midimessage', listener); // Also opens the port
+        });
+      };
+      const handleState = () => { attach(); onInputsChange?.(); };
+      attach();
+      access.addEventListener('statechange', handleState);
+      return () => {
+        access.removeEventListener('statechange', handleState);
+        attached.forEach(input => input.removeEventListener('midimessage', listener));
+      };
+    },
+  };
+};
+
+// A source fed by hand, for tests and scripted performances
+export const createVirtualMidiSource = (name = 'Virtual MIDI') => {
+  const listeners = new Set<(data: ArrayLike<number>) => void>();
+  const source: MidiSource = {
+    inputs: () => [name],
+    subscribe: (onMessage) => {
+      listeners.add(onMessage);
+      return () => { listeners.delete(onMessage); };
+    },
+  };
+  return { source, send: (data: ArrayLike<number>) => listeners.forEach(l => l(data)) };
+};
+
+// `onChange` reports connection, learning and mapping changes for the panel.
+export const createMidiMapper = (host: MidiHost, initial: MidiMappings, onChange: (status: MidiStatus) => void): MidiMapper => {
+  let status: MidiStatus = { connected: false, inputs: [], error: null, learning: null, mappings: initial, waiting: [], lastEvent: null };
+  let unsubscribe: (() => void) | null = null;
+  // Soft takeover per param: whether the knob has caught the value, and what it last wrote
+  const pickup = new Map<string, { engaged: boolean; written: number | null; previous: number | null }>();
+
+  const report = (change: Partial<MidiStatus>) => {
+    status = { ...status, ...change };
+    onChange(status);
+  };
+
+  const setMappings = (mappings: MidiMappings) => {
+    pickup.clear();
+    report({ mappings, waiting: [] });
+  };
+
+  const learnEvent = (event: MidiEvent) => {
+    const target = status.learning;
+    const { cc, notes } = status.mappings;
+    if (target?.kind === 'param' && event.type === 'cc') {
+      const param = host.getParam(target.paramId);
+      if (!param || (param.type !== 'float' && param.type !== 'int')) return false;
+      const mapping: MidiCCMapping = {
+        channel: event.channel, controller: event.controller, paramId: param.id,
+        min: param.min, max: param.max, softTakeover: false,
+      };
+      // One knob per param and one param per knob
+      const rest = cc.filter(m => m.paramId !== param.id && !(m.channel === event.channel && m.controller === event.controller));
+      setMappings({ cc: [...rest, mapping], notes });
+      report({ learning: null });
+      return true;
+    }
+    if (target?.kind === 'preset' && event.type === 'noteon') {
+      const rest = notes.filter(m => m.slot !== target.slot && !(m.channel === event.channel && m.note === event.note));
+      setMappings({ cc, notes: [...rest, { channel: event.channel, note: event.note, slot: target.slot }] });
+      report({ learning: null });
+      return true;
+    }
+    return false;
+  };
+
+  const applyCC = (mapping: MidiCCMapping, value: number) => {
+    const param = host.getParam(mapping.paramId);
+    if (!param || (param.type !== 'float' && param.type !== 'int')) return;
+    const target = scaleCC(mapping, value, param);
+    const state = pickup.get(param.id) ?? { engaged: !mapping.softTakeover, written: null, previous: null };
+    pickup.set(param.id, state);
+
+    if (mapping.softTakeover) {
+      // Something else moved the param since this knob last wrote it: wait for the knob to catch up
+      if (state.written === null || Math.abs(param.value - state.written) > 1e-6) state.engaged = false;
+      if (!state.engaged) {
+        const tolerance = (2 * Math.abs(mapping.max - mapping.min)) / 127;
+        const previous = state.previous !== null ? scaleCC(mapping, state.previous, param) : null;
+        const crossed = previous !== null && (previous - param.value) * (target - param.value) <= 0;
+        state.engaged = crossed || Math.abs(target - param.value) <= tolerance;
+      }
+      state.previous = value;
+    }
+    const waiting = status.waiting.filter(id => id !== param.id);
+    if (!state.engaged) {
+      if (!status.waiting.includes(param.id)) report({ waiting: [...waiting, param.id] });
+      return;
+    }
+    host.setParam(param.id, target);
+    state.written = target;
+    if (waiting.length !== status.waiting.length) report({ waiting });
+  };
+
+  const handle = (data: ArrayLike<number>) => {
+    const event = parseMidiMessage(data);
+    if (!event) return;
+    report({ lastEvent: event });
+    if (status.learning && learnEvent(event)) return;
+    if (event.type === 'cc') {
+      const mapping = status.mappings.cc.find(m => m.channel === event.channel && m.controller === event.controller);
+      if (mapping) applyCC(mapping, event.value);
+    } else {
+      const mapping = status.mappings.notes.find(m => m.channel === event.channel && m.note === event.note);
+      if (mapping) host.recallPreset(mapping.slot);
+    }
+  };
+
+  const connect = (source: MidiSource) => {
+    unsubscribe?.();
+    unsubscribe = source.subscribe(handle, () => report({ inputs: source.inputs() }));
+    report({ connected: true, inputs: source.inputs(), error: null });
+  };
+
+  onChange(status);
+  return {
+    connect,
+    fail: (error) => report({ connected: false, error }),
+    learn: (target) => report({ learning: target }),
+    learning: () => status.learning,
+    setMappings,
+    mappings: () => status.mappings,
+    handle,
+    destroy: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+  };
+};
+
+// --- UI Component ---
+
+interface MidiPanelProps {
+  isOpen: boolean;
+  status: MidiStatus;
+  params: ShaderParam[];
+  slotCount: number; // Preset library slots available for note mappings
+  onLearn: (target: MidiLearnTarget | null) => void;
+  onMappingsChange: (mappings: MidiMappings) => void;
+}
+
+export const MidiPanel: React.FC<MidiPanelProps> = ({ isOpen, status, params, slotCount, onLearn, onMappingsChange }) => {
+  if (!isOpen) return null;
+
+  const { cc, notes } = status.mappings;
+  const learningParams = status.learning?.kind === 'param';
+  const learningId = status.learning?.kind === 'param' ? status.learning.paramId : '';
+  const learningLabel = params.find(p => p.id === learningId)?.label ?? learningId;
+  const setCC = (index: number, change: Partial<MidiCCMapping>) =>
+    onMappingsChange({ cc: cc.map((m, i) => (i === index ? { ...m, ...change } : m)), notes });
+  const inputClass = 'w-14 bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none';
+
+  return (
+    <div
+        className="absolute top-4 right-14 z-40 w-[360px] bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl font-mono text-[10px] animate-fade-in-up"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <div className="flex items-center gap-3 px-4 h-9 border-b border-white/10 uppercase tracking-widest">
+            <span className="text-white">MIDI</span>
+            <span className="flex-1 truncate normal-case text-gray-500" title={status.inputs.join(', ')}>
+                {status.error ?? (!status.connected ? 'Connecting…' : status.inputs.length ? status.inputs.join(', ') : 'No inputs')}
+            </span>
+            <button
+                onClick={() => onLearn(learningParams ? null : { kind: 'param', paramId: '' })}
+                className={learningParams ? 'text-acid animate-pulse' : 'text-gray-500 hover:text-white'}
+                title="Click a param, then move a knob"
+            >
+                Learn
+            </button>
+        </div>
+
+        {status.learning && (
+            <div className="px-4 py-2 text-acid border-b border-white/10">
+                {status.learning.kind === 'preset'
+                    ? `Hit a pad for preset slot ${status.learning.slot + 1}…`
+                    : status.learning.paramId
+                        ? `Move a knob for ${learningLabel}…`
+                        : 'Click a param in the panel…'}
+                <button onClick={() => onLearn(null)} className="float-right text-gray-500 hover:text-white uppercase">Cancel</button>
+            </div>
+        )}
+
+        <div className="px-4 py-3 space-y-2 max-h-[40vh] overflow-y-auto custom-scrollbar text-gray-500">
+            {cc.length === 0 && <div className="text-white/30">No knobs mapped. Press Learn, click a param, move a knob.</div>}
+            {cc.map((m, i) => {
+                const param = params.find(p => p.id === m.paramId);
+                return (
+                    <div key={`${m.channel}-${m.controller}`} className="flex items-center gap-2">
+                        <span className="w-12 text-acid">{ccLabel(m)}</span>
+                        <span className={`flex-1 truncate uppercase ${param ? 'text-gray-300' : 'text-red-400 line-through'}`} title={param ? m.paramId : 'Not in this shader'}>
+                            {param?.label ?? m.paramId}
+                        </span>
+                        <input type="number" value={m.min} onChange={e => setCC(i, { min: parseFloat(e.target.value) || 0 })} className={inputClass} title="Value at 0" />
+                        <input type="number" value={m.max} onChange={e => setCC(i, { max: parseFloat(e.target.value) || 0 })} className={inputClass} title="Value at 127" />
+                        <button
+                            onClick={() => setCC(i, { softTakeover: !m.softTakeover })}
+                            className={m.softTakeover ? (status.waiting.includes(m.paramId) ? 'text-orange-400' : 'text-acid') : 'text-gray-600 hover:text-white'}
+                            title={status.waiting.includes(m.paramId) ? 'Soft takeover: move the knob to the current value' : 'Soft takeover'}
+                        >
+                            ST
+                        </button>
+                        <button onClick={() => onMappingsChange({ cc: cc.filter((_, j) => j !== i), notes })} className="text-white/20 hover:text-red-500">✕</button>
+                    </div>
+                );
+            })}
+
+            <div className="pt-2 border-t border-white/10 uppercase tracking-widest">Preset Pads</div>
+            <div className="grid grid-cols-3 gap-1">
+                {Array.from({ length: slotCount }, (_, slot) => {
+                    const mapping = notes.find(m => m.slot === slot);
+                    const armed = status.learning?.kind === 'preset' && status.learning.slot === slot;
+                    return (
+                        <button
+                            key={slot}
+                            onClick={() => (mapping && !armed
+                                ? onMappingsChange({ cc, notes: notes.filter(m => m !== mapping) })
+                                : onLearn(armed ? null : { kind: 'preset', slot }))}
+                            className={`p-1 border text-left transition-colors ${armed ? 'border-acid text-acid animate-pulse' : mapping ? 'border-white/30 text-white' : 'border-white/10 hover:border-white/30'}`}
+                            title={mapping ? 'Click to unmap' : 'Click, then hit a pad'}
+                        >
+                            <span className="text-acid">{slot + 1}</span> {mapping ? noteLabel(mapping) : '—'}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {status.lastEvent && <div className="pt-2 text-white/30">Last: {describeMidiEvent(status.lastEvent)}</div>}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,423 @@
+import React from 'react';
+import { LfoShape, Modulator, ModulatorSource, PresetValue, ShaderParam } from '../types';
+import { BeatState } from './BeatDetector';
+
+// --- Modulation ---
+// Modulators offset float and color params every frame on top of their base (slider or keyframed)
+// value. Each produces a signal: LFOs swing -1..1, audio envelopes follow a band 0..1 with their
+// own attack and release, and expressions return whatever they compute. The signal times `depth`
+// is added as a fraction of the param's range, several modulators on one param sum, and the
+// result is clamped to the range. Everything is a function of the frame clock, so exports
+// modulate exactly like live playback.
+
+export interface ModulationInputs {
+  time: number; // Frame clock, seconds
+  levels: number[]; // The `audio` uniform
+  beat: BeatState;
+}
+
+export interface ModulationEngine {
+  // Advances the audio envelopes to `inputs.time`; call once per rendered frame
+  step: (modulators: Modulator[], inputs: ModulationInputs) => void;
+  // Params with every modulated value replaced; untouched params are returned as-is
+  apply: (params: ShaderParam[], modulators: Modulator[], inputs: ModulationInputs) => ShaderParam[];
+  reset: () => void;
+}
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'saw', 'square', 'random'];
+export const MODULATOR_SOURCES: ModulatorSource[] = ['lfo', 'audio', 'expression'];
+export const AUDIO_BAND_LABELS = ['Volume', 'Low', 'Mid', 'High'];
+const MAX_STEP = 0.25; // Seconds; longer gaps (a paused tab) don't jump the envelopes
+
+export const isModulatable = (param: ShaderParam) => param.type === 'float' || param.type === 'color';
+
+let nextModulatorId = 0;
+
+export const createModulator = (paramId: string, source: ModulatorSource = 'lfo'): Modulator => ({
+  id: `mod-${Date.now().toString(36)}-${nextModulatorId++}`,
+  paramId,
+  enabled: true,
+  source,
+  depth: 0.25,
+  shape: 'sine',
+  rate: 0.5,
+  band: 1,
+  attack: 0.01,
+  release: 0.3,
+  expression: 'sin(time) * beat',
+});
+
+// --- Expressions ---
+// A small arithmetic language compiled to closures: numbers, variables, + - * / % ^, parentheses
+// and the GLSL-style functions below. No access to anything outside `vars`.
+
+export type ExpressionVars = Record<string, number>;
+type Compiled = (vars: ExpressionVars) => number;
+
+export const EXPRESSION_VARIABLES = ['time', 'beat', 'beatPhase', 'bpm', 'volume', 'low', 'mid', 'high', 'pi'];
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, abs: Math.abs, sign: Math.sign,
+  floor: Math.floor, ceil: Math.ceil, sqrt: Math.sqrt, exp: Math.exp, log: Math.log,
+  fract: (x) => x - Math.floor(x),
+  pow: Math.pow,
+  min: (...values) => Math.min(...values),
+  max: (...values) => Math.max(...values),
+  clamp: (x, lo, hi) => Math.min(Math.max(x, lo), hi),
+  mix: (a, b, t) => a + (b - a) * t,
+  step: (edge, x) => (x < edge ? 0 : 1),
+  smoothstep: (e0, e1, x) => {
+    const t = Math.min(Math.max((x - e0) / (e1 - e0), 0), 1);
+    return t * t * (3 - 2 * t);
+  },
+};
+
+const tokenize = (source: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/%^(),]))/iy;
+  let at = 0;
+  while (at < source.length) {
+    if (/^\s*$/.test(source.slice(at))) break;
+    pattern.lastIndex = at;
+    const match = pattern.exec(source);
+    if (!match) throw new Error(`Unexpected '${source.slice(at).trim()[0]}'`);
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+    at = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+// Throws with a readable message on syntax errors, unknown names and wrong argument counts.
+export const compileExpression = (source: string): Compiled => {
+  const tokens = tokenize(source);
+  let i = 0;
+  const peek = () => tokens[i];
+  const expect = (token: string) => {
+    if (tokens[i] !== token) throw new Error(tokens[i] === undefined ? `Expected '${token}'` : `Expected '${token}' before '${tokens[i]}'`);
+    i++;
+  };
+
+  const expression = (): Compiled => {
+    let left = term();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[i++];
+      const a = left, b = term();
+      left = op === '+' ? (v) => a(v) + b(v) : (v) => a(v) - b(v);
+    }
+    return left;
+  };
+
+  const term = (): Compiled => {
+    let left = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = tokens[i++];
+      const a = left, b = unary();
+      left = op === '*' ? (v) => a(v) * b(v) : op === '/' ? (v) => a(v) / b(v) : (v) => a(v) % b(v);
+    }
+    return left;
+  };
+
+  const unary = (): Compiled => {
+    if (peek() === '-') { i++; const a = unary(); return (v) => -a(v); }
+    if (peek() === '+') { i++; return unary(); }
+    return power();
+  };
+
+  // Right-associative, binding tighter than unary minus on its left: -2^2 = -4
+  const power = (): Compiled => {
+    const base = primary();
+    if (peek() !== '^') return base;
+    i++;
+    const exponent = unary();
+    return (v) => Math.pow(base(v), exponent(v));
+  };
+
+  const primary = (): Compiled => {
+    const token = tokens[i++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() === '(') {
+        const fn = FUNCTIONS[token];
+        if (!fn) throw new Error(`Unknown function '${token}'`);
+        i++;
+        const args: Compiled[] = [];
+        if (peek() !== ')') {
+          args.push(expression());
+          while (peek() === ',') { i++; args.push(expression()); }
+        }
+        expect(')');
+        // min and max take any count; the rest take exactly their declared arity
+        if (fn.length > 0 ? args.length !== fn.length : args.length === 0) throw new Error(`${token}() takes ${fn.length || 'at least 1'} argument(s)`);
+        return (v) => fn(...args.map(a => a(v)));
+      }
+      if (token === 'pi') return () => Math.PI;
+      if (!EXPRESSION_VARIABLES.includes(token)) throw new Error(`Unknown variable '${token}'`);
+      return (v) => v[token] ?? 0;
+    }
+    throw new Error(`Unexpected '${token}'`);
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const compiled = expression();
+  if (i < tokens.length) throw new Error(`Unexpected '${tokens[i]}'`);
+  return compiled;
+};
+
+// The error message for an expression, or null when it compiles
+export const expressionError = (source: string): string | null => {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+// --- Signals ---
+
+// Stable 0..1 value per (modulator, step), so random-hold repeats across renders of the same clock
+const holdNoise = (id: string, index: number): number => {
+  let h = 2166136261 ^ index;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 16777619);
+  h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d);
+  h = Math.imul(h ^ (h >>> 12), 0x297a2d39);
+  return ((h ^ (h >>> 15)) >>> 0) / 4294967296;
+};
+
+export const lfoValue = (shape: LfoShape, phase: number, id = ''): number => {
+  const cycle = phase - Math.floor(phase);
+  switch (shape) {
+    case 'saw': return 2 * cycle - 1;
+    case 'square': return cycle < 0.5 ? 1 : -1;
+    case 'random': return holdNoise(id, Math.floor(phase)) * 2 - 1;
+    default: return Math.sin(2 * Math.PI * phase);
+  }
+};
+
+const expressionVars = ({ time, levels, beat }: ModulationInputs): ExpressionVars => ({
+  time,
+  beat: beat.beat,
+  beatPhase: beat.beatPhase,
+  bpm: beat.bpm,
+  volume: levels[0] ?? 0,
+  low: levels[1] ?? 0,
+  mid: levels[2] ?? 0,
+  high: levels[3] ?? 0,
+});
+
+export const createModulationEngine = (): ModulationEngine => {
+  let envelopes = new Map<string, number>(); // Modulator ID -> audio envelope
+  let lastTime: number | null = null;
+  const compiled = new Map<string, Compiled | null>(); // Source -> closure, null when it doesn't compile
+
+  const compile = (source: string) => {
+    if (!compiled.has(source)) {
+      try {
+        compiled.set(source, compileExpression(source));
+      } catch (e) {
+        compiled.set(source, null);
+      }
+      if (compiled.size > 64) compiled.delete(compiled.keys().next().value!); // Drop drafts typed along the way
+    }
+    return compiled.get(source)!;
+  };
+
+  const signal = (mod: Modulator, inputs: ModulationInputs, vars: ExpressionVars): number => {
+    switch (mod.source) {
+      case 'lfo': return lfoValue(mod.shape, inputs.time * mod.rate, mod.id);
+      case 'audio': return envelopes.get(mod.id) ?? 0;
+      case 'expression': {
+        const value = compile(mod.expression)?.(vars) ?? 0;
+        return isFinite(value) ? value : 0;
+      }
+    }
+  };
+
+  const step = (modulators: Modulator[], { time, levels }: ModulationInputs) => {
+    const dt = lastTime === null ? 0 : Math.min(MAX_STEP, Math.max(0, time - lastTime));
+    lastTime = time;
+    const next = new Map<string, number>();
+    modulators.forEach(mod => {
+      if (!mod.enabled || mod.source !== 'audio') return;
+      const target = levels[mod.band] ?? 0;
+      const current = envelopes.get(mod.id) ?? 0;
+      const tau = target > current ? mod.attack : mod.release;
+      next.set(mod.id, tau <= 0 ? target : current + (target - current) * (1 - Math.exp(-dt / tau)));
+    });
+    envelopes = next;
+  };
+
+  const apply = (params: ShaderParam[], modulators: Modulator[], inputs: ModulationInputs): ShaderParam[] => {
+    const active = modulators.filter(m => m.enabled && m.depth !== 0);
+    if (active.length === 0) return params;
+    const vars = expressionVars(inputs);
+
+    return params.map(param => {
+      const mods = active.filter(m => m.paramId === param.id);
+      if (mods.length === 0) return param;
+      if (param.type === 'float') {
+        const offset = mods.reduce((sum, m) => sum + signal(m, inputs, vars) * m.depth, 0) * (param.max - param.min);
+        return { ...param, value: Math.min(param.max, Math.max(param.min, param.value + offset)) };
+      }
+      if (param.type === 'color') {
+        const offsets = [0, 0, 0];
+        mods.forEach(m => {
+          const amount = signal(m, inputs, vars) * m.depth;
+          offsets.forEach((_, c) => { if (m.channel === undefined || m.channel === c) offsets[c] += amount; });
+        });
+        return { ...param, value: param.value.map((v, c) => Math.min(1, Math.max(0, v + offsets[c]))) as [number, number, number] };
+      }
+      return param;
+    });
+  };
+
+  return {
+    step,
+    apply,
+    reset: () => {
+      envelopes = new Map();
+      lastTime = null;
+    },
+  };
+};
+
+// Current values of the params that have an enabled modulator, for the parameter panel
+export const modulatedValues = (params: ShaderParam[], modulators: Modulator[]): Record<string, PresetValue> => {
+  const values: Record<string, PresetValue> = {};
+  modulators.forEach(m => {
+    const param = m.enabled ? params.find(p => p.id === m.paramId) : undefined;
+    if (param) values[param.id] = param.value;
+  });
+  return values;
+};
+
+// --- UI Component ---
+
+interface ModulationPanelProps {
+  isOpen: boolean;
+  modulators: Modulator[];
+  setModulators: React.Dispatch<React.SetStateAction<Modulator[]>>;
+  params: ShaderParam[];
+}
+
+const fieldClass = 'bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none';
+
+const NumberField: React.FC<{ value: number; step: number; min?: number; title: string; suffix?: string; onChange: (value: number) => void }> = ({ value, step, min, title, suffix, onChange }) => (
+    <label className="flex items-center gap-1 text-gray-500" title={title}>
+        <input
+            type="number"
+            value={value}
+            step={step}
+            min={min}
+            onChange={e => { const v = parseFloat(e.target.value); if (isFinite(v)) onChange(min !== undefined ? Math.max(min, v) : v); }}
+            className={`w-14 ${fieldClass}`}
+        />
+        {suffix}
+    </label>
+);
+
+export const ModulationPanel: React.FC<ModulationPanelProps> = ({ isOpen, modulators, setModulators, params }) => {
+  if (!isOpen) return null;
+
+  const targets = params.filter(isModulatable);
+  const update = (id: string, patch: Partial<Modulator>) =>
+    setModulators(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+
+  return (
+    <div
+        className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 w-[640px] bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl font-mono text-[10px] animate-fade-in-up"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <div className="flex items-center justify-between px-4 h-9 border-b border-white/10 uppercase tracking-widest">
+            <span className="text-white">Modulation</span>
+            <button
+                disabled={targets.length === 0}
+                onClick={() => setModulators(prev => [...prev, createModulator(targets[0].id)])}
+                className="text-acid hover:text-white disabled:text-gray-600"
+            >
+                + Add
+            </button>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto custom-scrollbar">
+            {modulators.length === 0 && (
+                <div className="px-4 py-3 text-gray-500">No modulators. Add one to drive a float or color param from an LFO, an audio band or an expression.</div>
+            )}
+            {modulators.map(mod => {
+                const target = params.find(p => p.id === mod.paramId);
+                const error = mod.source === 'expression' ? expressionError(mod.expression) : null;
+                return (
+                <div key={mod.id} className={`flex items-center gap-2 px-4 py-2 border-b border-white/5 ${mod.enabled ? '' : 'opacity-40'}`}>
+                    <input type="checkbox" checked={mod.enabled} onChange={e => update(mod.id, { enabled: e.target.checked })} className="accent-acid" title="Enabled" />
+                    <select
+                        value={mod.paramId}
+                        onChange={e => update(mod.id, { paramId: e.target.value, channel: undefined })}
+                        className={`w-28 ${fieldClass} ${target ? '' : 'text-red-400'}`}
+                    >
+                        {!target && <option value={mod.paramId}>{mod.paramId}?</option>}
+                        {targets.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                    {target?.type === 'color' && (
+                        <select
+                            value={mod.channel ?? -1}
+                            onChange={e => update(mod.id, { channel: Number(e.target.value) < 0 ? undefined : Number(e.target.value) })}
+                            className={fieldClass}
+                        >
+                            <option value={-1}>RGB</option>
+                            <option value={0}>R</option>
+                            <option value={1}>G</option>
+                            <option value={2}>B</option>
+                        </select>
+                    )}
+                    <select value={mod.source} onChange={e => update(mod.id, { source: e.target.value as ModulatorSource })} className={`uppercase ${fieldClass}`}>
+                        {MODULATOR_SOURCES.map(s => <option key={s} value={s}>{s === 'expression' ? 'expr' : s}</option>)}
+                    </select>
+
+                    <div className="flex-1 flex items-center gap-2 min-w-0">
+                        {mod.source === 'lfo' && (
+                            <>
+                                <select value={mod.shape} onChange={e => update(mod.id, { shape: e.target.value as LfoShape })} className={fieldClass}>
+                                    {LFO_SHAPES.map(s => <option key={s} value={s}>{s}</option>)}
+                                </select>
+                                <NumberField value={mod.rate} step={0.05} min={0} title="Rate" suffix="Hz" onChange={rate => update(mod.id, { rate })} />
+                            </>
+                        )}
+                        {mod.source === 'audio' && (
+                            <>
+                                <select value={mod.band} onChange={e => update(mod.id, { band: Number(e.target.value) })} className={fieldClass}>
+                                    {AUDIO_BAND_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+                                </select>
+                                <NumberField value={mod.attack} step={0.01} min={0} title="Attack" suffix="A" onChange={attack => update(mod.id, { attack })} />
+                                <NumberField value={mod.release} step={0.05} min={0} title="Release" suffix="R" onChange={release => update(mod.id, { release })} />
+                            </>
+                        )}
+                        {mod.source === 'expression' && (
+                            <input
+                                type="text"
+                                value={mod.expression}
+                                spellCheck={false}
+                                onChange={e => update(mod.id, { expression: e.target.value })}
+                                title={error ?? `Variables: ${EXPRESSION_VARIABLES.join(', ')}`}
+                                className={`flex-1 min-w-0 ${fieldClass} ${error ? 'border-red-500/60 text-red-300' : ''}`}
+                            />
+                        )}
+                    </div>
+
+                    <NumberField value={mod.depth} step={0.05} title="Depth, as a fraction of the param's range" suffix="×" onChange={depth => update(mod.id, { depth })} />
+                    <button onClick={() => setModulators(prev => prev.filter(m => m.id !== mod.id))} className="text-gray-500 hover:text-red-400" title="Remove">✕</button>
+                </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,476 @@
+// --- Video Muxers ---
+// Minimal MP4 and WebM writers for chunks coming out of a WebCodecs `VideoEncoder`, plus an
+// optional `AudioEncoder` soundtrack. Both build the whole file in memory when the recording
+// finishes; samples are kept in encode order, which is also presentation order because WebCodecs
+// never reorders frames.
+
+export type VideoContainer = 'mp4' | 'webm';
+
+export interface VideoTrackConfig {
+  codec: string; // WebCodecs codec string, e.g. 'avc1.64002A', 'vp09.00.41.08', 'av01.0.09M.08'
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface AudioTrackConfig {
+  codec: string; // WebCodecs codec string, 'mp4a.40.2' or 'opus'
+  sampleRate: number;
+  channels: number;
+}
+
+export interface VideoMuxer {
+  addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void; // Needs an audio track config
+  finish: () => Blob;
+}
+
+interface Sample {
+  data: Uint8Array;
+  timestamp: number; // Microseconds
+  duration: number; // Microseconds
+  isKey: boolean;
+}
+
+// Encoder-side support per container, in order of preference
+export const CODEC_CANDIDATES: Record<VideoContainer, string[]> = {
+  mp4: ['avc1.64002A', 'avc1.4D402A', 'avc1.42E02A', 'av01.0.09M.08', 'vp09.00.41.08'],
+  webm: ['vp09.00.41.08', 'av01.0.09M.08', 'vp8'],
+};
+
+export const AUDIO_CODEC_CANDIDATES: Record<VideoContainer, string[]> = {
+  mp4: ['mp4a.40.2', 'opus'],
+  webm: ['opus'],
+};
+
+export const CONTAINER_MIME: Record<VideoContainer, string> = { mp4: 'video/mp4', webm: 'video/webm' };
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out;
+};
+
+const toBytes = (source: AllowSharedBufferSource): Uint8Array =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source as ArrayBuffer).slice();
+
+// Collects chunks and the decoder description the encoder attaches to the first keyframe.
+// `defaultDuration` (microseconds) stands in when a chunk carries none.
+const createSampleCollector = (defaultDuration: number) => {
+  const samples: Sample[] = [];
+  let description: Uint8Array | null = null;
+  const addChunk = (
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    meta?: { decoderConfig?: { description?: AllowSharedBufferSource } },
+  ) => {
+    if (meta?.decoderConfig?.description && !description) description = toBytes(meta.decoderConfig.description);
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? defaultDuration, isKey: chunk.type === 'key' });
+  };
+  return { samples, addChunk, description: () => description };
+};
+
+const audioSink = (collector: ReturnType<typeof createSampleCollector> | null) =>
+  (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => {
+    if (!collector) throw new Error('This muxer has no audio track');
+    collector.addChunk(chunk, meta);
+  };
+
+const videoCollector = (config: VideoTrackConfig) => createSampleCollector(1e6 / config.fps);
+
+// AAC frames hold 1024 samples, Opus frames default to 20ms
+const audioCollector = (config: AudioTrackConfig) =>
+  createSampleCollector(codecFamily(config.codec) === 'opus' ? 20000 : (1024 * 1e6) / config.sampleRate);
+
+// --- Codec Configuration Records ---
+// VP9 and AV1 parameters are read back out of the codec string; only 8-bit 4:2:0 is produced.
+const codecFamily = (codec: string) => codec.split('.')[0];
+
+const vp9Config = (codec: string) => {
+  const [, profile = '00', level = '41', bitDepth = '08'] = codec.split('.');
+  return new Uint8Array([
+    parseInt(profile, 10), parseInt(level, 10),
+    (parseInt(bitDepth, 10) << 4) | (1 << 1), // 4:2:0 colocated, limited range
+    1, 1, 1, // BT.709 primaries, transfer, matrix
+    0, 0, // No codec initialization data
+  ]);
+};
+
+const av1Config = (codec: string) => {
+  const [, profile = '0', levelTier = '09M', bitDepth = '08'] = codec.split('.');
+  const level = parseInt(levelTier, 10);
+  const tier = levelTier.endsWith('H') ? 1 : 0;
+  const highBitDepth = parseInt(bitDepth, 10) > 8 ? 1 : 0;
+  return new Uint8Array([
+    0x81, // marker, version 1
+    (parseInt(profile, 10) << 5) | level,
+    (tier << 7) | (highBitDepth << 6) | (1 << 3) | (1 << 2), // 4:2:0 subsampling
+    0,
+  ]);
+};
+
+// AAC-LC AudioSpecificConfig, for encoders that don't attach one
+const SAMPLE_RATE_INDEX = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const aacConfig = (config: AudioTrackConfig) => {
+  const index = SAMPLE_RATE_INDEX.indexOf(config.sampleRate);
+  if (index < 0) throw new Error(`AAC cannot be muxed at ${config.sampleRate}Hz`);
+  const bits = (2 << 11) | (index << 7) | (config.channels << 3); // Object type 2 (LC)
+  return new Uint8Array([bits >> 8, bits & 0xff]);
+};
+
+// Opus identification header (RFC 7845); the encoder's own copy carries its real pre-skip
+const OPUS_PRE_SKIP = 312; // libopus lookahead at 48kHz
+const opusHead = (config: AudioTrackConfig, description: Uint8Array | null): Uint8Array => {
+  if (description && description.length >= 19 && new TextDecoder().decode(description.subarray(0, 8)) === 'OpusHead') return description;
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set([...'OpusHead'].map(c => c.charCodeAt(0)));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, config.channels);
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, config.sampleRate, true); // Input rate, informational
+  return head; // Output gain 0, channel mapping family 0
+};
+const opusPreSkip = (head: Uint8Array) => new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+
+// --- MP4 (ISO BMFF) ---
+const MP4_TIMESCALE = 90000; // Divides evenly by all common frame rates
+
+const u8 = (n: number) => new Uint8Array([n & 0xff]);
+const u16 = (n: number) => new Uint8Array([(n >> 8) & 0xff, n & 0xff]);
+const u32 = (n: number) => new Uint8Array([(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]);
+const u64 = (n: number) => concat([u32(Math.floor(n / 0x100000000)), u32(n % 0x100000000)]);
+const ascii = (s: string) => new Uint8Array([...s].map(c => c.charCodeAt(0)));
+const zeros = (n: number) => new Uint8Array(n);
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(payload);
+  return concat([u32(8 + body.length), ascii(type), body]);
+};
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+
+const UNITY_MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+
+const mp4SampleEntry = (config: VideoTrackConfig, description: Uint8Array | null): Uint8Array => {
+  const family = codecFamily(config.codec);
+  let type: string;
+  let codecBox: Uint8Array;
+  if (family === 'avc1') {
+    if (!description) throw new Error('H.264 encoder did not provide an avcC description');
+    type = 'avc1'; codecBox = box('avcC', description);
+  } else if (family === 'vp09') {
+    type = 'vp09'; codecBox = fullBox('vpcC', 1, 0, vp9Config(config.codec));
+  } else if (family === 'av01') {
+    type = 'av01'; codecBox = box('av1C', description ?? av1Config(config.codec));
+  } else {
+    throw new Error(`Codec ${config.codec} cannot be muxed into MP4`);
+  }
+  return box(type,
+    zeros(6), u16(1), // Reserved, data_reference_index
+    zeros(16), // Pre-defined / reserved
+    u16(config.width), u16(config.height),
+    u32(0x00480000), u32(0x00480000), // 72 dpi
+    u32(0), u16(1), // Reserved, frame_count
+    zeros(32), // Compressor name
+    u16(0x0018), u16(0xffff), // Depth, pre_defined = -1
+    codecBox,
+  );
+};
+
+// Elementary stream descriptor wrapping the AAC AudioSpecificConfig
+const esds = (asc: Uint8Array) => {
+  const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+    const body = concat(payload);
+    return concat([u8(tag), u8(body.length), body]); // Every descriptor here stays below 128 bytes
+  };
+  return fullBox('esds', 0, 0, descriptor(3,
+    u16(0), u8(0), // ES_ID, flags
+    descriptor(4,
+      u8(0x40), u8(0x15), // MPEG-4 audio, audio stream
+      u8(0), u16(0), u32(0), u32(0), // Buffer size, max / average bitrate unknown
+      descriptor(5, asc),
+    ),
+    descriptor(6, u8(2)), // SL config: predefined MP4
+  ));
+};
+
+const mp4AudioSampleEntry = (config: AudioTrackConfig, description: Uint8Array | null): Uint8Array => {
+  const family = codecFamily(config.codec);
+  let type: string;
+  let codecBox: Uint8Array;
+  if (family === 'mp4a') {
+    type = 'mp4a'; codecBox = esds(description ?? aacConfig(config));
+  } else if (family === 'opus') {
+    const head = opusHead(config, description);
+    type = 'Opus'; codecBox = box('dOps',
+      u8(0), u8(config.channels), u16(opusPreSkip(head)), u32(config.sampleRate), u16(0), u8(0)); // Version, ..., gain, mapping family
+  } else {
+    throw new Error(`Codec ${config.codec} cannot be muxed into MP4`);
+  }
+  return box(type,
+    zeros(6), u16(1), // Reserved, data_reference_index
+    zeros(8), // Reserved
+    u16(config.channels), u16(16), // Channel count, sample size
+    zeros(4), // Pre-defined / reserved
+    u32(config.sampleRate << 16), // 16.16 fixed point
+    codecBox,
+  );
+};
+
+// Per-sample durations in `timescale` ticks, taken from timestamp differences so rounding never accumulates
+const mp4Deltas = (samples: Sample[], timescale: number) => {
+  const toTicks = (us: number) => Math.round((us * timescale) / 1e6);
+  const start = samples[0].timestamp;
+  return samples.map((s, i) =>
+    i + 1 < samples.length ? toTicks(samples[i + 1].timestamp - start) - toTicks(s.timestamp - start) : toTicks(s.duration));
+};
+
+interface Mp4TrackSpec {
+  id: number;
+  samples: Sample[];
+  offsets: number[]; // File position of every sample
+  use64: boolean;
+  timescale: number; // Media timescale; tkhd durations use MP4_TIMESCALE
+  sampleEntry: Uint8Array;
+  video?: { width: number; height: number }; // Audio tracks leave this out
+}
+
+const mp4Trak = ({ id, samples, offsets, use64, timescale, sampleEntry, video }: Mp4TrackSpec) => {
+  const deltas = mp4Deltas(samples, timescale);
+  const duration = deltas.reduce((sum, d) => sum + d, 0);
+  const movieDuration = Math.round((duration * MP4_TIMESCALE) / timescale);
+
+  const stts: Uint8Array[] = [];
+  let runs = 0;
+  for (let i = 0; i < deltas.length; i++) {
+    let count = 1;
+    while (i + 1 < deltas.length && deltas[i + 1] === deltas[i]) { count++; i++; }
+    stts.push(u32(count), u32(deltas[i]));
+    runs++;
+  }
+  const keys = samples.map((s, i) => (s.isKey ? i + 1 : 0)).filter(n => n > 0);
+
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    fullBox('stts', 0, 0, u32(runs), ...stts),
+    // Every audio sample is a sync sample, which an absent stss already says
+    ...(video ? [fullBox('stss', 0, 0, u32(keys.length), ...keys.map(u32))] : []),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(samples.length), ...samples.map(s => u32(s.data.length))),
+    use64
+      ? fullBox('co64', 0, 0, u32(offsets.length), ...offsets.map(u64))
+      : fullBox('stco', 0, 0, u32(offsets.length), ...offsets.map(u32)),
+  );
+
+  const trak = box('trak',
+    fullBox('tkhd', 0, 3, u32(0), u32(0), u32(id), u32(0), u32(movieDuration), zeros(8),
+      u16(0), u16(video ? 0 : 1), u16(video ? 0 : 0x0100), u16(0), // Layer, alternate group, volume
+      UNITY_MATRIX, u32((video?.width ?? 0) << 16), u32((video?.height ?? 0) << 16)),
+    box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u16(0x55c4), u16(0)), // 'und'
+      video
+        ? fullBox('hdlr', 0, 0, u32(0), ascii('vide'), zeros(12), ascii('VideoHandler'), u8(0))
+        : fullBox('hdlr', 0, 0, u32(0), ascii('soun'), zeros(12), ascii('SoundHandler'), u8(0)),
+      box('minf',
+        video ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        stbl,
+      ),
+    ),
+  );
+  return { trak, movieDuration };
+};
+
+export const createMp4Muxer = (config: VideoTrackConfig, audio?: AudioTrackConfig): VideoMuxer => {
+  const collector = videoCollector(config);
+  const audioSamples = audio ? audioCollector(audio) : null;
+
+  const finish = () => {
+    const samples = collector.samples;
+    if (samples.length === 0) throw new Error('No frames were encoded');
+    const sound = audioSamples?.samples ?? [];
+
+    const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii('mp41'), ascii(codecFamily(config.codec)));
+    const dataSize = [...samples, ...sound].reduce((sum, s) => sum + s.data.length, 0);
+    const largeMdat = dataSize + 8 > 0xffffffff;
+    const mdatHeader = largeMdat ? concat([u32(1), ascii('mdat'), u64(dataSize + 16)]) : concat([u32(dataSize + 8), ascii('mdat')]);
+
+    // One sample per chunk keeps stsc trivial; the soundtrack follows the video in mdat
+    let offset = ftyp.length + mdatHeader.length;
+    const place = (list: Sample[]) => list.map(s => { const at = offset; offset += s.data.length; return at; });
+    const videoOffsets = place(samples);
+    const audioOffsets = place(sound);
+    const use64 = offset > 0xffffffff;
+
+    const videoTrack = mp4Trak({
+      id: 1, samples, offsets: videoOffsets, use64, timescale: MP4_TIMESCALE,
+      sampleEntry: mp4SampleEntry(config, collector.description()),
+      video: { width: config.width, height: config.height },
+    });
+    const audioTrack = audio && sound.length > 0
+      ? mp4Trak({
+          id: 2, samples: sound, offsets: audioOffsets, use64, timescale: audio.sampleRate,
+          sampleEntry: mp4AudioSampleEntry(audio, audioSamples!.description()),
+        })
+      : null;
+    const duration = Math.max(videoTrack.movieDuration, audioTrack?.movieDuration ?? 0);
+
+    const moov = box('moov',
+      fullBox('mvhd', 0, 0, u32(0), u32(0), u32(MP4_TIMESCALE), u32(duration),
+        u32(0x00010000), u16(0x0100), zeros(10), UNITY_MATRIX, zeros(24), u32(audioTrack ? 3 : 2)), // next_track_ID
+      videoTrack.trak,
+      ...(audioTrack ? [audioTrack.trak] : []),
+    );
+
+    return new Blob([ftyp, mdatHeader, ...samples.map(s => s.data), ...sound.map(s => s.data), moov], { type: CONTAINER_MIME.mp4 });
+  };
+
+  return { addChunk: collector.addChunk, addAudioChunk: audioSink(audioSamples), finish };
+};
+
+// --- WebM (Matroska) ---
+const ebmlId = (id: number) => {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) out[i] = (id / 2 ** (8 * (length - 1 - i))) & 0xff;
+  return out;
+};
+
+const ebmlSize = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const out = new Uint8Array(length);
+  let rest = size;
+  for (let i = length - 1; i >= 0; i--) { out[i] = rest % 256; rest = Math.floor(rest / 256); }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+};
+
+const ebml = (id: number, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([ebmlId(id), ebmlSize(body.length), body]);
+};
+
+const ebmlUint = (id: number, value: number, width = 0) => {
+  let length = width || 1;
+  while (!width && value >= 2 ** (8 * length)) length++;
+  const out = new Uint8Array(length);
+  let rest = value;
+  for (let i = length - 1; i >= 0; i--) { out[i] = rest % 256; rest = Math.floor(rest / 256); }
+  return ebml(id, out);
+};
+
+const ebmlFloat = (id: number, value: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return ebml(id, new Uint8Array(view.buffer));
+};
+
+const ebmlString = (id: number, value: string) => ebml(id, new TextEncoder().encode(value));
+
+const WEBM_CODEC_IDS: Record<string, string> = { vp09: 'V_VP9', av01: 'V_AV1', vp8: 'V_VP8' };
+
+export const createWebmMuxer = (config: VideoTrackConfig, audio?: AudioTrackConfig): VideoMuxer => {
+  const collector = videoCollector(config);
+  const audioSamples = audio ? audioCollector(audio) : null;
+
+  const finish = () => {
+    const samples = collector.samples;
+    if (samples.length === 0) throw new Error('No frames were encoded');
+    const codecId = WEBM_CODEC_IDS[codecFamily(config.codec)];
+    if (!codecId) throw new Error(`Codec ${config.codec} cannot be muxed into WebM`);
+    const sound = audioSamples?.samples ?? [];
+    if (audio && sound.length > 0 && codecFamily(audio.codec) !== 'opus') throw new Error(`Codec ${audio.codec} cannot be muxed into WebM`);
+
+    // Both tracks interleave by timestamp, video first on ties
+    const blocks = [
+      ...samples.map(s => ({ s, track: 1 })),
+      ...sound.map(s => ({ s, track: 2 })),
+    ].sort((a, b) => a.s.timestamp - b.s.timestamp || a.track - b.track);
+
+    // TimecodeScale is 1ms; a cluster starts at every video keyframe, or when block offsets would overflow int16
+    const start = blocks[0].s.timestamp;
+    const toMs = (us: number) => Math.round((us - start) / 1000);
+    const clusters: { time: number; keyframe: boolean; blocks: Uint8Array[] }[] = [];
+    for (const { s, track } of blocks) {
+      const time = toMs(s.timestamp);
+      const keyframe = track === 1 && s.isKey;
+      let cluster = clusters[clusters.length - 1];
+      if (!cluster || keyframe || time - cluster.time > 32767) {
+        cluster = { time, keyframe, blocks: [] };
+        clusters.push(cluster);
+      }
+      // Audio frames are always keyframes
+      const header = new Uint8Array([0x80 | track, 0, 0, s.isKey || track === 2 ? 0x80 : 0]); // Track, relative time, flags
+      new DataView(header.buffer).setInt16(1, time - cluster.time);
+      cluster.blocks.push(ebml(0xa3, header, s.data)); // SimpleBlock
+    }
+    const durationMs = Math.max(...[samples, sound].filter(list => list.length > 0).map(list => {
+      const last = list[list.length - 1];
+      return toMs(last.timestamp) + last.duration / 1000;
+    }));
+
+    const header = ebml(0x1a45dfa3,
+      ebmlUint(0x4286, 1), ebmlUint(0x42f7, 1), ebmlUint(0x42f2, 4), ebmlUint(0x42f3, 8),
+      ebmlString(0x4282, 'webm'), ebmlUint(0x4287, 4), ebmlUint(0x4285, 2),
+    );
+    const info = ebml(0x1549a966,
+      ebmlUint(0x2ad7b1, 1000000), // TimecodeScale
+      ebmlString(0x4d80, 'render-lab'), ebmlString(0x5741, 'render-lab'),
+      ebmlFloat(0x4489, durationMs),
+    );
+    const description = collector.description();
+    const codecPrivate = codecId === 'V_AV1' ? (description ?? av1Config(config.codec)) : null;
+    const audioEntry = () => {
+      const head = opusHead(audio!, audioSamples!.description());
+      return ebml(0xae,
+        ebmlUint(0xd7, 2), ebmlUint(0x73c5, 2), ebmlUint(0x83, 2), // Number, UID, type = audio
+        ebmlString(0x86, 'A_OPUS'),
+        ebml(0x63a2, head),
+        ebmlUint(0x56aa, Math.round((opusPreSkip(head) * 1e9) / 48000)), // CodecDelay (ns)
+        ebmlUint(0x56bb, 80000000), // SeekPreRoll: 80ms, as the Matroska Opus mapping recommends
+        ebml(0xe1, ebmlFloat(0xb5, audio!.sampleRate), ebmlUint(0x9f, audio!.channels)),
+      );
+    };
+    const tracks = ebml(0x1654ae6b,
+      ebml(0xae,
+        ebmlUint(0xd7, 1), ebmlUint(0x73c5, 1), ebmlUint(0x83, 1), // Number, UID, type = video
+        ebmlString(0x86, codecId),
+        ...(codecPrivate ? [ebml(0x63a2, codecPrivate)] : []),
+        ebmlUint(0x9c, 0), // No lacing
+        ebmlUint(0x23e383, Math.round(1e9 / config.fps)), // DefaultDuration (ns)
+        ebml(0xe0, ebmlUint(0xb0, config.width), ebmlUint(0xba, config.height)),
+      ),
+      ...(audio && sound.length > 0 ? [audioEntry()] : []),
+    );
+
+    // Cues sit before the clusters, so positions use a fixed 8-byte width to keep their own size stable.
+    // Only clusters opening on a video keyframe are seek points.
+    const clusterBytes = clusters.map(c => ebml(0x1f43b675, ebmlUint(0xe7, c.time), ...c.blocks));
+    const buildCues = (firstClusterAt: number) => {
+      let position = firstClusterAt;
+      const points: Uint8Array[] = [];
+      clusters.forEach((c, i) => {
+        if (c.keyframe) points.push(ebml(0xbb, ebmlUint(0xb3, c.time), ebml(0xb7, ebmlUint(0xf7, 1), ebmlUint(0xf1, position, 8))));
+        position += clusterBytes[i].length;
+      });
+      return ebml(0x1c53bb6b, ...points);
+    };
+    const cuesSize = buildCues(0).length;
+    const cues = buildCues(info.length + tracks.length + cuesSize);
+
+    const segmentSize = info.length + tracks.length + cues.length + clusterBytes.reduce((sum, c) => sum + c.length, 0);
+    const segmentHeader = concat([ebmlId(0x18538067), ebmlSize(segmentSize)]);
+    return new Blob([header, segmentHeader, info, tracks, cues, ...clusterBytes], { type: CONTAINER_MIME.webm });
+  };
+
+  return { addChunk: collector.addChunk, addAudioChunk: audioSink(audioSamples), finish };
+};
+
+export const createVideoMuxer = (container: VideoContainer, config: VideoTrackConfig, audio?: AudioTrackConfig): VideoMuxer =>
+  container === 'mp4' ? createMp4Muxer(config, audio) : createWebmMuxer(config, audio);
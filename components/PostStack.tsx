@@ -0,0 +1,516 @@
+import React, { useRef } from 'react';
+import { FloatParam } from '../types';
+import { ParamSlider } from './ShaderParams';
+
+// --- Post-Processing Stack ---
+// The scene renders linear radiance into a float texture; the enabled effects then run in order
+// as fullscreen passes, ping-ponging between two intermediates, still in linear HDR. A final
+// output pass applies exposure, the tone mapper and the LUT grade, and encodes for the display
+// (gamma 2.2) into the canvas or capture target.
+
+export const SCENE_FORMAT = 'rgba16float';
+
+export type PostEffectId = 'bloom' | 'aberration' | 'vignette' | 'grain';
+export type ToneMapper = 'aces' | 'agx' | 'reinhard' | 'none';
+export const TONE_MAPPERS: ToneMapper[] = ['aces', 'agx', 'reinhard', 'none']; // Index is passed to the shader
+
+interface PostEffectDef {
+  label: string;
+  params: FloatParam[]; // Packed into `post.params` in this order (at most 4)
+}
+
+const param = (id: string, label: string, min: number, max: number, value: number): FloatParam =>
+  ({ id, label, type: 'float', min, max, value });
+
+export const POST_EFFECTS: Record<PostEffectId, PostEffectDef> = {
+  bloom: {
+    label: 'Bloom',
+    params: [param('threshold', 'Threshold', 0, 4, 1.0), param('intensity', 'Intensity', 0, 2, 0.6), param('radius', 'Radius', 0.5, 4, 1.5)],
+  },
+  aberration: { label: 'Chr. Aberration', params: [param('strength', 'Strength', 0, 2, 0.5)] },
+  vignette: { label: 'Vignette', params: [param('amount', 'Amount', 0, 1, 0.2)] },
+  grain: { label: 'Film Grain', params: [param('strength', 'Strength', 0, 0.2, 0.0)] },
+};
+
+export interface PostEffectState {
+  id: PostEffectId;
+  enabled: boolean;
+  values: Record<string, number>; // Param ID -> value
+}
+
+export interface PostOutputSettings {
+  exposure: number; // EV stops
+  toneMapper: ToneMapper;
+  lut: boolean;
+  lutIntensity: number;
+}
+
+export interface PostStackSettings {
+  effects: PostEffectState[]; // Run order
+  output: PostOutputSettings;
+}
+
+const defaultValues = (id: PostEffectId) =>
+  Object.fromEntries(POST_EFFECTS[id].params.map(p => [p.id, p.value]));
+
+export const DEFAULT_POST_STACK: PostStackSettings = {
+  effects: (['bloom', 'aberration', 'vignette', 'grain'] as PostEffectId[])
+    .map(id => ({ id, enabled: id !== 'aberration', values: defaultValues(id) })),
+  output: { exposure: 0.6, toneMapper: 'aces', lut: false, lutIntensity: 1 }, // +0.6 EV ~ the old 1.5x ACES pre-gain
+};
+
+// How far bloom and aberration reach beyond the pixel being shaded. Tiled captures render
+// this much extra scene around each tile so the effects line up across seams.
+export const postTileMargin = (settings: PostStackSettings, width: number, height: number): number => {
+  let margin = 0;
+  for (const effect of settings.effects) {
+    if (!effect.enabled) continue;
+    const value = (id: string) => effect.values[id] ?? POST_EFFECTS[effect.id].params.find(p => p.id === id)!.value;
+    // 4 taps per side at `radius` half-res texels, plus the prefilter footprint
+    if (effect.id === 'bloom') margin += Math.ceil(8 * value('radius')) + 4;
+    // Shift is 2% of the frame per unit strength at the corners
+    if (effect.id === 'aberration') margin += Math.ceil(0.01 * value('strength') * Math.max(width, height)) + 2;
+  }
+  return margin;
+};
+
+// --- LUT ---
+// 3D LUTs in the Resolve/Adobe `.cube` format, applied to display-encoded color.
+export interface CubeLUT {
+  title: string;
+  size: number;
+  data: Float32Array; // RGB triplets, red fastest
+}
+
+export const parseCubeLUT = (text: string): CubeLUT => {
+  let title = '';
+  let size = 0;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [key, ...rest] = line.split(/\s+/);
+    if (key === 'TITLE') title = line.slice(5).trim().replace(/^"|"$/g, '');
+    else if (key === 'LUT_3D_SIZE') size = parseInt(rest[0], 10);
+    else if (key === 'LUT_1D_SIZE') throw new Error('1D LUTs are not supported');
+    else if (key === 'DOMAIN_MIN') domainMin = rest.map(Number);
+    else if (key === 'DOMAIN_MAX') domainMax = rest.map(Number);
+    else if (/^[-+.\d]/.test(key)) values.push(Number(key), ...rest.slice(0, 2).map(Number));
+  }
+
+  if (!(size >= 2 && size <= 256)) throw new Error('Missing or invalid LUT_3D_SIZE');
+  if (values.length !== size * size * size * 3) throw new Error(`Expected ${size ** 3} entries, found ${Math.floor(values.length / 3)}`);
+  if (values.some(v => !Number.isFinite(v))) throw new Error('LUT contains non-numeric values');
+
+  // Rescale so the texture always covers [0, 1]
+  const data = new Float32Array(values);
+  for (let i = 0; i < data.length; i++) {
+    const c = i % 3;
+    data[i] = (data[i] - domainMin[c]) / (domainMax[c] - domainMin[c]);
+  }
+  return { title, size, data };
+};
+
+const IDENTITY_LUT: CubeLUT = {
+  title: 'Identity',
+  size: 2,
+  data: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 1]),
+};
+
+// rgba16float uploads need IEEE half floats
+const halfScratch = new Float32Array(1);
+const halfBits = new Uint32Array(halfScratch.buffer);
+const toHalf = (value: number): number => {
+  halfScratch[0] = value;
+  const x = halfBits[0];
+  const sign = (x >>> 16) & 0x8000;
+  const exp = ((x >>> 23) & 0xff) - 112; // Rebias 127 -> 15
+  if (exp <= 0) return sign; // Flush subnormals to zero
+  if (exp >= 31) return sign | 0x7c00;
+  return sign | ((exp << 10) + (((x & 0x7fffff) + 0x1000) >> 13)); // Rounding may carry into the exponent
+};
+
+// --- Shaders ---
+const POST_WGSL = `
+struct Post {
+  resolution: vec2f, // Full frame size in pixels
+  tileOffset: vec2f, // Pixel offset of this target within the full frame
+  texel: vec2f,      // 1 / target size
+  time: f32,
+  seed: f32,
+  params: vec4f,     // Effect params, in declaration order
+};
+
+@group(0) @binding(0) var src: texture_2d<f32>;
+@group(0) @binding(1) var linearSampler: sampler;
+@group(0) @binding(2) var<uniform> post: Post;
+@group(0) @binding(3) var aux: texture_2d<f32>;
+@group(0) @binding(4) var lut: texture_3d<f32>;
+
+@vertex
+fn vs_main(@builtin(vertex_index) i: u32) -> @builtin(position) vec4f {
+  let pos = array<vec2f, 3>(vec2f(-1.0, -1.0), vec2f(3.0, -1.0), vec2f(-1.0, 3.0));
+  return vec4f(pos[i], 0.0, 1.0);
+}
+
+fn sampleSrc(uv: vec2f) -> vec4f {
+  return textureSampleLevel(src, linearSampler, uv, 0.0);
+}
+
+// Position in the full frame, so tiles agree with a single render
+fn frameUV(p: vec2f) -> vec2f {
+  return (p + post.tileOffset) / post.resolution;
+}
+
+// Bloom: keep what exceeds the threshold, blur it at half resolution, add it back
+@fragment
+fn fs_bloom_prefilter(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let c = sampleSrc(p.xy * post.texel).rgb; // Bilinear tap averages the 2x2 source block
+  let peak = max(c.r, max(c.g, c.b));
+  return vec4f(c * max(peak - post.params.x, 0.0) / max(peak, 1e-4), 1.0);
+}
+
+fn blur(p: vec2f, axis: vec2f) -> vec4f {
+  let weights = array<f32, 5>(0.2270270, 0.1945946, 0.1216216, 0.0540541, 0.0162162);
+  let uv = p * post.texel;
+  let stride = axis * post.texel * post.params.x;
+  var sum = sampleSrc(uv).rgb * weights[0];
+  for (var i = 1; i < 5; i++) {
+    sum += (sampleSrc(uv + stride * f32(i)).rgb + sampleSrc(uv - stride * f32(i)).rgb) * weights[i];
+  }
+  return vec4f(sum, 1.0);
+}
+
+@fragment
+fn fs_blur_h(@builtin(position) p: vec4f) -> @location(0) vec4f { return blur(p.xy, vec2f(1.0, 0.0)); }
+
+@fragment
+fn fs_blur_v(@builtin(position) p: vec4f) -> @location(0) vec4f { return blur(p.xy, vec2f(0.0, 1.0)); }
+
+@fragment
+fn fs_bloom_composite(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let uv = p.xy * post.texel;
+  return vec4f(sampleSrc(uv).rgb + textureSampleLevel(aux, linearSampler, uv, 0.0).rgb * post.params.x, 1.0);
+}
+
+// Radial RGB split: red pushed outwards, blue pulled in
+@fragment
+fn fs_aberration(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let uv = p.xy * post.texel;
+  let shift = (frameUV(p.xy) - 0.5) * post.params.x * 0.02 * post.resolution * post.texel;
+  return vec4f(sampleSrc(uv + shift).r, sampleSrc(uv).g, sampleSrc(uv - shift).b, 1.0);
+}
+
+@fragment
+fn fs_vignette(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let q = frameUV(p.xy);
+  let c = sampleSrc(p.xy * post.texel).rgb;
+  return vec4f(c * (0.5 + 0.5 * pow(16.0 * q.x * q.y * (1.0 - q.x) * (1.0 - q.y), post.params.x)), 1.0);
+}
+
+@fragment
+fn fs_grain(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let pixel = p.xy + post.tileOffset;
+  let noise = fract(sin(dot(pixel, vec2f(12.9898, 78.233) * (post.time + post.seed))) * 43758.5453);
+  return vec4f(sampleSrc(p.xy * post.texel).rgb + (noise - 0.5) * post.params.x, 1.0);
+}
+
+// --- Tone Mappers ---
+// Each maps linear HDR to linear [0, 1]; the display encode happens afterwards.
+fn acesFilm(x: vec3f) -> vec3f {
+  return clamp((x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14), vec3f(0.0), vec3f(1.0));
+}
+
+// Minimal AgX (Sobotka), using the polynomial fit of its default contrast curve
+fn agxContrast(x: vec3f) -> vec3f {
+  let x2 = x * x;
+  let x4 = x2 * x2;
+  return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+fn agx(c: vec3f) -> vec3f {
+  let inset = mat3x3f(
+    0.842479062253094, 0.0423282422610123, 0.0423756549057051,
+    0.0784335999999992, 0.878468636469772, 0.0784336,
+    0.0792237451477643, 0.0791661274605434, 0.879142973793104);
+  let outset = mat3x3f(
+    1.19687900512017, -0.0528968517574562, -0.0529716355144438,
+    -0.0980208811401368, 1.15190312990417, -0.0980434501171241,
+    -0.0990297440797205, -0.0989611768448433, 1.15107367264116);
+  let minEv = -12.47393;
+  let maxEv = 4.026069;
+  var x = clamp(log2(max(inset * c, vec3f(1e-10))), vec3f(minEv), vec3f(maxEv));
+  x = agxContrast((x - minEv) / (maxEv - minEv));
+  // The curve's output is display-encoded; decode so every mapper hands back linear light
+  return pow(clamp(outset * x, vec3f(0.0), vec3f(1.0)), vec3f(2.2));
+}
+
+fn toneMap(c: vec3f, mapper: i32) -> vec3f {
+  switch mapper {
+    case 0: { return acesFilm(c); }
+    case 1: { return agx(c); }
+    case 2: { return c / (1.0 + c); }
+    default: { return clamp(c, vec3f(0.0), vec3f(1.0)); }
+  }
+}
+
+// Output: params = (exposure gain, tone mapper index, LUT intensity, 0)
+// LUTs expect display-encoded input, so the grade is applied after the encode
+@fragment
+fn fs_present(@builtin(position) p: vec4f) -> @location(0) vec4f {
+  let mapped = toneMap(max(sampleSrc(p.xy * post.texel).rgb * post.params.x, vec3f(0.0)), i32(post.params.y));
+  let encoded = pow(mapped, vec3f(1.0 / 2.2));
+  let n = f32(textureDimensions(lut).x);
+  let graded = textureSampleLevel(lut, linearSampler, encoded * (n - 1.0) / n + 0.5 / n, 0.0).rgb;
+  return vec4f(mix(encoded, graded, post.params.z), 1.0);
+}
+`;
+
+const POST_ENTRY_POINTS = ['fs_bloom_prefilter', 'fs_blur_h', 'fs_blur_v', 'fs_bloom_composite', 'fs_aberration', 'fs_vignette', 'fs_grain'];
+const UNIFORM_SLOT = 256; // minUniformBufferOffsetAlignment
+const MAX_PASSES = 16;
+
+export interface PostFrame {
+  resolution: [number, number]; // Full frame, even when drawing one tile
+  tileOffset: [number, number];
+  time: number;
+  seed: number;
+}
+
+export interface PostStack {
+  readonly sceneView: any; // Scene and accumulation render here
+  readonly sceneTexture: any; // The same linear radiance, for EXR readback
+  resize: (width: number, height: number) => void;
+  setLUT: (lut: CubeLUT | null) => void; // null restores the identity
+  encode: (encoder: any, settings: PostStackSettings, frame: PostFrame, outputView: any) => void;
+  destroy: () => void;
+}
+
+export const createPostStack = (device: any, outputFormat: string): PostStack => {
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      // 2 = FRAGMENT
+      { binding: 0, visibility: 2, texture: { sampleType: 'float' } },
+      { binding: 1, visibility: 2, sampler: { type: 'filtering' } },
+      { binding: 2, visibility: 2, buffer: { type: 'uniform', hasDynamicOffset: true } },
+      { binding: 3, visibility: 2, texture: { sampleType: 'float' } },
+      { binding: 4, visibility: 2, texture: { sampleType: 'float', viewDimension: '3d' } },
+    ],
+  });
+  const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+  const module = device.createShaderModule({ label: 'Post Stack', code: POST_WGSL });
+  const makePipeline = (entryPoint: string, format: string) => device.createRenderPipeline({
+    layout,
+    vertex: { module, entryPoint: 'vs_main' },
+    fragment: { module, entryPoint, targets: [{ format }] },
+    primitive: { topology: 'triangle-list' },
+  });
+  const pipelines: Record<string, any> = Object.fromEntries(POST_ENTRY_POINTS.map(e => [e, makePipeline(e, SCENE_FORMAT)]));
+  pipelines.fs_present = makePipeline('fs_present', outputFormat);
+
+  const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'clamp-to-edge', addressModeV: 'clamp-to-edge', addressModeW: 'clamp-to-edge' });
+  // 64 (UNIFORM) | 8 (COPY_DST) = 72
+  const uniformBuffer = device.createBuffer({ size: UNIFORM_SLOT * MAX_PASSES, usage: 72 });
+  const uniformData = new Float32Array((UNIFORM_SLOT * MAX_PASSES) / 4);
+
+  let width = 0;
+  let height = 0;
+  let targets: any[] = []; // [scene, ping, pong, bloomA, bloomB]
+  let lutTexture: any = null;
+  let bindGroups = new Map<string, any>(); // `${src}:${aux}` -> bind group
+
+  const setLUT = (lut: CubeLUT | null) => {
+    const { size, data } = lut || IDENTITY_LUT;
+    const texels = new Uint16Array(size * size * size * 4);
+    for (let i = 0; i < size * size * size; i++) {
+      for (let c = 0; c < 3; c++) texels[i * 4 + c] = toHalf(data[i * 3 + c]);
+      texels[i * 4 + 3] = 0x3c00; // 1.0
+    }
+    lutTexture?.destroy();
+    // 4 (TEXTURE_BINDING) | 2 (COPY_DST) = 6
+    lutTexture = device.createTexture({ size: [size, size, size], dimension: '3d', format: SCENE_FORMAT, usage: 6 });
+    device.queue.writeTexture({ texture: lutTexture }, texels, { bytesPerRow: size * 8, rowsPerImage: size }, [size, size, size]);
+    bindGroups = new Map();
+  };
+  setLUT(null);
+
+  const resize = (w: number, h: number) => {
+    if (w === width && h === height) return;
+    targets.forEach(t => t.destroy());
+    width = w; height = h;
+    const half = [Math.max(1, Math.ceil(w / 2)), Math.max(1, Math.ceil(h / 2))];
+    // 16 (RENDER_ATTACHMENT) | 4 (TEXTURE_BINDING) = 20, plus 1 (COPY_SRC) on the scene for EXR readback
+    targets = [[w, h], [w, h], [w, h], half, half].map(([tw, th], i) => device.createTexture({ size: [tw, th, 1], format: SCENE_FORMAT, usage: i === 0 ? 21 : 20 }));
+    bindGroups = new Map();
+  };
+
+  const bindGroup = (src: number, aux: number) => {
+    const key = `${src}:${aux}`;
+    if (!bindGroups.has(key)) {
+      bindGroups.set(key, device.createBindGroup({
+        layout: bindGroupLayout,
+        entries: [
+          { binding: 0, resource: targets[src].createView() },
+          { binding: 1, resource: sampler },
+          { binding: 2, resource: { buffer: uniformBuffer, size: 48 } },
+          { binding: 3, resource: targets[aux].createView() },
+          { binding: 4, resource: lutTexture.createView({ dimension: '3d' }) },
+        ],
+      }));
+    }
+    return bindGroups.get(key);
+  };
+
+  const encode = (encoder: any, settings: PostStackSettings, frame: PostFrame, outputView: any) => {
+    let slot = 0;
+    const draw = (entryPoint: string, src: number, target: number | null, params: number[], aux = src) => {
+      const [tw, th] = target === null || target < 3 ? [width, height] : [targets[3].width, targets[3].height];
+      const base = (slot * UNIFORM_SLOT) / 4;
+      uniformData.set([...frame.resolution, ...frame.tileOffset, 1 / tw, 1 / th, frame.time, frame.seed, ...params, 0, 0, 0, 0].slice(0, 12), base);
+
+      const pass = encoder.beginRenderPass({
+        colorAttachments: [{ view: target === null ? outputView : targets[target].createView(), clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }],
+      });
+      pass.setPipeline(pipelines[entryPoint]);
+      pass.setBindGroup(0, bindGroup(src, aux), [slot * UNIFORM_SLOT]);
+      pass.draw(3);
+      pass.end();
+      slot++;
+    };
+
+    let current = 0;
+    const next = () => (current === 1 ? 2 : 1);
+    for (const effect of settings.effects) {
+      if (!effect.enabled || slot + 5 > MAX_PASSES) continue;
+      const values = POST_EFFECTS[effect.id].params.map(p => effect.values[p.id] ?? p.value);
+      const target = next();
+      if (effect.id === 'bloom') {
+        const [threshold, intensity, radius] = values;
+        draw('fs_bloom_prefilter', current, 3, [threshold]);
+        draw('fs_blur_h', 3, 4, [radius]);
+        draw('fs_blur_v', 4, 3, [radius]);
+        draw('fs_bloom_composite', current, target, [intensity], 3);
+      } else {
+        draw(`fs_${effect.id}`, current, target, values);
+      }
+      current = target;
+    }
+    const { exposure, toneMapper, lut, lutIntensity } = settings.output;
+    draw('fs_present', current, null, [2 ** exposure, TONE_MAPPERS.indexOf(toneMapper), lut ? lutIntensity : 0]);
+    device.queue.writeBuffer(uniformBuffer, 0, uniformData, 0, (slot * UNIFORM_SLOT) / 4);
+  };
+
+  return {
+    get sceneView() { return targets[0].createView(); },
+    get sceneTexture() { return targets[0]; },
+    resize,
+    setLUT,
+    encode,
+    destroy: () => {
+      targets.forEach(t => t.destroy());
+      lutTexture?.destroy();
+      uniformBuffer.destroy();
+    },
+  };
+};
+
+// --- UI Component ---
+interface PostStackPanelProps {
+  settings: PostStackSettings;
+  setSettings: React.Dispatch<React.SetStateAction<PostStackSettings>>;
+  lutName: string | null;
+  onLoadLUT: (file: File) => void;
+}
+
+const SliderRow: React.FC<{ param: FloatParam; onChange: (value: number) => void }> = ({ param, onChange }) => (
+  <div className="pl-6">
+    <div className="flex justify-between items-baseline mb-2">
+      <span className="text-[10px] font-mono uppercase tracking-widest text-gray-500">{param.label}</span>
+      <span className="text-[10px] font-mono text-white">{param.value.toFixed(2)}</span>
+    </div>
+    <ParamSlider param={param} onChange={onChange} />
+  </div>
+);
+
+export const PostStackPanel: React.FC<PostStackPanelProps> = ({ settings, setSettings, lutName, onLoadLUT }) => {
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const { effects, output } = settings;
+
+  const update = (index: number, change: Partial<PostEffectState>) =>
+    setSettings(prev => ({ ...prev, effects: prev.effects.map((e, i) => (i === index ? { ...e, ...change } : e)) }));
+
+  const updateOutput = (change: Partial<PostOutputSettings>) =>
+    setSettings(prev => ({ ...prev, output: { ...prev.output, ...change } }));
+
+  const move = (index: number, delta: number) => setSettings(prev => {
+    const to = index + delta;
+    if (to < 0 || to >= prev.effects.length) return prev;
+    const next = [...prev.effects];
+    [next[index], next[to]] = [next[to], next[index]];
+    return { ...prev, effects: next };
+  });
+
+  return (
+    <div className="shrink-0 space-y-6">
+      <div className="text-[10px] font-mono uppercase tracking-widest text-white/30 mb-4">Post Stack</div>
+      {effects.map((effect, index) => {
+        const def = POST_EFFECTS[effect.id];
+        return (
+          <div key={effect.id} className="group shrink-0 space-y-3">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-3 cursor-pointer flex-1">
+                <div className={`w-3 h-3 border transition-colors ${effect.enabled ? 'bg-acid border-acid' : 'border-white/30 group-hover:border-white'}`}></div>
+                <span className={`text-xs font-mono uppercase tracking-widest transition-colors ${effect.enabled ? 'text-gray-300' : 'text-gray-600'} group-hover:text-acid`}>{def.label}</span>
+                <input type="checkbox" className="hidden" checked={effect.enabled} onChange={e => update(index, { enabled: e.target.checked })} />
+              </label>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-[10px] font-mono text-white/40 hover:text-acid disabled:opacity-20">▲</button>
+              <button onClick={() => move(index, 1)} disabled={index === effects.length - 1} className="text-[10px] font-mono text-white/40 hover:text-acid disabled:opacity-20">▼</button>
+            </div>
+
+            {effect.enabled && def.params.map(p => (
+              <SliderRow key={p.id} param={{ ...p, value: effect.values[p.id] ?? p.value }} onChange={v => update(index, { values: { ...effect.values, [p.id]: v } })} />
+            ))}
+          </div>
+        );
+      })}
+
+      <div className="text-[10px] font-mono uppercase tracking-widest text-white/30 mb-4">Output</div>
+      <SliderRow param={{ ...param('exposure', 'Exposure (EV)', -4, 4, output.exposure), step: 0.1 }} onChange={exposure => updateOutput({ exposure })} />
+      <div className="pl-6 grid grid-cols-4 gap-1">
+        {TONE_MAPPERS.map(mapper => (
+          <button
+            key={mapper}
+            onClick={() => updateOutput({ toneMapper: mapper })}
+            className={`p-1 text-[10px] font-mono uppercase border transition-all ${output.toneMapper === mapper ? 'border-acid text-acid bg-acid/10' : 'border-white/10 text-gray-500 hover:border-white/30'}`}
+          >
+            {mapper}
+          </button>
+        ))}
+      </div>
+
+      <div className="group shrink-0 space-y-3">
+        <label className="flex items-center gap-3 cursor-pointer">
+          <div className={`w-3 h-3 border transition-colors ${output.lut ? 'bg-acid border-acid' : 'border-white/30 group-hover:border-white'}`}></div>
+          <span className={`text-xs font-mono uppercase tracking-widest transition-colors ${output.lut ? 'text-gray-300' : 'text-gray-600'} group-hover:text-acid`}>LUT Grade</span>
+          <input type="checkbox" className="hidden" checked={output.lut} onChange={e => updateOutput({ lut: e.target.checked })} />
+        </label>
+        {output.lut && (
+          <>
+            <SliderRow param={param('intensity', 'Intensity', 0, 1, output.lutIntensity)} onChange={lutIntensity => updateOutput({ lutIntensity })} />
+            <input type="file" ref={lutInputRef} className="hidden" accept=".cube" onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onLoadLUT(file);
+            }} />
+            <button onClick={() => lutInputRef.current?.click()} className="ml-6 px-2 py-1 text-[10px] font-mono uppercase tracking-widest border border-white/10 text-gray-400 hover:border-acid hover:text-acid transition-colors">
+              {lutName ? `LUT: ${lutName}` : 'Load .cube...'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
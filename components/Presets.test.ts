@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ShaderParam } from '../types';
+import { applyPresetToParams, parsePresetFile } from './Presets';
+
+const PARAMS: ShaderParam[] = [
+  { id: 'speed', label: 'Speed', type: 'float', value: 1, min: 0, max: 5 },
+  { id: 'steps', label: 'Steps', type: 'int', value: 4, min: 1, max: 16 },
+  { id: 'tint', label: 'Tint', type: 'color', value: [1, 1, 1] },
+];
+
+const preset = (params: Record<string, unknown>) =>
+  parsePresetFile(JSON.stringify({ schemaVersion: 1, createdAt: '', shaderHash: '', params })).preset;
+
+describe('parsePresetFile', () => {
+  it('drops entries that are not numbers or number arrays', () => {
+    const { params } = preset({ speed: 2, label: 'fast', tint: [1, '0', 1], flag: true, empty: null, steps: [3] });
+    expect(params).toEqual({ speed: 2, steps: [3] });
+  });
+
+  it('migrates a bare v0 param map the same way', () => {
+    const { preset: migrated, migratedFrom } = parsePresetFile(JSON.stringify({ speed: 2, label: 'fast', tint: [0, 0.5, 1] }));
+    expect(migratedFrom).toBe(0);
+    expect(migrated.params).toEqual({ speed: 2, tint: [0, 0.5, 1] });
+  });
+});
+
+describe('applyPresetToParams', () => {
+  it.each([
+    { name: 'in range', values: { speed: 2.5, steps: 8 }, expected: { speed: 2.5, steps: 8 }, clamped: [] },
+    { name: 'ints are rounded', values: { steps: 6.6 }, expected: { speed: 1, steps: 7 }, clamped: [] },
+    { name: 'values are clamped', values: { speed: 9, steps: 0 }, expected: { speed: 5, steps: 1 }, clamped: ['speed', 'steps'] },
+    { name: 'rounding happens before clamping', values: { steps: 16.4 }, expected: { speed: 1, steps: 16 }, clamped: [] },
+  ])('$name', ({ values, expected, clamped }) => {
+    const { params, report } = applyPresetToParams(preset(values), PARAMS, '');
+    expect(params[0].value).toBe(expected.speed);
+    expect(params[1].value).toBe(expected.steps);
+    expect(report.clamped).toEqual(clamped);
+    expect(report.invalid).toEqual([]);
+    expect(report.applied).toEqual(Object.keys(values));
+  });
+
+  it('ignores values of the wrong shape', () => {
+    const { params, report } = applyPresetToParams(preset({ speed: [1, 2], tint: [0, 1] }), PARAMS, '');
+    expect(params).toEqual(PARAMS);
+    expect(report.invalid).toEqual(['speed', 'tint']);
+    expect(report.clamped).toEqual([]);
+    expect(report.applied).toEqual([]);
+  });
+});
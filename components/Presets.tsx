@@ -0,0 +1,500 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CameraPose, MidiMappings, PresetFile, PresetImportReport, PresetValue, ShaderParam, SharedScene } from '../types';
+import { BOILERPLATE_SHADER_WGSL } from '../constants';
+import { parseMidiMappings } from './Midi';
+
+// --- Preset File Format ---
+// A preset is a JSON document holding param values keyed by ID, the camera pose and a
+// hash of the shader source; exported files may also carry MIDI mappings (optional, so
+// older readers skip them). `schemaVersion` is bumped whenever the shape changes;
+// older files are upgraded step by step through PRESET_MIGRATIONS on import.
+export const PRESET_SCHEMA_VERSION = 1;
+export const PRESET_FILE_EXTENSION = '.preset.json';
+
+// FNV-1a, 32 bit. Only used to tell whether a preset was made for the same shader.
+export const hashShaderSource = (code: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const paramValues = (params: ShaderParam[]): Record<string, PresetValue> => {
+  const values: Record<string, PresetValue> = {};
+  params.forEach(p => {
+    values[p.id] = typeof p.value === 'number' ? p.value : [...p.value];
+  });
+  return values;
+};
+
+export const createPreset = (params: ShaderParam[], camera: CameraPose, shaderCode: string, name?: string, midi?: MidiMappings): PresetFile => {
+  return {
+    schemaVersion: PRESET_SCHEMA_VERSION,
+    name,
+    createdAt: new Date().toISOString(),
+    shaderHash: hashShaderSource(shaderCode),
+    camera: { theta: camera.theta, phi: camera.phi, radius: camera.radius },
+    params: paramValues(params),
+    ...(midi && (midi.cc.length || midi.notes.length) ? { midi } : {}),
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPresetValue = (value: any): value is PresetValue =>
+  isFiniteNumber(value) || (Array.isArray(value) && value.every(isFiniteNumber));
+
+// Each entry upgrades a document from version N to N + 1.
+const PRESET_MIGRATIONS: Record<number, (doc: any) => any> = {
+  // v0: no envelope, just the params. Either the panel's ShaderParam[] state or an { id: value } map.
+  0: (doc: any) => {
+    const params: Record<string, PresetValue> = {};
+    if (Array.isArray(doc)) {
+      doc.forEach((p: any) => { if (p && typeof p.id === 'string' && isPresetValue(p.value)) params[p.id] = p.value; });
+    } else {
+      Object.keys(doc).forEach(id => { if (isPresetValue(doc[id])) params[id] = doc[id]; });
+    }
+    return { schemaVersion: 1, createdAt: new Date(0).toISOString(), shaderHash: '', params };
+  },
+};
+
+// Parses and upgrades a preset file. Throws with a user-facing message if it can't be read.
+export const parsePresetFile = (text: string): { preset: PresetFile; migratedFrom?: number } => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Preset is not valid JSON.');
+  }
+  if (doc === null || typeof doc !== 'object') throw new Error('Preset must be a JSON object.');
+
+  const original = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  if (original > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Preset uses schema v${original}, this build only reads up to v${PRESET_SCHEMA_VERSION}.`);
+  }
+
+  for (let version = original; version < PRESET_SCHEMA_VERSION; version++) {
+    const migrate = PRESET_MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from preset schema v${version}.`);
+    doc = migrate(doc);
+  }
+
+  if (!doc.params || typeof doc.params !== 'object') throw new Error('Preset has no params.');
+  const camera = doc.camera;
+  const hasCamera = camera && ['theta', 'phi', 'radius'].every(k => typeof camera[k] === 'number');
+
+  const preset: PresetFile = {
+    schemaVersion: PRESET_SCHEMA_VERSION,
+    name: typeof doc.name === 'string' ? doc.name : undefined,
+    createdAt: typeof doc.createdAt === 'string' ? doc.createdAt : new Date(0).toISOString(),
+    shaderHash: typeof doc.shaderHash === 'string' ? doc.shaderHash : '',
+    camera: hasCamera ? { theta: camera.theta, phi: camera.phi, radius: camera.radius } : undefined,
+    params: Object.fromEntries(Object.entries<any>(doc.params).filter(([, value]) => isPresetValue(value))),
+    midi: parseMidiMappings(doc.midi),
+  };
+  return { preset, migratedFrom: original !== PRESET_SCHEMA_VERSION ? original : undefined };
+};
+
+// Checks that a preset value has the shape of the param it targets.
+const fitsParam = (param: ShaderParam, value: PresetValue): boolean => {
+  if (typeof param.value === 'number') return isFiniteNumber(value);
+  return Array.isArray(value) && value.length === param.value.length && value.every(isFiniteNumber);
+};
+
+// Matches preset values to params by ID. Params the preset doesn't mention keep their value.
+// Int values are rounded and scalars clamped to the param's range.
+export const applyPresetToParams = (
+  preset: PresetFile,
+  params: ShaderParam[],
+  shaderCode: string
+): { params: ShaderParam[]; report: PresetImportReport } => {
+  const report: PresetImportReport = {
+    applied: [],
+    missing: [],
+    unknown: Object.keys(preset.params).filter(id => !params.some(p => p.id === id)),
+    invalid: [],
+    clamped: [],
+    shaderChanged: preset.shaderHash !== '' && preset.shaderHash !== hashShaderSource(shaderCode),
+  };
+
+  const next = params.map(param => {
+    if (!(param.id in preset.params)) {
+      report.missing.push(param.id);
+      return param;
+    }
+    const value = preset.params[param.id];
+    if (!fitsParam(param, value)) {
+      report.invalid.push(param.id);
+      return param;
+    }
+    report.applied.push(param.id);
+    if (param.type === 'float' || param.type === 'int') {
+      const scalar = param.type === 'int' ? Math.round(value as number) : value as number;
+      const clamped = Math.min(param.max, Math.max(param.min, scalar));
+      if (clamped !== scalar) report.clamped.push(param.id);
+      return { ...param, value: clamped };
+    }
+    return { ...param, value: [...(value as number[])] } as ShaderParam;
+  });
+
+  return { params: next, report };
+};
+
+export const formatImportReport = (report: PresetImportReport): string => {
+  const lines = [`Applied ${report.applied.length} param(s).`];
+  if (report.migratedFrom !== undefined) lines.push(`Upgraded from preset schema v${report.migratedFrom}.`);
+  if (report.shaderChanged) lines.push('Preset was saved with a different shader; some values may look different.');
+  if (report.missing.length) lines.push(`Not in preset (unchanged): ${report.missing.join(', ')}`);
+  if (report.unknown.length) lines.push(`Unknown to this shader (ignored): ${report.unknown.join(', ')}`);
+  if (report.invalid.length) lines.push(`Wrong value type (ignored): ${report.invalid.join(', ')}`);
+  if (report.clamped.length) lines.push(`Out of range (clamped): ${report.clamped.join(', ')}`);
+  return lines.join('\n');
+};
+
+// --- Share Links ---
+// A scene travels in the URL fragment as `#scene=<base64url(deflate-raw(json))>`.
+// The JSON holds the preset plus the shader source, or null when it is the stock shader.
+const SHARE_HASH_PREFIX = '#scene=';
+const MAX_SHARE_HASH_LENGTH = 32 * 1024; // Characters, keeps links pasteable
+const MAX_SHARE_PAYLOAD_BYTES = 1024 * 1024; // Decompressed, guards against inflation bombs
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const deflate = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const inflate = async (bytes: Uint8Array, maxBytes: number): Promise<string> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      reader.cancel();
+      throw new Error('Shared scene is too large.');
+    }
+    chunks.push(value);
+  }
+  const merged = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => { merged.set(chunk, offset); offset += chunk.length; });
+  return new TextDecoder().decode(merged);
+};
+
+// Throws if the encoded scene would exceed the link size limit.
+export const encodeSceneHash = async (scene: SharedScene): Promise<string> => {
+  const payload = {
+    shader: scene.shaderCode === BOILERPLATE_SHADER_WGSL ? null : scene.shaderCode,
+    preset: scene.preset,
+  };
+  const hash = SHARE_HASH_PREFIX + toBase64Url(await deflate(JSON.stringify(payload)));
+  if (hash.length > MAX_SHARE_HASH_LENGTH) {
+    throw new Error(`Scene is too large to share as a link (${Math.round(hash.length / 1024)} KB).`);
+  }
+  return hash;
+};
+
+// Returns null when the fragment holds no scene; throws if it holds one that can't be read.
+export const decodeSceneHash = async (hash: string): Promise<SharedScene | null> => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  if (hash.length > MAX_SHARE_HASH_LENGTH) throw new Error('Shared scene link is too long.');
+
+  const payload = JSON.parse(await inflate(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)), MAX_SHARE_PAYLOAD_BYTES));
+  if (payload === null || typeof payload !== 'object') throw new Error('Shared scene is malformed.');
+  if (payload.shader !== null && typeof payload.shader !== 'string') throw new Error('Shared scene has no shader.');
+
+  return {
+    shaderCode: payload.shader === null ? BOILERPLATE_SHADER_WGSL : payload.shader,
+    preset: parsePresetFile(JSON.stringify(payload.preset)).preset,
+  };
+};
+
+// --- Morphing ---
+// Colors are stored sRGB-encoded (straight from the color picker), so they are blended
+// in linear light and re-encoded; everything else interpolates component-wise.
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const linearToSrgb = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Values of `params` interpolated from preset A (t = 0) to preset B (t = 1).
+// A param missing from either side holds its current value on that side.
+export const blendPresetParams = (
+  params: ShaderParam[],
+  a: Record<string, PresetValue>,
+  b: Record<string, PresetValue>,
+  t: number
+): ShaderParam[] => params.map(param => {
+  const from = param.id in a && fitsParam(param, a[param.id]) ? a[param.id] : param.value;
+  const to = param.id in b && fitsParam(param, b[param.id]) ? b[param.id] : param.value;
+
+  if (typeof from === 'number' && typeof to === 'number') {
+    const value = lerp(from, to, t);
+    return { ...param, value: param.type === 'int' ? Math.round(value) : value } as ShaderParam;
+  }
+
+  const fromArr = from as number[];
+  const toArr = to as number[];
+  const value = param.type === 'color'
+    ? fromArr.map((c, i) => linearToSrgb(lerp(srgbToLinear(c), srgbToLinear(toArr[i]), t)))
+    : fromArr.map((c, i) => lerp(c, toArr[i], t));
+  return { ...param, value } as ShaderParam;
+});
+
+const LIBRARY_STORAGE_KEY = 'render-lab.presets';
+export const MAX_PRESET_SLOTS = 9;
+
+// Entries that fail to parse are skipped, so one bad preset doesn't cost the rest. `intact` is
+// false when anything was skipped; the stored copy is then left alone until the library changes.
+const loadLibrary = (): { presets: PresetFile[]; intact: boolean } => {
+  let stored: any;
+  try {
+    stored = JSON.parse(localStorage.getItem(LIBRARY_STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.warn("Preset library could not be read", e);
+    return { presets: [], intact: false };
+  }
+  if (!Array.isArray(stored)) return { presets: [], intact: false };
+
+  const presets: PresetFile[] = [];
+  stored.forEach((entry, i) => {
+    try {
+      presets.push(parsePresetFile(JSON.stringify(entry)).preset);
+    } catch (e) {
+      console.warn(`Skipping preset library entry ${i + 1}`, e);
+    }
+  });
+  return { presets, intact: presets.length === stored.length };
+};
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.closest('input, textarea, select, [contenteditable="true"], .monaco-editor') !== null);
+
+// --- UI Component ---
+interface PresetManagerProps {
+  params: ShaderParam[];
+  setParams: React.Dispatch<React.SetStateAction<ShaderParam[]>>;
+  createSnapshot: (name: string) => PresetFile;
+  advance?: number; // Each change recalls the next library slot (beat events)
+  recallRequest?: { slot: number; serial: number }; // Each new serial recalls `slot` (MIDI notes)
+}
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ params, setParams, createSnapshot, advance = 0, recallRequest }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [loaded] = useState(loadLibrary);
+  const [library, setLibrary] = useState<PresetFile[]>(loaded.presets);
+  const [name, setName] = useState('');
+  const [slotA, setSlotA] = useState(0);
+  const [slotB, setSlotB] = useState(1);
+  const [duration, setDuration] = useState(2.0);
+  const [mix, setMix] = useState(0);
+  const [isMorphing, setIsMorphing] = useState(false);
+
+  const morphFrameRef = useRef<number | null>(null);
+  const paramsRef = useRef(params);
+  useEffect(() => { paramsRef.current = params; }, [params]);
+
+  // A partially read library is only written back once the user edits it
+  useEffect(() => {
+    if (library === loaded.presets && !loaded.intact) return;
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  }, [library]);
+
+  const cancelMorph = () => {
+    if (morphFrameRef.current !== null) cancelAnimationFrame(morphFrameRef.current);
+    morphFrameRef.current = null;
+    setIsMorphing(false);
+  };
+
+  useEffect(() => cancelMorph, []);
+
+  // Animates the crossfader from `from` to `to` over the chosen duration
+  const morph = (from: Record<string, PresetValue>, to: Record<string, PresetValue>, onTick?: (t: number) => void) => {
+    cancelMorph();
+    const start = performance.now();
+    const seconds = Math.max(0, duration);
+    setIsMorphing(true);
+
+    const step = (now: number) => {
+      const t = seconds > 0 ? Math.min(1, (now - start) / (seconds * 1000)) : 1;
+      setParams(prev => blendPresetParams(prev, from, to, t));
+      onTick?.(t);
+      if (t < 1) {
+        morphFrameRef.current = requestAnimationFrame(step);
+      } else {
+        morphFrameRef.current = null;
+        setIsMorphing(false);
+      }
+    };
+    morphFrameRef.current = requestAnimationFrame(step);
+  };
+
+  const recall = (index: number) => {
+    const preset = library[index];
+    if (!preset) return;
+    cancelMorph();
+    setParams(prev => blendPresetParams(prev, preset.params, preset.params, 1));
+  };
+
+  const morphTo = (index: number) => {
+    const preset = library[index];
+    if (preset) morph(paramValues(paramsRef.current), preset.params);
+  };
+
+  const morphAB = () => {
+    const a = library[slotA];
+    const b = library[slotB];
+    if (a && b) morph(a.params, b.params, setMix);
+  };
+
+  const handleCrossfade = (t: number) => {
+    const a = library[slotA];
+    const b = library[slotB];
+    cancelMorph();
+    setMix(t);
+    if (a && b) setParams(prev => blendPresetParams(prev, a.params, b.params, t));
+  };
+
+  const save = () => {
+    if (library.length >= MAX_PRESET_SLOTS) return;
+    const snapshot = createSnapshot(name.trim() || `Preset ${library.length + 1}`);
+    setLibrary(prev => [...prev, snapshot]);
+    setName('');
+  };
+
+  // Slots above the removed preset move down with their preset
+  const remove = (index: number) => {
+    const last = Math.max(0, library.length - 2);
+    const shift = (slot: number) => Math.min(slot > index ? slot - 1 : slot, last);
+    setLibrary(prev => prev.filter((_, i) => i !== index));
+    setSlotA(shift);
+    setSlotB(shift);
+  };
+
+  const cycleRef = useRef(-1);
+  useEffect(() => {
+    if (advance === 0 || library.length === 0) return;
+    cycleRef.current = (cycleRef.current + 1) % library.length;
+    recall(cycleRef.current);
+  }, [advance]);
+
+  useEffect(() => {
+    if (recallRequest) recall(recallRequest.slot);
+  }, [recallRequest?.serial]);
+
+  // 1-9 recalls a slot instantly, Shift+1-9 morphs to it
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const match = e.code.match(/^Digit([1-9])$/);
+      if (!match) return;
+      const index = parseInt(match[1], 10) - 1;
+      if (e.shiftKey) morphTo(index);
+      else recall(index);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className={`fixed right-0 bottom-6 z-40 transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] flex items-end ${isOpen ? 'translate-x-0' : 'translate-x-[calc(100%-40px)]'}`}>
+        <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="w-10 h-32 bg-black/40 border-l border-y border-white/10 backdrop-blur-md flex flex-col items-center justify-center gap-4 hover:bg-white/5 transition-colors cursor-pointer group"
+        >
+            <div className="whitespace-nowrap -rotate-90 text-[10px] font-mono tracking-[0.3em] text-white/40 uppercase group-hover:text-acid transition-colors">
+                Presets
+            </div>
+            <div className={`w-1 h-1 bg-acid rounded-full transition-opacity ${isMorphing ? 'opacity-100 animate-pulse' : 'opacity-20'}`} />
+        </button>
+
+        <div className="w-80 bg-black/80 border-y border-l border-white/10 backdrop-blur-xl p-6 flex flex-col gap-4 shadow-2xl max-h-[40vh] overflow-y-auto custom-scrollbar">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    placeholder="SNAPSHOT NAME"
+                    onChange={e => setName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') save(); }}
+                    className="flex-1 bg-white/5 border border-white/10 p-2 text-[10px] font-mono uppercase focus:border-acid outline-none transition-colors"
+                />
+                <button
+                    onClick={save}
+                    disabled={library.length >= MAX_PRESET_SLOTS}
+                    className="px-3 text-[10px] font-mono uppercase tracking-widest bg-acid text-black font-bold hover:bg-white transition-colors disabled:opacity-30"
+                >
+                    Save
+                </button>
+            </div>
+
+            <div className="space-y-1">
+                {library.length === 0 && (
+                    <div className="text-[10px] font-mono text-white/30">No snapshots. Keys 1-9 recall, Shift+1-9 morph.</div>
+                )}
+                {library.map((preset, i) => (
+                    <div key={`${preset.createdAt}-${i}`} className="flex items-center gap-2 group">
+                        <span className="w-4 text-[10px] font-mono text-acid">{i + 1}</span>
+                        <button onClick={() => recall(i)} className="flex-1 text-left text-[10px] font-mono uppercase tracking-widest text-gray-400 hover:text-white truncate transition-colors">
+                            {preset.name}
+                        </button>
+                        <button onClick={() => setSlotA(i)} className={`w-5 text-[10px] font-mono border transition-colors ${slotA === i ? 'border-acid text-acid' : 'border-white/10 text-white/30 hover:border-white/30'}`}>A</button>
+                        <button onClick={() => setSlotB(i)} className={`w-5 text-[10px] font-mono border transition-colors ${slotB === i ? 'border-acid text-acid' : 'border-white/10 text-white/30 hover:border-white/30'}`}>B</button>
+                        <button onClick={() => remove(i)} className="text-white/20 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100">
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12"/></svg>
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {library.length >= 2 && (
+                <div className="space-y-3 border-t border-white/10 pt-4">
+                    <div className="flex justify-between items-baseline">
+                        <label className="text-[10px] font-mono uppercase tracking-widest text-gray-500">A / B Crossfade</label>
+                        <span className="text-[10px] font-mono text-white">{mix.toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.001}
+                        value={mix}
+                        onChange={e => handleCrossfade(parseFloat(e.target.value))}
+                        className="w-full accent-[#ccff00]"
+                    />
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={duration}
+                            onChange={e => setDuration(Number(e.target.value))}
+                            className="w-16 bg-white/5 border border-white/10 p-2 text-[10px] font-mono focus:border-acid outline-none transition-colors"
+                        />
+                        <span className="self-center text-[10px] font-mono text-white/30">SEC</span>
+                        <button
+                            onClick={isMorphing ? cancelMorph : morphAB}
+                            className="flex-1 py-2 text-[10px] font-mono uppercase tracking-widest border border-white/10 hover:border-acid hover:text-acid transition-colors"
+                        >
+                            {isMorphing ? 'Stop' : 'Morph A → B'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
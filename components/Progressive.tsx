@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+
+// --- Progressive Accumulation ---
+// Averages jittered frames into a float history texture. The scene pipeline draws one sample
+// into `sampleView`; `encode` folds it into the running mean and writes the result to `outputView`.
+
+// Halton(2, 3): low-discrepancy subpixel offsets, so every sample lands somewhere new
+const halton = (index: number, base: number) => {
+  let f = 1;
+  let r = 0;
+  for (let i = index; i > 0; i = Math.floor(i / base)) {
+    f /= base;
+    r += f * (i % base);
+  }
+  return r;
+};
+
+// Pixel offset in [-0.5, 0.5) for the given sample; sample 0 stays centered
+export const sampleJitter = (sample: number): [number, number] =>
+  sample === 0 ? [0, 0] : [halton(sample, 2) - 0.5, halton(sample, 3) - 0.5];
+
+const ACCUMULATE_WGSL = `
+@group(0) @binding(0) var sampleTex: texture_2d<f32>;
+@group(0) @binding(1) var historyTex: texture_2d<f32>;
+@group(0) @binding(2) var<uniform> weight: vec4f; // x = weight of the new sample (1 / sampleCount)
+
+struct Output {
+  @location(0) history: vec4f,
+  @location(1) color: vec4f,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) i: u32) -> @builtin(position) vec4f {
+  let pos = array<vec2f, 3>(vec2f(-1.0, -1.0), vec2f(3.0, -1.0), vec2f(-1.0, 3.0));
+  return vec4f(pos[i], 0.0, 1.0);
+}
+
+@fragment
+fn fs_main(@builtin(position) fragCoord: vec4f) -> Output {
+  let coord = vec2i(fragCoord.xy);
+  let mean = mix(textureLoad(historyTex, coord, 0), textureLoad(sampleTex, coord, 0), weight.x);
+  return Output(mean, vec4f(mean.rgb, 1.0));
+}
+`;
+
+export interface Accumulator {
+  readonly sampleView: any; // Render target for the next scene sample
+  readonly count: number; // Samples in the history so far
+  resize: (width: number, height: number) => void; // Resets when the size changes
+  reset: () => void;
+  encode: (encoder: any, outputView: any, addSample: boolean) => void; // addSample = false re-presents the history
+  destroy: () => void;
+}
+
+export const createAccumulator = (device: any, format: string): Accumulator => {
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      // 2 = FRAGMENT
+      { binding: 0, visibility: 2, texture: { sampleType: 'unfilterable-float' } },
+      { binding: 1, visibility: 2, texture: { sampleType: 'unfilterable-float' } },
+      { binding: 2, visibility: 2, buffer: { type: 'uniform' } },
+    ],
+  });
+  const module = device.createShaderModule({ label: 'Accumulate', code: ACCUMULATE_WGSL });
+  const pipeline = device.createRenderPipeline({
+    layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+    vertex: { module, entryPoint: 'vs_main' },
+    fragment: { module, entryPoint: 'fs_main', targets: [{ format: 'rgba32float' }, { format }] },
+    primitive: { topology: 'triangle-list' },
+  });
+  // 64 (UNIFORM) | 8 (COPY_DST) = 72
+  const weightBuffer = device.createBuffer({ size: 16, usage: 72 });
+
+  let width = 0;
+  let height = 0;
+  let sample: any = null;
+  let history: any[] = [];
+  let bindGroups: any[] = []; // [i] reads history[i], writes history[1 - i]
+  let current = 0;
+  let count = 0;
+
+  const release = () => {
+    sample?.destroy();
+    history.forEach(t => t.destroy());
+  };
+
+  const resize = (w: number, h: number) => {
+    if (w === width && h === height) return;
+    release();
+    width = w; height = h;
+    // 16 (RENDER_ATTACHMENT) | 4 (TEXTURE_BINDING) = 20
+    sample = device.createTexture({ size: [w, h, 1], format, usage: 20 });
+    history = [0, 1].map(() => device.createTexture({ size: [w, h, 1], format: 'rgba32float', usage: 20 }));
+    bindGroups = [0, 1].map(i => device.createBindGroup({
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: sample.createView() },
+        { binding: 1, resource: history[i].createView() },
+        { binding: 2, resource: { buffer: weightBuffer } },
+      ],
+    }));
+    current = 0;
+    count = 0;
+  };
+
+  const encode = (encoder: any, outputView: any, addSample: boolean) => {
+    if (addSample) count++;
+    // The first sample replaces whatever the history held
+    device.queue.writeBuffer(weightBuffer, 0, new Float32Array([addSample ? 1 / count : 0, 0, 0, 0]));
+    const pass = encoder.beginRenderPass({
+      colorAttachments: [
+        { view: history[1 - current].createView(), loadOp: 'clear', clearValue: { r: 0, g: 0, b: 0, a: 0 }, storeOp: 'store' },
+        { view: outputView, loadOp: 'clear', clearValue: { r: 0, g: 0, b: 0, a: 1 }, storeOp: 'store' },
+      ],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroups[current]);
+    pass.draw(3);
+    pass.end();
+    current = 1 - current;
+  };
+
+  return {
+    get sampleView() { return sample.createView(); },
+    get count() { return count; },
+    resize,
+    reset: () => { count = 0; },
+    encode,
+    destroy: () => { release(); weightBuffer.destroy(); },
+  };
+};
+
+// --- UI Component ---
+export interface ProgressiveSettings {
+  targetSamples: number;
+  waitForCapture: boolean; // Hold captures until the target is reached
+}
+
+export const DEFAULT_PROGRESSIVE_SETTINGS: ProgressiveSettings = { targetSamples: 256, waitForCapture: true };
+
+interface ProgressivePanelProps {
+  isOpen: boolean;
+  sampleCount: number;
+  onSettingsChange: (settings: ProgressiveSettings) => void;
+}
+
+export const ProgressivePanel: React.FC<ProgressivePanelProps> = ({ isOpen, sampleCount, onSettingsChange }) => {
+  const [settings, setSettings] = useState<ProgressiveSettings>(DEFAULT_PROGRESSIVE_SETTINGS);
+
+  useEffect(() => { onSettingsChange(settings); }, [settings]);
+
+  if (!isOpen) return null;
+
+  const progress = Math.min(1, sampleCount / Math.max(1, settings.targetSamples));
+
+  return (
+    <div
+        className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 h-9 bg-black/85 border border-white/10 backdrop-blur-xl font-mono text-[10px] uppercase tracking-widest"
+        onMouseDown={e => e.stopPropagation()}
+    >
+        <span className={progress >= 1 ? 'text-acid' : 'text-gray-400'}>
+            SPP {sampleCount}/{settings.targetSamples}
+        </span>
+        <div className="w-24 h-1 bg-white/10">
+            <div className="h-full bg-acid" style={{ width: `${progress * 100}%` }}></div>
+        </div>
+        <label className="flex items-center gap-2 text-gray-500">
+            Target
+            <input
+                type="number"
+                min={1}
+                value={settings.targetSamples}
+                onChange={e => { const v = parseInt(e.target.value, 10); if (v > 0) setSettings({ ...settings, targetSamples: v }); }}
+                className="w-16 bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none"
+            />
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer text-gray-500">
+            <input
+                type="checkbox"
+                checked={settings.waitForCapture}
+                onChange={e => setSettings({ ...settings, waitForCapture: e.target.checked })}
+                className="accent-[#ccff00]"
+            />
+            Capture waits
+        </label>
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { PresetValue, VideoConfig } from '../types';
+import type { WebGPURendererRef } from './FireRenderer';
+import { DEFAULT_VIDEO_CONFIG } from './UIComponents';
+
+// --- Remote Control ---
+// A WebSocket client for TouchDesigner, Ableton (via Max or an OSC bridge) and scripts. Every
+// text frame holds one or more newline-separated messages: an OSC-style address followed by
+// space-separated arguments, e.g. `/param/electricIntensity 12.0`. A frame may instead hold
+// JSON, `{ "address": "/camera/orbit", "args": [0.5, 1.2, 6] }` or an array of those.
+//
+//   /param/<id> <values...>    set a param; vectors and colors take one value per component
+//   /param/<id>                reply with its value
+//   /params                    reply with every param
+//   /camera/orbit <theta> <phi> <radius>, or no args to reply with the pose
+//   /capture [quality]         4K still, 1 = standard, 2 = ultra
+//   /record/start [duration] [fps] [webm|mp4|png]
+//   /record/stop
+//   /ping                      reply /pong
+//
+// While connected, changed params, the camera and `/record/state <0|1>` are streamed back in the
+// same format; problems come back as `/error <text>`.
+
+export interface RemoteMessage {
+  address: string;
+  args: (number | string)[];
+}
+
+export type RemoteConnection = 'disconnected' | 'connecting' | 'connected';
+
+export interface RemoteStatus {
+  connection: RemoteConnection;
+  url: string;
+  error: string | null;
+  received: number; // Messages handled since connecting
+  lastAddress: string | null;
+}
+
+export interface RemoteHost {
+  renderer: () => WebGPURendererRef | null;
+  isRecording: () => boolean;
+}
+
+export interface RemoteControl {
+  connect: (url: string) => void; // Reconnects with backoff until `disconnect`
+  disconnect: () => void;
+  handle: (text: string) => Promise<string[]>; // Applies one frame and resolves with the reply messages
+  destroy: () => void;
+}
+
+export const DEFAULT_REMOTE_URL = 'ws://localhost:8787';
+const URL_STORAGE_KEY = 'render-lab.remote-url';
+const STREAM_INTERVAL = 50; // Milliseconds between change scans
+const MAX_RETRY_DELAY = 10000;
+
+const parseArg = (token: string): number | string => {
+  const value = Number(token);
+  return token !== '' && isFinite(value) ? value : token;
+};
+
+// Text frames split on newlines; JSON frames start with `{` or `[`
+export const parseRemoteFrame = (text: string): RemoteMessage[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const doc = JSON.parse(trimmed);
+    return (Array.isArray(doc) ? doc : [doc])
+      .filter((m: any) => m && typeof m.address === 'string')
+      .map((m: any) => ({
+        address: m.address,
+        args: (Array.isArray(m.args) ? m.args : m.args === undefined ? [] : [m.args]).filter((a: any) => typeof a === 'number' || typeof a === 'string'),
+      }));
+  }
+  return trimmed.split('\n').map(line => line.trim().split(/\s+/)).filter(tokens => tokens[0].startsWith('/'))
+    .map(([address, ...args]) => ({ address, args: args.map(parseArg) }));
+};
+
+const formatNumber = (v: number) => String(Number(v.toPrecision(6)));
+
+export const formatRemoteMessage = (address: string, args: (number | string)[] = []): string =>
+  [address, ...args.map(a => (typeof a === 'number' ? formatNumber(a) : a))].join(' ');
+
+export const loadRemoteUrl = () => localStorage.getItem(URL_STORAGE_KEY) || DEFAULT_REMOTE_URL;
+
+// `onChange` reports the connection state for the panel.
+export const createRemoteControl = (host: RemoteHost, onChange: (status: RemoteStatus) => void): RemoteControl => {
+  let status: RemoteStatus = { connection: 'disconnected', url: loadRemoteUrl(), error: null, received: 0, lastAddress: null };
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let streamTimer: ReturnType<typeof setInterval> | null = null;
+  let retryDelay = 1000;
+  let wanted = false; // Reconnect after drops until the user disconnects
+  let sent = new Map<string, string>(); // Address -> last streamed message, so only changes go out
+
+  const report = (change: Partial<RemoteStatus>) => {
+    status = { ...status, ...change };
+    onChange(status);
+  };
+
+  const paramMessage = (id: string, value: PresetValue) => formatRemoteMessage(`/param/${id}`, typeof value === 'number' ? [value] : value);
+  const cameraMessage = (renderer: WebGPURendererRef) => {
+    const { theta, phi, radius } = renderer.getCamera();
+    return formatRemoteMessage('/camera/orbit', [theta, phi, radius]);
+  };
+
+  // Everything the stream tracks, keyed by address
+  const snapshot = (): Map<string, string> => {
+    const state = new Map<string, string>();
+    const renderer = host.renderer();
+    if (!renderer) return state;
+    renderer.getParams().forEach(p => state.set(`/param/${p.id}`, paramMessage(p.id, p.value)));
+    state.set('/camera/orbit', cameraMessage(renderer));
+    state.set('/record/state', formatRemoteMessage('/record/state', [host.isRecording() ? 1 : 0]));
+    return state;
+  };
+
+  const send = (messages: string[]) => {
+    if (messages.length && socket?.readyState === WebSocket.OPEN) socket.send(messages.join('\n'));
+  };
+
+  const stream = () => {
+    const state = snapshot();
+    const changed = [...state].filter(([address, message]) => sent.get(address) !== message).map(([, message]) => message);
+    sent = state;
+    send(changed);
+  };
+
+  const apply = async ({ address, args }: RemoteMessage): Promise<string[]> => {
+    const renderer = host.renderer();
+    if (!renderer) return [formatRemoteMessage('/error', ['renderer not ready'])];
+    const numbers = args.filter((a): a is number => typeof a === 'number');
+
+    const param = address.match(/^\/param\/(\w+)$/);
+    if (param) {
+      const current = renderer.getParams().find(p => p.id === param[1]);
+      if (!current) return [formatRemoteMessage('/error', [`unknown param ${param[1]}`])];
+      if (args.length === 0) return [paramMessage(current.id, current.value)];
+      const value = typeof current.value === 'number' ? numbers[0] : numbers;
+      if (numbers.length !== args.length || !renderer.setParam(current.id, value)) {
+        const expected = typeof current.value === 'number' ? 1 : current.value.length;
+        return [formatRemoteMessage('/error', [`${address} takes ${expected} number(s)`])];
+      }
+      return [];
+    }
+
+    switch (address) {
+      case '/params':
+        return renderer.getParams().map(p => paramMessage(p.id, p.value));
+      case '/camera/orbit':
+        if (args.length === 0) return [cameraMessage(renderer)];
+        if (numbers.length !== args.length || numbers.length > 3) return [formatRemoteMessage('/error', ['/camera/orbit takes theta phi radius'])];
+        renderer.setCamera({ theta: numbers[0], phi: numbers[1], radius: numbers[2] });
+        return [];
+      case '/capture':
+        renderer.capture(numbers[0] === 2 ? 2 : 1);
+        return [];
+      case '/record/start': {
+        if (host.isRecording()) return [formatRemoteMessage('/error', ['already recording'])];
+        const [duration, fps, format] = args;
+        const config: VideoConfig = { ...DEFAULT_VIDEO_CONFIG };
+        if (typeof duration === 'number' && duration > 0) config.duration = duration;
+        if (typeof fps === 'number' && fps > 0) config.fps = fps;
+        if (format === 'webm' || format === 'mp4' || format === 'png') config.format = format;
+        // The reason is shown in the app; the remote just learns that nothing is recording
+        if (!(await renderer.startVideo(config))) return [formatRemoteMessage('/error', ['recording failed to start'])];
+        return [];
+      }
+      case '/record/stop':
+        renderer.stopVideo();
+        return [];
+      case '/ping':
+        return ['/pong'];
+      default:
+        return [formatRemoteMessage('/error', [`unknown address ${address}`])];
+    }
+  };
+
+  const handle = async (text: string): Promise<string[]> => {
+    let messages: RemoteMessage[];
+    try {
+      messages = parseRemoteFrame(text);
+    } catch (e) {
+      return [formatRemoteMessage('/error', ['malformed JSON'])];
+    }
+    // In order, so a frame like `/record/start` then `/record/stop` does what it says
+    const replies: string[] = [];
+    for (const message of messages) replies.push(...await apply(message));
+    if (messages.length) report({ received: status.received + messages.length, lastAddress: messages[messages.length - 1].address });
+    return replies;
+  };
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (streamTimer) clearInterval(streamTimer);
+    retryTimer = streamTimer = null;
+  };
+
+  const open = () => {
+    clearTimers();
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(status.url);
+    } catch (e) {
+      wanted = false;
+      report({ connection: 'disconnected', error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    socket = ws;
+    report({ connection: 'connecting' });
+    ws.onopen = () => {
+      retryDelay = 1000;
+      sent = new Map();
+      report({ connection: 'connected', error: null, received: 0 });
+      stream(); // Full state first
+      streamTimer = setInterval(stream, STREAM_INTERVAL);
+    };
+    ws.onmessage = (e) => {
+      if (typeof e.data === 'string') handle(e.data).then(send);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      clearTimers();
+      if (!wanted) {
+        report({ connection: 'disconnected' });
+        return;
+      }
+      report({ connection: 'connecting', error: `Connection lost, retrying in ${Math.round(retryDelay / 1000)}s` });
+      retryTimer = setTimeout(open, retryDelay);
+      retryDelay = Math.min(MAX_RETRY_DELAY, retryDelay * 2);
+    };
+  };
+
+  const disconnect = () => {
+    wanted = false;
+    clearTimers();
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    report({ connection: 'disconnected', error: null });
+  };
+
+  return {
+    connect: (url: string) => {
+      disconnect();
+      localStorage.setItem(URL_STORAGE_KEY, url);
+      wanted = true;
+      retryDelay = 1000;
+      report({ url });
+      open();
+    },
+    disconnect,
+    handle,
+    destroy: disconnect,
+  };
+};
+
+// --- UI Component ---
+
+interface RemotePanelProps {
+  isOpen: boolean;
+  status: RemoteStatus;
+  onConnect: (url: string) => void;
+  onDisconnect: () => void;
+}
+
+const CONNECTION_COLORS: Record<RemoteConnection, string> = {
+  disconnected: 'text-white/20',
+  connecting: 'text-orange-400 animate-pulse',
+  connected: 'text-acid',
+};
+
+export const RemotePanel: React.FC<RemotePanelProps> = ({ isOpen, status, onConnect, onDisconnect }) => {
+  const [url, setUrl] = useState(status.url);
+
+  if (!isOpen) return null;
+
+  const idle = status.connection === 'disconnected';
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[420px] bg-black/85 border border-white/10 backdrop-blur-xl shadow-2xl font-mono text-[10px] animate-fade-in-up">
+        <div className="flex items-center gap-3 px-4 h-9 uppercase tracking-widest">
+            <span className={CONNECTION_COLORS[status.connection]}>●</span>
+            <span className="text-white">Remote</span>
+            <input
+                type="text"
+                value={url}
+                disabled={!idle}
+                onChange={e => setUrl(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter' && idle) onConnect(url.trim()); }}
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 px-2 py-0.5 normal-case text-white focus:border-acid outline-none disabled:text-gray-500"
+            />
+            <button
+                onClick={() => (idle ? onConnect(url.trim()) : onDisconnect())}
+                className={idle ? 'text-acid hover:text-white' : 'text-gray-500 hover:text-red-400'}
+            >
+                {idle ? 'Connect' : 'Disconnect'}
+            </button>
+        </div>
+        {(status.error || status.connection === 'connected') && (
+            <div className="px-4 py-2 border-t border-white/10 text-gray-500 truncate">
+                {status.error ?? `${status.received} message(s)${status.lastAddress ? ` · last ${status.lastAddress}` : ''}`}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,381 @@
+import { ShaderError } from '../types';
+import { parseAnnotation } from './ShaderParams';
+
+// --- Render Graph ---
+// A shader can split each frame into passes with `// @pass` directives:
+//   // @pass bufferA entry=fs_buffer_a format=rgba16float
+//   // @pass image entry=fs_main
+// Passes run in declaration order and `image` always runs last, drawing to the screen. Shaders
+// without directives are a single `image` pass with `fs_main`. A pass reads another pass's output
+// by declaring a group(1) texture named after it:
+//   @group(1) @binding(0) var bufferA: texture_2d<f32>;
+// Reading an earlier pass gives this frame's output; reading itself or a later pass gives the
+// previous frame's, through a ping-pong pair of textures per buffer pass.
+//
+// Compute passes run before any of these, in declaration order:
+//   // @compute sparks entry=cs_sparks dispatch=64,1,1 run=frame|once
+// They share group(2) resources with the fragment passes. Storage buffers and storage textures
+// are declared in the shader and sized by a trailing annotation; a fragment pass reads a storage
+// texture through a sampled texture that names it:
+//   @group(2) @binding(0) var<storage, read_write> sparks: array<Spark>; // @buffer size=65536
+//   @group(2) @binding(1) var noiseOut: texture_storage_3d<rgba16float, write>; // @texture name=noise size=64,64,64
+//   @group(2) @binding(2) var noise: texture_3d<f32>; // @texture name=noise
+// Resources keep their contents across frames until the shader is recompiled.
+
+export const IMAGE_PASS = 'image';
+export const PASS_INPUT_GROUP = 1;
+export const RESOURCE_GROUP = 2;
+const PASS_FORMATS = ['rgba8unorm', 'rgba16float'];
+const DEFAULT_PASS_FORMAT = 'rgba16float';
+const STORAGE_FORMATS = ['rgba8unorm', 'rgba8snorm', 'rgba8uint', 'rgba8sint', 'rgba16uint', 'rgba16sint', 'rgba16float', 'r32uint', 'r32sint', 'r32float', 'rg32uint', 'rg32sint', 'rg32float', 'rgba32uint', 'rgba32sint', 'rgba32float'];
+const STORAGE_ACCESS: Record<string, string> = { read: 'read-only', write: 'write-only', read_write: 'read-write' };
+
+const PASS_DIRECTIVE = /^\s*\/\/\s*@pass\s+(\w+)(.*)$/;
+const COMPUTE_DIRECTIVE = /^\s*\/\/\s*@compute\s+(\w+)(.*)$/;
+const TEXTURE_DECL = /var\s+(\w+)\s*:\s*texture_(2d|3d)\s*<\s*f32\s*>/;
+const STORAGE_BUFFER_DECL = /var\s*<\s*storage\s*(?:,\s*(read|read_write))?\s*>\s*(\w+)\s*:/;
+const STORAGE_TEXTURE_DECL = /var\s+(\w+)\s*:\s*texture_storage_(2d|3d)\s*<\s*(\w+)\s*,\s*(read|write|read_write)\s*>/;
+const RESOURCE_ANNOTATION = /\/\/\s*@(buffer|texture)\b(.*)$/;
+
+export interface PassDecl {
+  name: string;
+  entryPoint: string;
+  format: string; // Ignored for `image`, which renders in the output format
+  lineNum: number; // Directive line, 0 for the implicit image pass
+}
+
+export interface PassInput {
+  name: string; // Pass being read
+  binding: number;
+  lineNum: number;
+}
+
+export interface ComputeDecl {
+  name: string;
+  entryPoint: string;
+  dispatch: number[]; // Workgroup counts, x y z
+  once: boolean; // Run on the first frame only (e.g. precomputed noise)
+  lineNum: number;
+}
+
+export interface ResourceBinding {
+  resource: string; // Buffer or texture this binding refers to
+  binding: number;
+  kind: 'buffer' | 'storageTexture' | 'texture';
+  access: string; // WGSL access mode: read, write or read_write ('read' for sampled textures)
+  dimension: '2d' | '3d'; // Textures only
+  format?: string; // Storage textures
+  size?: number[]; // Bytes for buffers, texels for textures; from the annotation
+  lineNum: number;
+}
+
+export interface RenderGraphSpec {
+  passes: PassDecl[]; // Image last
+  inputs: PassInput[];
+  computes: ComputeDecl[];
+  bindings: ResourceBinding[]; // group(2)
+}
+
+const parseNumbers = (text: string | undefined) => (text ? text.split(',').map(Number) : undefined);
+
+export const parseRenderGraph = (code: string): RenderGraphSpec => {
+  const passes: PassDecl[] = [];
+  const inputs: PassInput[] = [];
+  const computes: ComputeDecl[] = [];
+  const bindings: ResourceBinding[] = [];
+
+  code.split('\n').forEach((line, i) => {
+    const directive = line.match(PASS_DIRECTIVE);
+    if (directive) {
+      const attrs = parseAnnotation(directive[2]);
+      passes.push({
+        name: directive[1],
+        entryPoint: attrs.entry || (directive[1] === IMAGE_PASS ? 'fs_main' : `fs_${directive[1]}`),
+        format: attrs.format || DEFAULT_PASS_FORMAT,
+        lineNum: i + 1,
+      });
+      return;
+    }
+    const compute = line.match(COMPUTE_DIRECTIVE);
+    if (compute) {
+      const attrs = parseAnnotation(compute[2]);
+      const dispatch = parseNumbers(attrs.dispatch) || [1];
+      computes.push({
+        name: compute[1],
+        entryPoint: attrs.entry || `cs_${compute[1]}`,
+        dispatch: [0, 1, 2].map(axis => dispatch[axis] ?? 1),
+        once: attrs.run === 'once',
+        lineNum: i + 1,
+      });
+      return;
+    }
+
+    const decl = line.replace(/\/\/.*$/, '');
+    const group = decl.match(/@group\s*\(\s*(\d+)\s*\)/);
+    const binding = decl.match(/@binding\s*\(\s*(\d+)\s*\)/);
+    if (!group || !binding) return;
+    const groupIndex = parseInt(group[1], 10);
+    const bindingIndex = parseInt(binding[1], 10);
+    const texture = decl.match(TEXTURE_DECL);
+
+    if (groupIndex === PASS_INPUT_GROUP && texture?.[2] === '2d') {
+      inputs.push({ name: texture[1], binding: bindingIndex, lineNum: i + 1 });
+    } else if (groupIndex === RESOURCE_GROUP) {
+      const annotation = line.match(RESOURCE_ANNOTATION);
+      const attrs = annotation ? parseAnnotation(annotation[2]) : {};
+      const size = parseNumbers(attrs.size);
+      const buffer = decl.match(STORAGE_BUFFER_DECL);
+      const storage = decl.match(STORAGE_TEXTURE_DECL);
+      const base = { binding: bindingIndex, size, lineNum: i + 1 };
+      if (buffer) {
+        bindings.push({ ...base, resource: buffer[2], kind: 'buffer', access: buffer[1] || 'read', dimension: '2d' });
+      } else if (storage) {
+        bindings.push({ ...base, resource: attrs.name || storage[1], kind: 'storageTexture', access: storage[4], dimension: storage[2] as '2d' | '3d', format: storage[3] });
+      } else if (texture) {
+        bindings.push({ ...base, resource: attrs.name || texture[1], kind: 'texture', access: 'read', dimension: texture[2] as '2d' | '3d' });
+      }
+    }
+  });
+
+  if (!passes.some(p => p.name === IMAGE_PASS)) {
+    passes.push({ name: IMAGE_PASS, entryPoint: 'fs_main', format: DEFAULT_PASS_FORMAT, lineNum: 0 });
+  }
+  return { passes, inputs, computes, bindings };
+};
+
+// Checks the graph against the source before any pipeline is built.
+export const validateRenderGraph = (spec: RenderGraphSpec, code: string): ShaderError | null => {
+  const fail = (message: string, lineNum: number): ShaderError =>
+    ({ type: 'validation', message: `Render Graph: ${message}`, lineNum: lineNum || undefined, linePos: lineNum ? 1 : undefined });
+
+  const seen = new Set<string>();
+  for (const pass of spec.passes) {
+    if (seen.has(pass.name)) return fail(`pass '${pass.name}' is declared twice.`, pass.lineNum);
+    seen.add(pass.name);
+    if (pass.name !== IMAGE_PASS && !PASS_FORMATS.includes(pass.format)) {
+      return fail(`pass '${pass.name}' has unsupported format '${pass.format}' (use ${PASS_FORMATS.join(' or ')}).`, pass.lineNum);
+    }
+    if (!new RegExp(`\\bfn\\s+${pass.entryPoint}\\s*\\(`).test(code)) {
+      return fail(`entry point '${pass.entryPoint}' for pass '${pass.name}' was not found.`, pass.lineNum);
+    }
+  }
+  const computeNames = new Set<string>();
+  for (const compute of spec.computes) {
+    if (computeNames.has(compute.name)) return fail(`compute pass '${compute.name}' is declared twice.`, compute.lineNum);
+    computeNames.add(compute.name);
+    if (!new RegExp(`\\bfn\\s+${compute.entryPoint}\\s*\\(`).test(code)) {
+      return fail(`entry point '${compute.entryPoint}' for compute pass '${compute.name}' was not found.`, compute.lineNum);
+    }
+    if (compute.dispatch.some(n => !Number.isInteger(n) || n < 1 || n > 65535)) {
+      return fail(`compute pass '${compute.name}' needs dispatch=x,y,z workgroup counts between 1 and 65535.`, compute.lineNum);
+    }
+  }
+  const image = spec.passes.findIndex(p => p.name === IMAGE_PASS);
+  if (image !== spec.passes.length - 1) return fail(`'${IMAGE_PASS}' must be the last pass.`, spec.passes[image].lineNum);
+
+  const bindings = new Set<number>();
+  for (const input of spec.inputs) {
+    if (bindings.has(input.binding)) return fail(`binding ${input.binding} of group ${PASS_INPUT_GROUP} is used twice.`, input.lineNum);
+    bindings.add(input.binding);
+    if (input.name === IMAGE_PASS) return fail(`the '${IMAGE_PASS}' pass cannot be read as a texture.`, input.lineNum);
+    if (!seen.has(input.name)) return fail(`'${input.name}' does not name a pass; group ${PASS_INPUT_GROUP} textures must match a '// @pass' name.`, input.lineNum);
+  }
+
+  const resourceBindings = new Set<number>();
+  const textures = new Map<string, ResourceBinding>(); // Sized storage texture per resource
+  for (const b of spec.bindings) {
+    if (resourceBindings.has(b.binding)) return fail(`binding ${b.binding} of group ${RESOURCE_GROUP} is used twice.`, b.lineNum);
+    resourceBindings.add(b.binding);
+    if (b.kind === 'buffer' && !(b.size?.length === 1 && b.size[0] >= 4 && b.size[0] % 4 === 0)) {
+      return fail(`storage buffer '${b.resource}' needs a '// @buffer size=<bytes>' annotation (a multiple of 4).`, b.lineNum);
+    }
+    if (b.kind === 'storageTexture') {
+      if (!STORAGE_FORMATS.includes(b.format!)) return fail(`'${b.format}' cannot be used as a storage texture format.`, b.lineNum);
+      if (b.size) {
+        if (b.size.length !== (b.dimension === '3d' ? 3 : 2) || b.size.some(n => !Number.isInteger(n) || n < 1)) {
+          return fail(`storage texture '${b.resource}' needs size=${b.dimension === '3d' ? 'w,h,d' : 'w,h'}.`, b.lineNum);
+        }
+        textures.set(b.resource, b);
+      }
+    }
+  }
+  for (const b of spec.bindings) {
+    if (b.kind === 'buffer') continue;
+    const sized = textures.get(b.resource);
+    if (!sized) {
+      return fail(b.kind === 'texture'
+        ? `texture '${b.resource}' in group ${RESOURCE_GROUP} must name a storage texture with '// @texture name=<resource>'.`
+        : `storage texture '${b.resource}' needs a '// @texture size=...' annotation.`, b.lineNum);
+    }
+    if (sized.dimension !== b.dimension || (b.format && b.format !== sized.format)) {
+      return fail(`'${b.resource}' is declared with different dimensions or formats.`, b.lineNum);
+    }
+  }
+  return null;
+};
+
+export interface RenderGraph {
+  readonly bufferPassCount: number;
+  // Runs the compute passes, then draws every pass for one frame; the image pass renders into
+  // `view`, buffers match its size. `simulate` false skips the compute passes (extra tiles of a still).
+  encode: (encoder: any, uniformBindGroup: any, view: any, width: number, height: number, simulate?: boolean) => void;
+  destroy: () => void;
+}
+
+const sampleTypeFor = (format: string) =>
+  format.endsWith('uint') ? 'uint' : format.endsWith('sint') ? 'sint' : format.endsWith('32float') ? 'unfilterable-float' : 'float';
+
+// One resource per name: storage buffers and the storage textures their sampled views point at
+const createResources = (device: any, bindings: ResourceBinding[]) => {
+  const resources = new Map<string, any>();
+  bindings.forEach(b => {
+    if (resources.has(b.resource) || !b.size) return;
+    if (b.kind === 'buffer') {
+      // 128 (STORAGE) | 8 (COPY_DST) = 136; created zeroed
+      resources.set(b.resource, device.createBuffer({ size: b.size[0], usage: 136 }));
+    } else if (b.kind === 'storageTexture') {
+      resources.set(b.resource, device.createTexture({
+        size: b.dimension === '3d' ? b.size : [...b.size, 1],
+        dimension: b.dimension,
+        format: b.format,
+        // 8 (STORAGE_BINDING) | 4 (TEXTURE_BINDING) = 12
+        usage: 12,
+      }));
+    }
+  });
+  return resources;
+};
+
+// Compute passes see storage bindings, render passes see buffers and sampled textures, so a
+// texture is never written and sampled within one pass.
+const stageBindings = (bindings: ResourceBinding[], stage: 'compute' | 'render') =>
+  bindings.filter(b => b.kind === 'buffer' || (b.kind === 'storageTexture') === (stage === 'compute'));
+
+const layoutEntry = (b: ResourceBinding, stage: 'compute' | 'render', format: string) => {
+  // 4 = COMPUTE, 2 = FRAGMENT
+  const entry: any = { binding: b.binding, visibility: stage === 'compute' ? 4 : 2 };
+  if (b.kind === 'buffer') entry.buffer = { type: b.access === 'read_write' ? 'storage' : 'read-only-storage' };
+  else if (b.kind === 'storageTexture') entry.storageTexture = { access: STORAGE_ACCESS[b.access], format, viewDimension: b.dimension };
+  else entry.texture = { viewDimension: b.dimension, sampleType: sampleTypeFor(format) };
+  return entry;
+};
+
+// Pipelines are created here; callers wrap this in a validation error scope.
+// `uniformLayout` must be visible to the compute stage when the spec declares compute passes.
+export const createRenderGraph = (device: any, module: any, spec: RenderGraphSpec, outputFormat: string, uniformLayout: any): RenderGraph => {
+  const resources = createResources(device, spec.bindings);
+  const formats = new Map(spec.bindings.filter(b => b.format).map(b => [b.resource, b.format!]));
+  const hasResources = spec.bindings.length > 0;
+
+  const inputLayout = spec.inputs.length > 0 || hasResources
+    ? device.createBindGroupLayout({
+        // 2 = FRAGMENT
+        entries: spec.inputs.map(input => ({ binding: input.binding, visibility: 2, texture: { sampleType: 'float' } })),
+      })
+    : null;
+  const emptyGroup = device.createBindGroup({ layout: device.createBindGroupLayout({ entries: [] }), entries: [] });
+
+  const resourceGroup = (stage: 'compute' | 'render') => {
+    const bindings = stageBindings(spec.bindings, stage);
+    const layout = device.createBindGroupLayout({ entries: bindings.map(b => layoutEntry(b, stage, formats.get(b.resource)!)) });
+    const group = device.createBindGroup({
+      layout,
+      entries: bindings.map(b => {
+        const resource = resources.get(b.resource);
+        return { binding: b.binding, resource: b.kind === 'buffer' ? { buffer: resource } : resource.createView() };
+      }),
+    });
+    return { layout, group };
+  };
+  const renderResources = hasResources ? resourceGroup('render') : null;
+  const computeResources = spec.computes.length > 0 ? resourceGroup('compute') : null;
+
+  const layout = device.createPipelineLayout({
+    bindGroupLayouts: [uniformLayout, ...(inputLayout ? [inputLayout] : []), ...(renderResources ? [renderResources.layout] : [])],
+  });
+  const computeLayout = computeResources && device.createPipelineLayout({
+    bindGroupLayouts: [uniformLayout, device.createBindGroupLayout({ entries: [] }), computeResources.layout],
+  });
+
+  const computes = spec.computes.map(compute => ({
+    ...compute,
+    pipeline: device.createComputePipeline({ layout: computeLayout, compute: { module, entryPoint: compute.entryPoint } }),
+  }));
+  let primed = false; // `run=once` passes have been dispatched
+
+  const passes = spec.passes.map(pass => {
+    const format = pass.name === IMAGE_PASS ? outputFormat : pass.format;
+    return {
+      ...pass,
+      format,
+      pipeline: device.createRenderPipeline({
+        layout,
+        vertex: { module, entryPoint: 'vs_main' },
+        fragment: { module, entryPoint: pass.entryPoint, targets: [{ format }] },
+        primitive: { topology: 'triangle-list' },
+      }),
+    };
+  });
+  const buffers = passes.slice(0, -1);
+
+  let width = 0;
+  let height = 0;
+  let textures: any[][] = []; // [buffer][parity]
+  let inputGroups: any[][] = []; // [parity][pass]
+  let frame = 0;
+
+  const resize = (w: number, h: number) => {
+    textures.flat().forEach(t => t.destroy());
+    width = w; height = h;
+    // 16 (RENDER_ATTACHMENT) | 4 (TEXTURE_BINDING) = 20
+    textures = buffers.map(b => [0, 1].map(() => device.createTexture({ size: [w, h, 1], format: b.format, usage: 20 })));
+    // Frame parity p writes textures[*][p]; earlier passes are read at p, the rest at 1 - p
+    inputGroups = spec.inputs.length > 0 ? [0, 1].map(parity => passes.map((_, q) => device.createBindGroup({
+      layout: inputLayout,
+      entries: spec.inputs.map(input => {
+        const source = buffers.findIndex(b => b.name === input.name);
+        return { binding: input.binding, resource: textures[source][source < q ? parity : 1 - parity].createView() };
+      }),
+    }))) : [];
+  };
+
+  const encode = (encoder: any, uniformBindGroup: any, view: any, w: number, h: number, simulate = true) => {
+    if (w !== width || h !== height) resize(w, h);
+    if (simulate) {
+      computes.forEach(compute => {
+        if (compute.once && primed) return;
+        const computePass = encoder.beginComputePass();
+        computePass.setPipeline(compute.pipeline);
+        computePass.setBindGroup(0, uniformBindGroup);
+        computePass.setBindGroup(PASS_INPUT_GROUP, emptyGroup);
+        computePass.setBindGroup(RESOURCE_GROUP, computeResources!.group);
+        computePass.dispatchWorkgroups(compute.dispatch[0], compute.dispatch[1], compute.dispatch[2]);
+        computePass.end();
+      });
+      primed = true;
+    }
+    const parity = frame % 2;
+    passes.forEach((pass, q) => {
+      const target = q < buffers.length ? textures[q][parity].createView() : view;
+      const renderPass = encoder.beginRenderPass({
+        colorAttachments: [{ view: target, clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }],
+      });
+      renderPass.setPipeline(pass.pipeline);
+      renderPass.setBindGroup(0, uniformBindGroup);
+      if (inputLayout) renderPass.setBindGroup(PASS_INPUT_GROUP, inputGroups[parity]?.[q] ?? emptyGroup);
+      if (renderResources) renderPass.setBindGroup(RESOURCE_GROUP, renderResources.group);
+      renderPass.draw(6);
+      renderPass.end();
+    });
+    frame++;
+  };
+
+  return {
+    bufferPassCount: buffers.length,
+    encode,
+    destroy: () => {
+      textures.flat().forEach(t => t.destroy());
+      resources.forEach(r => r.destroy());
+    },
+  };
+};
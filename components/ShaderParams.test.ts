@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStructLayout, getTypeLayout, parseStructs, reflectUniforms } from './ShaderParams';
+
+// Expected values come from the WGSL spec's alignment and size tables and the uniform
+// address space rules (16-byte array strides, nested structs rounded to 16).
+
+describe('getTypeLayout', () => {
+  it.each([
+    ['f32', 4, 4],
+    ['i32', 4, 4],
+    ['u32', 4, 4],
+    ['f16', 2, 2],
+    ['vec2f', 8, 8],
+    ['vec2<i32>', 8, 8],
+    ['vec3f', 16, 12],
+    ['vec3<u32>', 16, 12],
+    ['vec4f', 16, 16],
+    ['vec4h', 8, 8],
+    ['mat2x2f', 8, 16],
+    ['mat3x3f', 16, 48],
+    ['mat4x4f', 16, 64],
+    ['mat4x3f', 16, 64],
+    ['array<vec4f,4>', 16, 64],
+    ['array<vec3f, 2>', 16, 32],
+    ['array<mat2x2f,2>', 16, 32],
+    ['array<array<vec4f,2>,3>', 16, 96],
+  ])('%s has align %i and size %i', (type, align, size) => {
+    expect(getTypeLayout(type)).toEqual({ align, size });
+  });
+
+  it.each([
+    'array<f32,4>',
+    'array<vec2f,4>',
+    'array<vec4f>',
+    'texture_2d<f32>',
+  ])('rejects %s in a uniform buffer', (type) => {
+    expect(() => getTypeLayout(type)).toThrow();
+  });
+
+  it('lays out a struct by name', () => {
+    const structs = parseStructs('struct Light { pos: vec3f, power: f32 }\nstruct Tint { rgb: vec3f }');
+    expect(getTypeLayout('Light', structs)).toEqual({ align: 16, size: 16 });
+    expect(getTypeLayout('Tint', structs)).toEqual({ align: 16, size: 16 });
+  });
+});
+
+describe('calculateStructLayout', () => {
+  it.each([
+    {
+      name: 'vec3f followed by f32 packs into the vec3 padding',
+      code: 'struct Uniforms { a: vec3f, b: f32 }',
+      offsets: { a: 0, b: 12 },
+      struct: { align: 16, size: 16 },
+      size: 16,
+    },
+    {
+      name: 'vec2f followed by i32 and u32',
+      code: 'struct Uniforms { a: vec2f, b: i32, c: u32 }',
+      offsets: { a: 0, b: 8, c: 12 },
+      struct: { align: 8, size: 16 },
+      size: 16,
+    },
+    {
+      name: 'f32 followed by vec2f aligns to 8',
+      code: 'struct Uniforms { a: f32, b: vec2f, c: f32 }',
+      offsets: { a: 0, b: 8, c: 16 },
+      struct: { align: 8, size: 24 },
+      size: 32,
+    },
+    {
+      name: 'mat3x3f has 16-byte column stride',
+      code: 'struct Uniforms { a: f32, m: mat3x3f, b: f32 }',
+      offsets: { a: 0, m: 16, b: 64 },
+      struct: { align: 16, size: 80 },
+      size: 80,
+    },
+    {
+      name: 'mat4x4f',
+      code: 'struct Uniforms { a: f32, m: mat4x4f }',
+      offsets: { a: 0, m: 16 },
+      struct: { align: 16, size: 80 },
+      size: 80,
+    },
+    {
+      name: 'array<vec4f,N> has stride 16',
+      code: 'struct Uniforms { a: f32, colors: array<vec4f, 3>, b: f32 }',
+      offsets: { a: 0, colors: 16, b: 64 },
+      struct: { align: 16, size: 80 },
+      size: 80,
+    },
+    {
+      name: 'nested struct is aligned and rounded to 16',
+      code: 'struct Inner { v: f32 }\nstruct Uniforms { a: f32, inner: Inner, b: f32 }',
+      offsets: { a: 0, inner: 16, 'inner.v': 16, b: 32 },
+      struct: { align: 16, size: 48 },
+      size: 48,
+    },
+    {
+      name: 'nested struct with vec3 padding',
+      code: 'struct Light { pos: vec3f, power: f32 }\nstruct Uniforms { light: Light, tint: vec3f, gain: f32 }',
+      offsets: { light: 0, 'light.pos': 0, 'light.power': 12, tint: 16, gain: 28 },
+      struct: { align: 16, size: 32 },
+      size: 32,
+    },
+    {
+      name: '@align moves a member and raises the struct alignment',
+      code: 'struct Uniforms {\n  a: f32,\n  @align(16) b: f32,\n  c: f32,\n}',
+      offsets: { a: 0, b: 16, c: 20 },
+      struct: { align: 16, size: 32 },
+      size: 32,
+    },
+    {
+      name: '@size reserves space after a member',
+      code: 'struct Uniforms {\n  @size(16) a: f32,\n  b: f32,\n}',
+      offsets: { a: 0, b: 16 },
+      struct: { align: 4, size: 20 },
+      size: 32,
+    },
+    {
+      name: 'typical uniform block',
+      code: [
+        'struct Uniforms {',
+        '  time: f32,',
+        '  resolution: vec2f,',
+        '  mouse: vec4f,',
+        '  color: vec3f, // @param type=color',
+        '  intensity: f32, // @param min=0 max=1',
+        '  view: mat4x4f,',
+        '  steps: i32,',
+        '}',
+      ].join('\n'),
+      offsets: { time: 0, resolution: 8, mouse: 16, color: 32, intensity: 44, view: 48, steps: 112 },
+      struct: { align: 16, size: 128 },
+      size: 128,
+    },
+  ])('$name', ({ code, offsets, struct, size }) => {
+    const structs = parseStructs(code);
+    const layout = calculateStructLayout(structs.Uniforms, structs);
+    expect(layout.offsetMap).toEqual(offsets);
+    expect(layout.size).toBe(size);
+    expect(getTypeLayout('Uniforms', structs)).toEqual(struct);
+  });
+
+  it('rejects array<f32,N> as a member', () => {
+    const structs = parseStructs('struct Uniforms { a: f32, weights: array<f32, 4> }');
+    expect(() => calculateStructLayout(structs.Uniforms, structs)).toThrow(/stride/);
+  });
+});
+
+describe('reflectUniforms', () => {
+  it('reflects the Uniforms struct and its nested structs', () => {
+    const { fields, layout } = reflectUniforms([
+      'struct Light { pos: vec3f, power: f32 }',
+      'struct Uniforms {',
+      '  time: f32,',
+      '  key: Light,',
+      '}',
+      '@group(0) @binding(0) var<uniform> u: Uniforms;',
+    ].join('\n'));
+    expect(fields.map(f => f.name)).toEqual(['time', 'key']);
+    expect(layout.offsetMap).toEqual({ time: 0, key: 16, 'key.pos': 16, 'key.power': 28 });
+    expect(layout.typeMap).toEqual({ time: 'f32', key: 'Light', 'key.pos': 'vec3<f32>', 'key.power': 'f32' });
+    expect(layout.size).toBe(32);
+  });
+
+  it('yields an empty layout without a Uniforms struct', () => {
+    expect(reflectUniforms('fn main() {}').layout).toEqual({ size: 0, offsetMap: {}, typeMap: {} });
+  });
+});
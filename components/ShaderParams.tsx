@@ -1,30 +1,528 @@
 import React, { useState } from 'react';
-import { ShaderParam, UniformLayout } from '../types';
+import { FloatParam, IntParam, PresetValue, ShaderError, ShaderParam, UniformLayout, UniformField } from '../types';
+
+// --- Shader Reflection ---
+// Params are declared in WGSL by annotating members of `struct Uniforms`:
+//   electricSpeed: f32, // @param label="Arc Speed" min=0 max=5 default=0.8
+// An annotation on its own comment line applies to the member that follows it.
+const PARAM_ANNOTATION = /@param\b(.*)$/;
+const MEMBER_DECL = /^\s*((?:@\w+(?:\([^)]*\))?\s*)*)(\w+)\s*:\s*([\w<>,\s]+?)\s*,?\s*(?:\/\/(.*))?$/;
+
+export const parseAnnotation = (text: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const pattern = /(\w+)\s*=\s*(?:"([^"]*)"|(\S+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    attrs[match[1]] = match[2] !== undefined ? match[2] : match[3];
+  }
+  return attrs;
+};
+
+const parseMemberAttribute = (attrs: string, name: string): number | undefined => {
+  const match = attrs.match(new RegExp(`@${name}\\s*\\(\\s*(\\d+)\\s*\\)`));
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+const parseInlineMembers = (body: string, lineNum: number): UniformField[] =>
+  splitTopLevel(body)
+    .map(decl => decl.match(/^\s*((?:@\w+(?:\([^)]*\))?\s*)*)(\w+)\s*:\s*(.+?)\s*$/))
+    .filter((member): member is RegExpMatchArray => member !== null)
+    .map(member => ({
+      name: member[2],
+      type: member[3].replace(/\s+/g, ''),
+      lineNum,
+      align: parseMemberAttribute(member[1], 'align'),
+      size: parseMemberAttribute(member[1], 'size'),
+    }));
+
+export type StructTable = Record<string, UniformField[]>;
+
+// Every `struct Name { ... }` declared in the source, keyed by name.
+export const parseStructs = (code: string): StructTable => {
+  const lines = code.split('\n');
+  const structs: StructTable = {};
+  let current: UniformField[] | null = null;
+  let pending: Record<string, string> | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!current) {
+      const header = line.match(/^\s*struct\s+(\w+)\s*\{(.*)$/);
+      if (!header) continue;
+      const body = header[2].match(/^(.*)\}/);
+      // One-line declaration: `struct Light { pos: vec3f, power: f32 }`
+      structs[header[1]] = body ? parseInlineMembers(body[1], i + 1) : [];
+      if (!body) current = structs[header[1]];
+      pending = undefined;
+      continue;
+    }
+
+    if (/^\s*\}/.test(line)) {
+      current = null;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) {
+      const annotation = trimmed.match(PARAM_ANNOTATION);
+      if (annotation) pending = parseAnnotation(annotation[1]);
+      continue;
+    }
+
+    const member = line.match(MEMBER_DECL);
+    if (!member) continue;
+
+    const inline = member[4] ? member[4].match(PARAM_ANNOTATION) : null;
+    current.push({
+      name: member[2],
+      type: member[3].replace(/\s+/g, ''),
+      lineNum: i + 1,
+      align: parseMemberAttribute(member[1], 'align'),
+      size: parseMemberAttribute(member[1], 'size'),
+      annotation: inline ? parseAnnotation(inline[1]) : pending,
+    });
+    pending = undefined;
+  }
+
+  return structs;
+};
+
+export const parseUniformStruct = (code: string, structName: string = 'Uniforms'): UniformField[] | null =>
+  parseStructs(code)[structName] || null;
+
+// --- Uniform Layout ---
+// Alignment and size follow the WGSL spec's memory layout tables, plus the extra
+// rules of the uniform address space: arrays and nested structs align to 16 bytes,
+// array strides must be a multiple of 16, and a nested struct member occupies
+// roundUp(16, size) bytes before the next member may start.
+export interface TypeLayout {
+  align: number;
+  size: number;
+}
+
+const roundUp = (k: number, n: number) => Math.ceil(n / k) * k;
+
+const SHORTHAND_SCALARS: Record<string, string> = { f: 'f32', i: 'i32', u: 'u32', h: 'f16' };
+
+const SCALAR_LAYOUTS: Record<string, TypeLayout> = {
+  'f32': { align: 4, size: 4 },
+  'i32': { align: 4, size: 4 },
+  'u32': { align: 4, size: 4 },
+  'f16': { align: 2, size: 2 },
+};
+
+// 'vec3f' -> 'vec3<f32>', 'mat4x4f' -> 'mat4x4<f32>'; other spellings pass through.
+export const normalizeWGSLType = (type: string): string => {
+  const compact = type.replace(/\s+/g, '');
+  const shorthand = compact.match(/^(vec[234]|mat[234]x[234])([fiuh])$/);
+  if (shorthand) return `${shorthand[1]}<${SHORTHAND_SCALARS[shorthand[2]]}>`;
+  const [base, args] = splitTemplate(compact);
+  return args.length > 0 ? `${base}<${args.map(normalizeWGSLType).join(',')}>` : compact;
+};
+
+// Splits on commas that are not inside template brackets; empty trailing pieces are dropped.
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '<') depth++;
+    else if (text[i] === '>') depth--;
+    else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.filter(part => part.trim() !== '');
+};
+
+// 'array<vec4<f32>,4>' -> ['array', ['vec4<f32>', '4']]
+const splitTemplate = (type: string): [string, string[]] => {
+  const open = type.indexOf('<');
+  if (open === -1 || !type.endsWith('>')) return [type, []];
+  return [type.slice(0, open), splitTopLevel(type.slice(open + 1, -1))];
+};
+
+export const getTypeLayout = (type: string, structs: StructTable = {}): TypeLayout => {
+  const normalized = normalizeWGSLType(type);
+  if (SCALAR_LAYOUTS[normalized]) return SCALAR_LAYOUTS[normalized];
+
+  const [base, args] = splitTemplate(normalized);
+
+  const vec = base.match(/^vec([234])$/);
+  if (vec) {
+    const n = parseInt(vec[1], 10);
+    const scalar = getTypeLayout(args[0]);
+    return { align: (n === 2 ? 2 : 4) * scalar.size, size: n * scalar.size };
+  }
+
+  const mat = base.match(/^mat([234])x([234])$/);
+  if (mat) {
+    const column = getTypeLayout(`vec${mat[2]}<${args[0]}>`);
+    return { align: column.align, size: parseInt(mat[1], 10) * roundUp(column.align, column.size) };
+  }
+
+  if (base === 'array') {
+    const count = parseInt(args[1], 10);
+    if (isNaN(count)) throw new Error(`Array '${type}' needs a literal element count to live in a uniform buffer`);
+    const element = getTypeLayout(args[0], structs);
+    const stride = getArrayStride(element);
+    if (stride % 16 !== 0) throw new Error(`Array '${type}' has a ${stride}-byte stride; uniform arrays need a multiple of 16`);
+    return { align: roundUp(16, element.align), size: count * stride };
+  }
+
+  if (structs[normalized]) {
+    return layoutStructMembers(structs[normalized], structs, '', 0, {}, {});
+  }
+
+  throw new Error(`Unknown WGSL type '${type}'`);
+};
+
+const getArrayStride = (element: TypeLayout) => roundUp(element.align, element.size);
+
+// Lays out struct members, recording absolute offsets (nested members as 'outer.inner').
+const layoutStructMembers = (
+  fields: UniformField[],
+  structs: StructTable,
+  prefix: string,
+  baseOffset: number,
+  offsetMap: Record<string, number>,
+  typeMap: Record<string, string>
+): TypeLayout => {
+  let offset = 0;
+  let structAlign = 1;
+
+  fields.forEach(field => {
+    const type = normalizeWGSLType(field.type);
+    const member = getTypeLayout(type, structs);
+    const nested = structs[type];
+
+    const align = field.align ?? (nested ? roundUp(16, member.align) : member.align);
+    const size = field.size ?? member.size;
+
+    offset = roundUp(align, offset);
+    offsetMap[prefix + field.name] = baseOffset + offset;
+    typeMap[prefix + field.name] = type;
+    if (nested) layoutStructMembers(nested, structs, `${prefix}${field.name}.`, baseOffset + offset, offsetMap, typeMap);
+
+    offset += nested ? roundUp(16, size) : size;
+    structAlign = Math.max(structAlign, align);
+  });
+
+  return { align: structAlign, size: roundUp(structAlign, offset) };
+};
+
+// Offsets of every member of a parsed struct, so builtins and params land where WGSL expects them.
+// Throws if a member's type cannot be laid out (unknown type, invalid uniform array).
+export const calculateStructLayout = (fields: UniformField[], structs: StructTable = {}): UniformLayout => {
+  const offsetMap: Record<string, number> = {};
+  const typeMap: Record<string, string> = {};
+  const struct = layoutStructMembers(fields, structs, '', 0, offsetMap, typeMap);
+  return { size: roundUp(16, struct.size), offsetMap, typeMap };
+};
+
+export interface UniformReflection {
+  fields: UniformField[];
+  structs: StructTable;
+  layout: UniformLayout;
+}
+
+// Parses `struct Uniforms` (plus any structs it nests) out of the shader source and lays it out.
+export const reflectUniforms = (code: string): UniformReflection => {
+  const structs = parseStructs(code);
+  const fields = structs.Uniforms || [];
+  return { fields, structs, layout: calculateStructLayout(fields, structs) };
+};
+
+// --- Layout Verification ---
+// The JS layout is checked against the GPU's own view of the struct: a compute entry
+// point appended to the shader copies every scalar component of the uniform variable
+// into a storage buffer, while the uniform buffer is filled with words tagged by their
+// own index. Reading a component back tells us the byte offset WGSL actually used.
+const PROBE_TAG = 0x5a000000;
+const MAX_PROBE_COMPONENTS = 1024;
+const PROBE_ENTRY_POINT = 'layout_probe_main';
+// Kept clear of the groups the renderer and pass inputs use
+export const PROBE_GROUP = 3;
+
+export interface ProbeComponent {
+  member: string; // Top-level member name in `Uniforms`
+  path: string; // e.g. 'light.pos[2]'
+  offset: number; // Byte offset the JS layout expects
+}
+
+export interface LayoutProbe {
+  code: string;
+  entryPoint: string;
+  components: ProbeComponent[];
+  sentinel: Uint32Array; // Initial contents of the probe's uniform buffer
+}
+
+// Expands a member into one accessor per scalar component, with the offset JS expects for it.
+const collectProbeComponents = (
+  expr: string,
+  path: string,
+  type: string,
+  offset: number,
+  member: string,
+  structs: StructTable,
+  out: { expr: string; component: ProbeComponent }[]
+) => {
+  if (out.length >= MAX_PROBE_COMPONENTS) return;
+
+  if (type === 'f32' || type === 'i32' || type === 'u32') {
+    out.push({ expr, component: { member, path, offset } });
+    return;
+  }
+
+  const [base, args] = splitTemplate(type);
+
+  const vec = base.match(/^vec([234])$/);
+  if (vec && args[0] !== 'f16') {
+    for (let i = 0; i < parseInt(vec[1], 10); i++) {
+      collectProbeComponents(`${expr}[${i}]`, `${path}[${i}]`, args[0], offset + i * 4, member, structs, out);
+    }
+    return;
+  }
+
+  const mat = base.match(/^mat([234])x([234])$/);
+  if (mat && args[0] !== 'f16') {
+    const columnType = `vec${mat[2]}<${args[0]}>`;
+    const column = getTypeLayout(columnType);
+    for (let c = 0; c < parseInt(mat[1], 10); c++) {
+      collectProbeComponents(`${expr}[${c}]`, `${path}[${c}]`, columnType, offset + c * roundUp(column.align, column.size), member, structs, out);
+    }
+    return;
+  }
+
+  if (base === 'array') {
+    const stride = getArrayStride(getTypeLayout(args[0], structs));
+    for (let e = 0; e < parseInt(args[1], 10); e++) {
+      collectProbeComponents(`${expr}[${e}]`, `${path}[${e}]`, args[0], offset + e * stride, member, structs, out);
+    }
+    return;
+  }
+
+  if (structs[type]) {
+    const nested = calculateStructLayout(structs[type], structs);
+    structs[type].forEach(field => {
+      collectProbeComponents(`${expr}.${field.name}`, `${path}.${field.name}`, normalizeWGSLType(field.type), offset + nested.offsetMap[field.name], member, structs, out);
+    });
+  }
+};
+
+// Builds the probe shader for a reflected struct, or null if the shader has no `var<uniform> x: Uniforms`.
+export const buildLayoutProbe = (code: string, reflection: UniformReflection): LayoutProbe | null => {
+  const binding = code.match(/var\s*<\s*uniform\s*>\s*(\w+)\s*:\s*Uniforms\b/);
+  if (!binding || reflection.fields.length === 0) return null;
+
+  const accessors: { expr: string; component: ProbeComponent }[] = [];
+  reflection.fields.forEach(field => {
+    collectProbeComponents(
+      `${binding[1]}.${field.name}`, field.name, normalizeWGSLType(field.type),
+      reflection.layout.offsetMap[field.name], field.name, reflection.structs, accessors
+    );
+  });
+  if (accessors.length === 0) return null;
+
+  const probeCode = `${code}
+@group(${PROBE_GROUP}) @binding(0) var<storage, read_write> layoutProbeOut: array<u32>;
+
+@compute @workgroup_size(1)
+fn ${PROBE_ENTRY_POINT}() {
+${accessors.map((a, i) => `  layoutProbeOut[${i}] = bitcast<u32>(${a.expr});`).join('\n')}
+}
+`;
+
+  const sentinel = new Uint32Array(reflection.layout.size / 4);
+  for (let i = 0; i < sentinel.length; i++) sentinel[i] = (PROBE_TAG | i) >>> 0;
+
+  return { code: probeCode, entryPoint: PROBE_ENTRY_POINT, components: accessors.map(a => a.component), sentinel };
+};
+
+// Compares the words read back by the probe with the offsets JS expects.
+export const verifyLayoutProbe = (probe: LayoutProbe, words: Uint32Array, fields: UniformField[]): ShaderError | null => {
+  for (let i = 0; i < probe.components.length; i++) {
+    const component = probe.components[i];
+    const word = words[i] >>> 0;
+    const tagged = ((word & 0xff000000) >>> 0) === PROBE_TAG;
+    const actual = tagged ? (word & 0x00ffffff) * 4 : -1;
+    if (actual === component.offset) continue;
+
+    const field = fields.find(f => f.name === component.member);
+    return {
+      type: 'validation',
+      message: `Uniform layout mismatch on '${component.path}': JS writes it at byte offset ${component.offset}, ` +
+        (tagged ? `but WGSL reads it from byte offset ${actual}.` : `but WGSL reads it from outside the uniform buffer.`),
+      lineNum: field?.lineNum,
+      linePos: 1,
+    };
+  }
+  return null;
+};
+
+// --- Param Reflection ---
+const parseNumbers = (text: string | undefined): number[] =>
+  (text || '').split(',').map(v => parseFloat(v)).filter(v => !isNaN(v));
+
+// Number of scalar components a param must supply for a WGSL type.
+const componentCount = (type: string): number => {
+  const normalized = normalizeWGSLType(type);
+  if (SCALAR_LAYOUTS[normalized]) return 1;
+  const [base, args] = splitTemplate(normalized);
+  const vec = base.match(/^vec([234])$/);
+  if (vec) return parseInt(vec[1], 10);
+  const mat = base.match(/^mat([234])x([234])$/);
+  if (mat) return parseInt(mat[1], 10) * parseInt(mat[2], 10);
+  if (base === 'array') return parseInt(args[1], 10) * componentCount(args[0]);
+  return 0;
+};
+
+const fillComponents = (defaults: number[], count: number, fallback: (i: number) => number): number[] =>
+  Array.from({ length: count }, (_, i) => defaults[i] ?? (defaults.length === 1 ? defaults[0] : fallback(i)));
+
+// Builds the panel's param list from annotated struct members. Values of params that
+// survive a recompile (same id, type and component count) are carried over from `previous`.
+export const paramsFromUniformFields = (fields: UniformField[], previous: ShaderParam[] = []): ShaderParam[] => {
+  const params: ShaderParam[] = [];
+
+  fields.forEach(field => {
+    const attrs = field.annotation;
+    if (!attrs) return;
+
+    const id = field.name;
+    const label = attrs.label || field.name;
+    const defaults = parseNumbers(attrs.default);
+    const type = normalizeWGSLType(field.type);
+    const [base, args] = splitTemplate(type);
+    const min = attrs.min !== undefined ? parseFloat(attrs.min) : 0.0;
+    let param: ShaderParam | null = null;
+
+    if (type === 'f32' && (!attrs.type || attrs.type === 'float')) {
+      const max = attrs.max !== undefined ? parseFloat(attrs.max) : 1.0;
+      param = {
+        id, label, type: 'float',
+        value: defaults.length > 0 ? defaults[0] : min,
+        min, max,
+        step: attrs.step !== undefined ? parseFloat(attrs.step) : undefined,
+      };
+    } else if (type === 'i32' || type === 'u32') {
+      const max = attrs.max !== undefined ? parseFloat(attrs.max) : 10;
+      param = { id, label, type: 'int', value: defaults.length > 0 ? Math.round(defaults[0]) : min, min, max };
+    } else if (base === 'vec2' && args[0] === 'f32') {
+      const [x, y] = fillComponents(defaults, 2, () => 0);
+      param = { id, label, type: 'vec2', value: [x, y] };
+    } else if ((base === 'vec3' || base === 'vec4') && args[0] === 'f32' && (attrs.type === 'color' || base === 'vec3')) {
+      const [r, g, b] = fillComponents(defaults, 3, () => 0);
+      param = attrs.type === 'color'
+        ? { id, label, type: 'color', value: [r, g, b] }
+        : { id, label, type: 'vec3', value: [r, g, b] };
+    } else if (base === 'vec4' && args[0] === 'f32') {
+      const [x, y, z, w] = fillComponents(defaults, 4, () => 0);
+      param = { id, label, type: 'vec4', value: [x, y, z, w] };
+    } else if (/^mat[234]x[234]$/.test(base) && args[0] === 'f32') {
+      const rows = parseInt(base[5], 10);
+      // Identity unless a default is given
+      param = { id, label, type: 'matrix', value: fillComponents(defaults, componentCount(type), i => (Math.floor(i / rows) === i % rows ? 1 : 0)) };
+    } else if (base === 'array' && componentCount(type) > 0) {
+      param = { id, label, type: 'array', value: fillComponents(defaults, componentCount(type), () => 0) };
+    }
+
+    if (!param) {
+      console.warn(`@param on '${field.name}' ignored: unsupported type '${field.type}'`);
+      return;
+    }
+
+    const prev = previous.find(p => p.id === param!.id && p.type === param!.type);
+    const sameShape = prev && (typeof prev.value === 'number' || (prev.value as number[]).length === (param.value as number[]).length);
+    if (prev && sameShape) param = { ...param, value: prev.value } as ShaderParam;
+    params.push(param);
+  });
+
+  return params;
+};
 
 // --- Logic ---
+// WGSL type used for a param when no reflected struct says otherwise.
+const paramWGSLType = (param: ShaderParam): string => {
+  switch (param.type) {
+    case 'float': return 'f32';
+    case 'int': return 'i32';
+    case 'vec2': return 'vec2<f32>';
+    case 'color':
+    case 'vec3': return 'vec3<f32>';
+    case 'vec4': return 'vec4<f32>';
+    case 'matrix': return param.value.length === 9 ? 'mat3x3<f32>' : 'mat4x4<f32>';
+    case 'array': return `array<vec4<f32>,${Math.ceil(param.value.length / 4)}>`;
+  }
+};
+
 export const calculateUniformLayout = (params: ShaderParam[], startOffset: number = 0): UniformLayout => {
   let currentOffset = startOffset;
-  const offsetMap: any = {};
+  const offsetMap: Record<string, number> = {};
+  const typeMap: Record<string, string> = {};
 
   params.forEach(param => {
-    let alignment = 4;
-    let size = 4;
+    const type = paramWGSLType(param);
+    const member = getTypeLayout(type);
+    currentOffset = roundUp(member.align, currentOffset);
+    offsetMap[param.id] = currentOffset;
+    typeMap[param.id] = type;
+    currentOffset += member.size;
+  });
 
-    if (param.type === 'color' || param.type === 'vec3') {
-      alignment = 16;
-      size = 16;
+  return { size: roundUp(16, currentOffset), offsetMap, typeMap };
+};
+
+interface ScalarViews {
+  f32: Float32Array;
+  i32: Int32Array;
+  u32: Uint32Array;
+}
+
+// Writes flattened components starting at `cursor`, following the WGSL layout of `type`:
+// matrix columns and array elements are placed at their padded strides.
+// Returns the cursor past the consumed components.
+const writeTypedValue = (views: ScalarViews, byteOffset: number, type: string, values: number[], cursor: number = 0): number => {
+  if (type === 'f32' || type === 'i32' || type === 'u32') {
+    const value = values[cursor];
+    if (value !== undefined) views[type][byteOffset / 4] = type === 'f32' ? value : Math.round(value);
+    return cursor + 1;
+  }
+
+  const [base, args] = splitTemplate(type);
+
+  const vec = base.match(/^vec([234])$/);
+  if (vec) {
+    const scalar = getTypeLayout(args[0]);
+    for (let i = 0; i < parseInt(vec[1], 10); i++) {
+      cursor = writeTypedValue(views, byteOffset + i * scalar.size, args[0], values, cursor);
     }
+    return cursor;
+  }
 
-    const padding = (alignment - (currentOffset % alignment)) % alignment;
-    currentOffset += padding;
-    offsetMap[param.id] = currentOffset;
-    currentOffset += size;
-  });
+  const mat = base.match(/^mat([234])x([234])$/);
+  if (mat) {
+    const columnType = `vec${mat[2]}<${args[0]}>`;
+    const column = getTypeLayout(columnType);
+    for (let c = 0; c < parseInt(mat[1], 10); c++) {
+      cursor = writeTypedValue(views, byteOffset + c * roundUp(column.align, column.size), columnType, values, cursor);
+    }
+    return cursor;
+  }
 
-  const totalPadding = (16 - (currentOffset % 16)) % 16;
-  const totalSize = currentOffset + totalPadding;
+  if (base === 'array') {
+    const stride = getArrayStride(getTypeLayout(args[0]));
+    for (let e = 0; e < parseInt(args[1], 10); e++) {
+      cursor = writeTypedValue(views, byteOffset + e * stride, args[0], values, cursor);
+    }
+    return cursor;
+  }
 
-  return { size: totalSize, offsetMap };
+  // f16 and struct-typed members have no param representation
+  return cursor + componentCount(type);
 };
 
 export const writeParamsToBuffer = (
@@ -32,37 +530,87 @@ export const writeParamsToBuffer = (
   params: ShaderParam[], 
   layout: UniformLayout
 ) => {
+  const views: ScalarViews = {
+    f32: data,
+    i32: new Int32Array(data.buffer, data.byteOffset, data.length),
+    u32: new Uint32Array(data.buffer, data.byteOffset, data.length),
+  };
+
   params.forEach(param => {
-    const floatOffset = layout.offsetMap[param.id] / 4;
-    if (param.type === 'float') {
-      data[floatOffset] = param.value;
-    } else if (param.type === 'color' || param.type === 'vec3') {
-      data[floatOffset] = param.value[0];
-      data[floatOffset + 1] = param.value[1];
-      data[floatOffset + 2] = param.value[2];
-    }
+    const byteOffset = layout.offsetMap[param.id];
+    if (byteOffset === undefined) return;
+    const type = layout.typeMap?.[param.id] ?? paramWGSLType(param);
+    const values = typeof param.value === 'number' ? [param.value] : param.value;
+    writeTypedValue(views, byteOffset, type, values);
   });
 };
 
 // --- UI Component ---
+// Range input drawn as a hairline track with a diamond thumb
+export const ParamSlider: React.FC<{ param: FloatParam | IntParam; modulated?: number; onChange: (value: number) => void }> = ({ param, modulated, onChange }) => (
+    <div className="relative h-4 flex items-center">
+        <input
+            type="range"
+            min={param.min}
+            max={param.max}
+            step={param.type === 'int' ? 1 : param.step || 0.01}
+            value={param.value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full z-10 opacity-0 absolute inset-0 cursor-pointer"
+        />
+        <div className="w-full h-[1px] bg-white/20 relative">
+            <div 
+                className="absolute top-0 bottom-0 bg-white transition-all duration-75"
+                style={{ width: `${((param.value - param.min) / (param.max - param.min)) * 100}%` }}
+            />
+        </div>
+        <div 
+            className="absolute w-2 h-2 bg-acid rotate-45 pointer-events-none transition-all duration-75"
+            style={{ left: `${((param.value - param.min) / (param.max - param.min)) * 100}%`, transform: 'translateX(-50%) rotate(45deg)' }}
+        />
+        {modulated !== undefined && (
+            <div
+                className="absolute w-px h-3 bg-acid/70 pointer-events-none"
+                style={{ left: `${((modulated - param.min) / (param.max - param.min)) * 100}%` }}
+            />
+        )}
+    </div>
+);
+
 interface ParamsControlPanelProps {
   params: ShaderParam[];
   setParams: React.Dispatch<React.SetStateAction<ShaderParam[]>>;
   description?: string;
+  children?: React.ReactNode; // Extra sections below the shader params
+  modulated?: Record<string, PresetValue>; // Live values of modulated params, shown beside the base value
+  // MIDI learn: while armed, clicking a float or int param picks it; `bindings` labels mapped params
+  learn?: { armed: boolean; target: string | null; bindings: Record<string, string>; onPick: (paramId: string) => void };
 }
 
-export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params, setParams, description }) => {
+export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params, setParams, description, children, modulated, learn }) => {
   const [isOpen, setIsOpen] = useState(true);
 
   const handleFloatChange = (id: string, newVal: number) => {
     setParams(prev => prev.map(p => {
-      if (p.id === id && p.type === 'float') {
+      if (p.id === id && (p.type === 'float' || p.type === 'int')) {
         return { ...p, value: newVal };
       }
       return p;
     }));
   };
 
+  const handleComponentChange = (id: string, index: number, newVal: number) => {
+    if (isNaN(newVal)) return;
+    setParams(prev => prev.map(p => {
+      if (p.id === id && Array.isArray(p.value)) {
+        const value = [...p.value];
+        value[index] = newVal;
+        return { ...p, value } as ShaderParam;
+      }
+      return p;
+    }));
+  };
+
   const handleColorChange = (id: string, hex: string) => {
     const r = parseInt(hex.slice(1, 3), 16) / 255;
     const g = parseInt(hex.slice(3, 5), 16) / 255;
@@ -127,39 +675,27 @@ export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params,
 
             <div className="shrink-0 space-y-6">
                 <div className="text-[10px] font-mono uppercase tracking-widest text-white/30 mb-4">Parameter Control</div>
-                {params.map(param => (
-                <div key={param.id} className="group shrink-0">
+                {params.map(param => {
+                const learnable = learn?.armed && (param.type === 'float' || param.type === 'int');
+                const live = modulated?.[param.id];
+                return (
+                <div key={param.id} className={`group shrink-0 relative ${learnable ? `outline outline-1 outline-offset-4 ${learn!.target === param.id ? 'outline-acid' : 'outline-white/20'}` : ''}`}>
+                    {learnable && (
+                        <button onClick={() => learn!.onPick(param.id)} className="absolute -inset-1 z-20 cursor-pointer" title="Map to the next knob moved" />
+                    )}
                     <div className="flex justify-between items-baseline mb-3">
                         <label className="text-xs font-mono uppercase tracking-widest text-gray-400 group-hover:text-acid transition-colors select-none">
                             {param.label}
+                            {learn?.bindings[param.id] && <span className="ml-2 text-[9px] text-acid/70">{learn.bindings[param.id]}</span>}
                         </label>
                         <span className="text-[10px] font-mono text-white">
-                            {param.type === 'float' ? param.value.toFixed(2) : ''}
+                            {param.type === 'float' ? param.value.toFixed(2) : param.type === 'int' ? param.value : ''}
+                            {typeof live === 'number' && <span className="ml-2 text-acid">~{live.toFixed(2)}</span>}
                         </span>
                     </div>
 
-                    {param.type === 'float' && (
-                        <div className="relative h-4 flex items-center">
-                            <input
-                                type="range"
-                                min={param.min}
-                                max={param.max}
-                                step={param.step || 0.01}
-                                value={param.value}
-                                onChange={(e) => handleFloatChange(param.id, parseFloat(e.target.value))}
-                                className="w-full z-10 opacity-0 absolute inset-0 cursor-pointer"
-                            />
-                            <div className="w-full h-[1px] bg-white/20 relative">
-                                <div 
-                                    className="absolute top-0 bottom-0 bg-white transition-all duration-75"
-                                    style={{ width: `${((param.value - param.min) / (param.max - param.min)) * 100}%` }}
-                                />
-                            </div>
-                            <div 
-                                className="absolute w-2 h-2 bg-acid rotate-45 pointer-events-none transition-all duration-75"
-                                style={{ left: `${((param.value - param.min) / (param.max - param.min)) * 100}%`, transform: 'translateX(-50%) rotate(45deg)' }}
-                            />
-                        </div>
+                    {(param.type === 'float' || param.type === 'int') && (
+                        <ParamSlider param={param} modulated={typeof live === 'number' ? live : undefined} onChange={value => handleFloatChange(param.id, value)} />
                     )}
 
                     {(param.type === 'color' || param.type === 'vec3') && (
@@ -174,11 +710,32 @@ export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params,
                                 <div className="absolute inset-0.5" style={{ backgroundColor: rgbToHex(param.value) }}></div>
                             </div>
                             <div className="font-mono text-[10px] self-center text-white/50">{rgbToHex(param.value)}</div>
+                            {Array.isArray(live) && (
+                                <div className="w-8 h-8 shrink-0 border border-acid/60" style={{ backgroundColor: rgbToHex(live as [number, number, number]) }} title="Modulated" />
+                            )}
+                        </div>
+                    )}
+
+                    {(param.type === 'vec2' || param.type === 'vec4' || param.type === 'matrix' || param.type === 'array') && (
+                        <div className={`grid gap-1 ${param.type === 'vec2' ? 'grid-cols-2' : param.type === 'matrix' && param.value.length === 9 ? 'grid-cols-3' : 'grid-cols-4'}`}>
+                            {param.value.map((component, i) => (
+                                <input
+                                    key={i}
+                                    type="number"
+                                    step={0.01}
+                                    value={component}
+                                    onChange={(e) => handleComponentChange(param.id, i, parseFloat(e.target.value))}
+                                    className="w-full bg-white/5 border border-white/10 px-1 py-0.5 text-[10px] font-mono text-white focus:border-acid outline-none transition-colors"
+                                />
+                            ))}
                         </div>
                     )}
                 </div>
-                ))}
+                );
+                })}
             </div>
+
+            {children}
         </div>
     </div>
   );
@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EasingType, Keyframe, ShaderParam, Timeline } from '../types';
+import { blendPresetParams } from './Presets';
+
+// --- Evaluation ---
+// Tracks hold keyframes per param ID. Between two keys the value is interpolated with
+// the easing of the earlier key; colors blend in linear light like preset morphs do.
+export const DEFAULT_BEZIER: [number, number, number, number] = [0.42, 0, 0.58, 1];
+const KEY_TIME_EPSILON = 1e-3;
+
+export const createTimeline = (): Timeline => ({ duration: 10, loop: true, tracks: [] });
+
+// y of a CSS cubic-bezier curve at x, found by bisection on the curve parameter.
+const cubicBezierEase = ([x1, y1, x2, y2]: [number, number, number, number], x: number): number => {
+  const sample = (a: number, b: number, t: number) => 3 * (1 - t) * (1 - t) * t * a + 3 * (1 - t) * t * t * b + t * t * t;
+  let lo = 0;
+  let hi = 1;
+  let t = x;
+  for (let i = 0; i < 32; i++) {
+    const cx = sample(x1, x2, t);
+    if (Math.abs(cx - x) < 1e-6) break;
+    if (cx < x) lo = t; else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return sample(y1, y2, t);
+};
+
+const easeSegment = (key: Keyframe, u: number): number => {
+  switch (key.easing) {
+    case 'step': return 0;
+    case 'bezier': return cubicBezierEase(key.bezier || DEFAULT_BEZIER, u);
+    default: return u;
+  }
+};
+
+// Maps a clock time into the timeline: wrapped when looping, clamped otherwise.
+export const wrapTimelineTime = (timeline: Timeline, t: number): number => {
+  const d = timeline.duration;
+  if (d <= 0) return 0;
+  return timeline.loop ? ((t % d) + d) % d : Math.min(Math.max(t, 0), d);
+};
+
+// Params with every keyframed value replaced by its value at clock time `t`.
+export const evaluateTimeline = (timeline: Timeline, params: ShaderParam[], t: number): ShaderParam[] => {
+  if (timeline.tracks.length === 0) return params;
+  const time = wrapTimelineTime(timeline, t);
+
+  return params.map(param => {
+    const keys = timeline.tracks.find(track => track.paramId === param.id)?.keyframes;
+    if (!keys || keys.length === 0) return param;
+
+    let i = 0;
+    while (i < keys.length - 1 && keys[i + 1].time <= time) i++;
+    const from = keys[i];
+    const to = time <= from.time || i === keys.length - 1 ? from : keys[i + 1];
+    const u = to === from ? 1 : easeSegment(from, (time - from.time) / (to.time - from.time));
+
+    return blendPresetParams([param], { [param.id]: from.value }, { [param.id]: to.value }, u)[0];
+  });
+};
+
+// --- Editing ---
+const withTrack = (timeline: Timeline, paramId: string, edit: (keys: Keyframe[]) => Keyframe[]): Timeline => {
+  const existing = timeline.tracks.find(track => track.paramId === paramId);
+  const keyframes = edit(existing ? existing.keyframes : []).sort((a, b) => a.time - b.time);
+  const others = timeline.tracks.filter(track => track.paramId !== paramId);
+  return { ...timeline, tracks: keyframes.length > 0 ? [...others, { paramId, keyframes }] : others };
+};
+
+// Adds a key at `time`, replacing one that already sits there (keeping its easing).
+export const setKeyframe = (timeline: Timeline, param: ShaderParam, time: number): Timeline =>
+  withTrack(timeline, param.id, keys => {
+    const value = typeof param.value === 'number' ? param.value : [...param.value];
+    const index = keys.findIndex(k => Math.abs(k.time - time) < KEY_TIME_EPSILON);
+    if (index === -1) return [...keys, { time, value, easing: 'linear' }];
+    return keys.map((k, i) => (i === index ? { ...k, value } : k));
+  });
+
+export const updateKeyframe = (timeline: Timeline, paramId: string, index: number, patch: Partial<Keyframe>): Timeline =>
+  withTrack(timeline, paramId, keys => keys.map((k, i) => (i === index ? { ...k, ...patch } : k)));
+
+export const removeKeyframe = (timeline: Timeline, paramId: string, index: number): Timeline =>
+  withTrack(timeline, paramId, keys => keys.filter((_, i) => i !== index));
+
+// --- UI Component ---
+interface TimelinePanelProps {
+  isOpen: boolean;
+  timeline: Timeline;
+  setTimeline: React.Dispatch<React.SetStateAction<Timeline>>;
+  params: ShaderParam[];
+  setParams: React.Dispatch<React.SetStateAction<ShaderParam[]>>;
+  onTimeChange: (time: number) => void;
+}
+
+interface KeySelection {
+  paramId: string;
+  time: number; // Keys are re-sorted while dragging, so they are tracked by time
+}
+
+const formatTime = (t: number) => `${Math.floor(t / 60)}:${(t % 60).toFixed(2).padStart(5, '0')}`;
+
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ isOpen, timeline, setTimeline, params, setParams, onTimeChange }) => {
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [dock, setDock] = useState<'bottom' | 'top'>('bottom');
+  const [activeParam, setActiveParam] = useState<string>('');
+  const [selected, setSelected] = useState<KeySelection | null>(null);
+  const laneRef = useRef<HTMLDivElement>(null);
+
+  const timeRef = useRef(time);
+  useEffect(() => { timeRef.current = time; onTimeChange(time); }, [time]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) * 0.001;
+      last = now;
+      const next = timeRef.current + dt;
+      if (!timeline.loop && next >= timeline.duration) {
+        setTime(timeline.duration);
+        setIsPlaying(false);
+        return;
+      }
+      setTime(wrapTimelineTime(timeline, next));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, timeline.loop, timeline.duration]);
+
+  const laneTimeAt = (clientX: number) => {
+    const rect = laneRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * timeline.duration;
+  };
+
+  // Scrubbing shows the keyed values in the params panel as well
+  const scrubTo = (t: number) => {
+    setTime(t);
+    setParams(prev => evaluateTimeline(timeline, prev, t));
+  };
+
+  const startScrub = (e: React.MouseEvent) => {
+    setIsPlaying(false);
+    scrubTo(laneTimeAt(e.clientX));
+    const move = (ev: MouseEvent) => scrubTo(laneTimeAt(ev.clientX));
+    const up = () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const startKeyDrag = (e: React.MouseEvent, paramId: string, keyTime: number) => {
+    e.stopPropagation();
+    let current = keyTime;
+    setSelected({ paramId, time: current });
+    const move = (ev: MouseEvent) => {
+      const from = current;
+      const next = laneTimeAt(ev.clientX);
+      setTimeline(prev => {
+        const keys = prev.tracks.find(t => t.paramId === paramId)?.keyframes || [];
+        const index = keys.findIndex(k => Math.abs(k.time - from) < KEY_TIME_EPSILON);
+        return index === -1 ? prev : updateKeyframe(prev, paramId, index, { time: next });
+      });
+      current = next;
+      setSelected({ paramId, time: next });
+    };
+    const up = () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const addKey = () => {
+    const param = params.find(p => p.id === activeParam);
+    if (!param) return;
+    setTimeline(prev => setKeyframe(prev, param, time));
+    setSelected({ paramId: param.id, time });
+  };
+
+  const selectedTrack = selected ? timeline.tracks.find(t => t.paramId === selected.paramId) : undefined;
+  const selectedIndex = selectedTrack ? selectedTrack.keyframes.findIndex(k => Math.abs(k.time - selected!.time) < KEY_TIME_EPSILON) : -1;
+  const selectedKey = selectedIndex !== -1 ? selectedTrack!.keyframes[selectedIndex] : null;
+
+  const patchSelected = (patch: Partial<Keyframe>) => {
+    if (!selected || selectedIndex === -1) return;
+    setTimeline(prev => updateKeyframe(prev, selected.paramId, selectedIndex, patch));
+  };
+
+  const deleteSelected = () => {
+    if (!selected || selectedIndex === -1) return;
+    setTimeline(prev => removeKeyframe(prev, selected.paramId, selectedIndex));
+    setSelected(null);
+  };
+
+  if (!isOpen) return null;
+
+  const playheadPct = timeline.duration > 0 ? (time / timeline.duration) * 100 : 0;
+
+  return (
+    <div
+        className={`fixed left-0 right-0 z-40 bg-black/85 backdrop-blur-xl border-white/10 font-mono text-[10px] ${dock === 'bottom' ? 'bottom-0 border-t' : 'top-10 border-b'}`}
+        onMouseDown={e => e.stopPropagation()}
+    >
+        {/* Transport */}
+        <div className="flex items-center gap-4 px-4 h-9 border-b border-white/10">
+            <button onClick={() => setIsPlaying(!isPlaying)} className="w-14 py-1 uppercase tracking-widest border border-white/10 hover:border-acid hover:text-acid transition-colors">
+                {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <span className="text-acid w-16">{formatTime(time)}</span>
+            <label className="flex items-center gap-2 text-gray-500 uppercase tracking-widest">
+                Length
+                <input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={timeline.duration}
+                    onChange={e => setTimeline(prev => ({ ...prev, duration: Math.max(0.5, Number(e.target.value)) }))}
+                    className="w-14 bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none"
+                />
+            </label>
+            <button
+                onClick={() => setTimeline(prev => ({ ...prev, loop: !prev.loop }))}
+                className={`px-2 py-1 uppercase tracking-widest border transition-colors ${timeline.loop ? 'border-acid text-acid' : 'border-white/10 text-gray-500'}`}
+            >
+                Loop
+            </button>
+
+            <div className="flex items-center gap-2 ml-4">
+                <select
+                    value={activeParam}
+                    onChange={e => setActiveParam(e.target.value)}
+                    className="bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none"
+                >
+                    <option value="">PARAM…</option>
+                    {params.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <button onClick={addKey} disabled={!activeParam} className="px-2 py-1 uppercase tracking-widest bg-acid text-black font-bold hover:bg-white transition-colors disabled:opacity-30">
+                    Key
+                </button>
+            </div>
+
+            {selectedKey && (
+                <div className="flex items-center gap-2 ml-4 text-gray-400">
+                    <span className="uppercase tracking-widest">Ease</span>
+                    <select
+                        value={selectedKey.easing}
+                        onChange={e => patchSelected({ easing: e.target.value as EasingType })}
+                        className="bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none"
+                    >
+                        <option value="linear">LINEAR</option>
+                        <option value="bezier">BEZIER</option>
+                        <option value="step">STEP</option>
+                    </select>
+                    {selectedKey.easing === 'bezier' && (selectedKey.bezier || DEFAULT_BEZIER).map((v, i) => (
+                        <input
+                            key={i}
+                            type="number"
+                            step={0.05}
+                            value={v}
+                            onChange={e => {
+                                const bezier = [...(selectedKey.bezier || DEFAULT_BEZIER)] as [number, number, number, number];
+                                bezier[i] = Number(e.target.value);
+                                patchSelected({ bezier });
+                            }}
+                            className="w-12 bg-white/5 border border-white/10 px-1 py-0.5 text-white focus:border-acid outline-none"
+                        />
+                    ))}
+                    <button onClick={deleteSelected} className="px-2 py-1 uppercase tracking-widest text-red-500 hover:bg-red-900/40 transition-colors">Delete</button>
+                </div>
+            )}
+
+            <button onClick={() => setDock(dock === 'bottom' ? 'top' : 'bottom')} className="ml-auto px-2 py-1 uppercase tracking-widest text-gray-500 hover:text-white transition-colors">
+                Dock {dock === 'bottom' ? 'Top' : 'Bottom'}
+            </button>
+        </div>
+
+        {/* Ruler + Lanes */}
+        <div className="flex">
+            <div className="w-40 shrink-0 border-r border-white/10">
+                <div className="h-5 border-b border-white/10" />
+                {timeline.tracks.map(track => (
+                    <div key={track.paramId} className="h-6 px-3 flex items-center text-gray-400 uppercase tracking-widest truncate">
+                        {params.find(p => p.id === track.paramId)?.label || track.paramId}
+                    </div>
+                ))}
+            </div>
+            <div ref={laneRef} className="relative flex-1 cursor-ew-resize" onMouseDown={startScrub}>
+                <div className="h-5 border-b border-white/10 relative">
+                    {Array.from({ length: Math.floor(timeline.duration) + 1 }, (_, s) => (
+                        <span key={s} className="absolute top-0.5 text-white/30" style={{ left: `${(s / timeline.duration) * 100}%` }}>{s}s</span>
+                    ))}
+                </div>
+                {timeline.tracks.map(track => (
+                    <div key={track.paramId} className="h-6 relative border-b border-white/5">
+                        {track.keyframes.map((key, i) => {
+                            const isSelected = selected?.paramId === track.paramId && i === selectedIndex;
+                            return (
+                                <div
+                                    key={i}
+                                    onMouseDown={e => startKeyDrag(e, track.paramId, key.time)}
+                                    className={`absolute top-1/2 w-2.5 h-2.5 cursor-pointer ${isSelected ? 'bg-white' : key.easing === 'step' ? 'bg-white/40' : 'bg-acid'}`}
+                                    style={{ left: `${(key.time / timeline.duration) * 100}%`, transform: 'translate(-50%, -50%) rotate(45deg)' }}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+                {timeline.tracks.length === 0 && (
+                    <div className="h-6 px-3 flex items-center text-white/30">Pick a param and press Key to start animating it.</div>
+                )}
+                <div className="absolute top-0 bottom-0 w-px bg-acid pointer-events-none" style={{ left: `${playheadPct}%` }} />
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ShaderError, VideoConfig, ShotType } from '../types';
-import Editor, { useMonaco } from '@monaco-editor/react';
+import { DiagnosticSeverity, RenderProgress, ShaderDiagnostic, ShaderError, TiledCaptureOptions, VideoConfig, ShotType } from '../types';
+import Editor, { OnMount, useMonaco } from '@monaco-editor/react';
 
 // --- Types ---
 export interface MenuItem {
@@ -34,7 +34,7 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onClose }) =>
     });
   };
 
-  const isValidation = error.message.includes("Validation") || error.message.includes("Pipeline");
+  const isValidation = error.type === 'validation' || error.message.includes("Validation") || error.message.includes("Pipeline");
 
   return (
     <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-8 animate-fade-in-up">
@@ -90,9 +90,10 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onClose }) =>
                         <label className="text-[10px] font-mono text-gray-600 uppercase tracking-widest">Troubleshooting</label>
                         <ul className="list-disc pl-4 text-xs font-mono text-gray-400 space-y-1">
                             {error.message.includes("Invalid CommandBuffer") && <li>Command encoding failed due to a previous error.</li>}
-                            {error.message.includes("buffer size") && <li>Buffer size mismatch. Uniform struct > 512 bytes?</li>}
+                            {error.message.includes("buffer size") && <li>Buffer size mismatch. Uniform struct {'>'} 512 bytes?</li>}
                             {error.message.includes("TextureView") && <li>Resizing canvas to 0x0?</li>}
                             {error.message.includes("layout") && <li>WGSL struct padding doesn't match JS Float32Array.</li>}
+                            {error.message.includes("Uniform layout mismatch") && error.lineNum && <li>Check the member declared on line {error.lineNum} of the Uniforms struct.</li>}
                             {error.message.includes("Pipeline") && <li>Shader inputs/outputs don't match pipeline definition.</li>}
                         </ul>
                      </div>
@@ -206,16 +207,18 @@ interface VideoExportProps {
     onStartRecord: (config: VideoConfig) => void;
 }
 
+export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
+    duration: 5,
+    fps: 60,
+    bitrate: 12,
+    shotType: 'orbit',
+    orchestrate: false,
+    postProcess: { grain: 0.05, aberration: 0.05 },
+    format: 'webm'
+};
+
 export const VideoExportOverlay: React.FC<VideoExportProps> = ({ isOpen, onClose, onStartRecord }) => {
-    const [config, setConfig] = useState<VideoConfig>({
-        duration: 5,
-        fps: 60,
-        bitrate: 12,
-        shotType: 'orbit',
-        orchestrate: false,
-        postProcess: { grain: 0.05, aberration: 0.05 },
-        format: 'webm'
-    });
+    const [config, setConfig] = useState<VideoConfig>(DEFAULT_VIDEO_CONFIG);
 
     if (!isOpen) return null;
 
@@ -225,7 +228,7 @@ export const VideoExportOverlay: React.FC<VideoExportProps> = ({ isOpen, onClose
                 <h2 className="text-2xl font-bold mb-6 tracking-tighter">Render Sequence</h2>
                 
                 <div className="space-y-6 mb-8">
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
                         <div>
                             <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Duration (Sec)</label>
                             <input type="number" value={config.duration} onChange={e => setConfig({...config, duration: Number(e.target.value)})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors" />
@@ -237,12 +240,36 @@ export const VideoExportOverlay: React.FC<VideoExportProps> = ({ isOpen, onClose
                                 <option value="60">60 FPS</option>
                             </select>
                         </div>
+                        <div>
+                            <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Output</label>
+                            <select value={config.format} onChange={e => setConfig({...config, format: e.target.value as VideoConfig['format']})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors appearance-none">
+                                <option value="webm">WebM</option>
+                                <option value="mp4">MP4</option>
+                                <option value="png">PNG Seq (Zip)</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Soundtrack</label>
+                        <div className="flex gap-2">
+                            <label className="flex-1 min-w-0 bg-white/5 border border-white/10 p-2 text-sm font-mono cursor-pointer hover:border-acid transition-colors truncate">
+                                <span className={config.soundtrack ? 'text-white' : 'text-gray-500'}>{config.soundtrack ? config.soundtrack.name : 'None — choose an audio file…'}</span>
+                                <input type="file" accept="audio/*" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) setConfig({...config, soundtrack: file}); }} />
+                            </label>
+                            {config.soundtrack && (
+                                <button onClick={() => setConfig({...config, soundtrack: undefined})} className="px-3 text-[10px] font-mono uppercase border border-white/10 text-gray-500 hover:text-white hover:border-white/30 transition-colors">Clear</button>
+                            )}
+                        </div>
+                        {config.soundtrack && (
+                            <p className="mt-2 text-[10px] font-mono text-gray-600">Drives the audio uniforms frame by frame{config.format === 'png' ? '; PNG sequences carry no audio track' : ' and is muxed into the file'}.</p>
+                        )}
                     </div>
                     
                     <div>
                         <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Camera Movement</label>
                         <div className="grid grid-cols-3 gap-2">
-                            {(['orbit', 'sweep', 'dolly', 'breathing', 'chaos'] as ShotType[]).map(type => (
+                            {(['orbit', 'sweep', 'dolly', 'breathing', 'chaos', 'path'] as ShotType[]).map(type => (
                                 <button
                                     key={type}
                                     onClick={() => setConfig({...config, shotType: type})}
@@ -270,8 +297,102 @@ export const VideoExportOverlay: React.FC<VideoExportProps> = ({ isOpen, onClose
     );
 };
 
-export const RecordingIndicator: React.FC<{ isRecording: boolean; timeLeft: number; onStop: () => void }> = ({ isRecording, timeLeft, onStop }) => {
+interface StillExportProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onStartCapture: (options: TiledCaptureOptions) => void;
+}
+
+const STILL_SIZES: { label: string; width: number; height: number }[] = [
+    { label: '4K', width: 3840, height: 2160 },
+    { label: '8K', width: 7680, height: 4320 },
+    { label: '16K', width: 15360, height: 8640 },
+    { label: 'A3 300dpi', width: 4961, height: 3508 },
+];
+
+export const StillExportOverlay: React.FC<StillExportProps> = ({ isOpen, onClose, onStartCapture }) => {
+    const [options, setOptions] = useState<TiledCaptureOptions>({ width: 7680, height: 4320, tileSize: 2048, format: 'png' });
+
+    if (!isOpen) return null;
+
+    const columns = Math.ceil(options.width / Math.max(1, options.tileSize));
+    const rows = Math.ceil(options.height / Math.max(1, options.tileSize));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="w-[500px] bg-void border border-white/10 p-8 shadow-2xl animate-fade-in-up">
+                <h2 className="text-2xl font-bold mb-6 tracking-tighter">Render Still</h2>
+
+                <div className="space-y-6 mb-8">
+                    <div className="grid grid-cols-4 gap-2">
+                        {STILL_SIZES.map(size => (
+                            <button
+                                key={size.label}
+                                onClick={() => setOptions({ ...options, width: size.width, height: size.height })}
+                                className={`p-2 text-[10px] font-mono uppercase border transition-all ${options.width === size.width && options.height === size.height ? 'border-acid text-acid bg-acid/10' : 'border-white/10 text-gray-500 hover:border-white/30'}`}
+                            >
+                                {size.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-4">
+                        <div>
+                            <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Width (px)</label>
+                            <input type="number" min={1} value={options.width} onChange={e => setOptions({...options, width: Number(e.target.value)})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors" />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Height (px)</label>
+                            <input type="number" min={1} value={options.height} onChange={e => setOptions({...options, height: Number(e.target.value)})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors" />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Tile (px)</label>
+                            <input type="number" min={64} step={256} value={options.tileSize} onChange={e => setOptions({...options, tileSize: Number(e.target.value)})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors" />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-mono uppercase tracking-widest text-gray-500 mb-2">Output</label>
+                            <select value={options.format} onChange={e => setOptions({...options, format: e.target.value as TiledCaptureOptions['format']})} className="w-full bg-white/5 border border-white/10 p-2 text-sm font-mono focus:border-acid outline-none transition-colors appearance-none">
+                                <option value="png">PNG</option>
+                                <option value="exr">EXR (Linear)</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+                        {columns} x {rows} tiles // {(options.width * options.height / 1e6).toFixed(1)} MP
+                    </div>
+                </div>
+
+                <div className="flex gap-3">
+                    <button onClick={onClose} className="flex-1 py-3 text-xs font-mono uppercase tracking-widest border border-white/10 hover:bg-white/5 transition-colors">Cancel</button>
+                    <button onClick={() => { onStartCapture(options); onClose(); }} className="flex-1 py-3 text-xs font-mono uppercase tracking-widest bg-acid text-black font-bold hover:bg-white transition-colors">Start Render</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface RecordingIndicatorProps {
+    isRecording: boolean;
+    timeLeft: number;
+    progress?: RenderProgress; // Set for offline renders
+    onStop: () => void;
+}
+
+export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecording, timeLeft, progress, onStop }) => {
     if (!isRecording) return null;
+    if (progress) {
+        const pct = progress.totalFrames > 0 ? (progress.frame / progress.totalFrames) * 100 : 0;
+        return (
+            <div className="fixed top-20 left-1/2 -translate-x-1/2 bg-black/90 border border-acid text-white px-6 py-2 font-mono text-sm flex items-center gap-4 z-50 shadow-[0_0_30px_rgba(204,255,0,0.2)]">
+                <span className="text-acid">RENDER // {progress.frame}/{progress.totalFrames}{progress.unit === 'tiles' ? ' TILES' : ''}</span>
+                <div className="w-32 h-1 bg-white/10">
+                    <div className="h-full bg-acid transition-all" style={{ width: `${pct}%` }}></div>
+                </div>
+                <button onClick={onStop} className="hover:underline opacity-80 hover:opacity-100 border-l border-white/30 pl-4">CANCEL</button>
+            </div>
+        );
+    }
     return (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 bg-red-600 text-white px-6 py-2 rounded-full font-mono text-sm flex items-center gap-4 z-50 animate-pulse-fast shadow-[0_0_30px_rgba(220,38,38,0.5)]">
             <div className="w-2 h-2 bg-white rounded-full"></div>
@@ -287,10 +408,54 @@ interface ShaderEditorProps {
     code: string;
     onCodeChange: (code: string) => void;
     error: ShaderError | null;
+    diagnostics: ShaderDiagnostic[]; // Messages of the latest compile, shown as markers and in the problems list
 }
 
-export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, code, onCodeChange, error }) => {
+type MonacoEditor = Parameters<OnMount>[0];
+
+const SEVERITY_COLORS: Record<DiagnosticSeverity, string> = {
+    error: 'text-red-400',
+    warning: 'text-orange-400',
+    info: 'text-sky-400',
+};
+
+export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, code, onCodeChange, error, diagnostics }) => {
     const monaco = useMonaco();
+    const [editor, setEditor] = useState<MonacoEditor | null>(null);
+    const glyphsRef = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+
+    // Markers underline each message; glyphs flag its line in the gutter. An empty list clears both.
+    useEffect(() => {
+        const model = editor?.getModel();
+        if (!monaco || !editor || !model) return;
+        const severities: Record<DiagnosticSeverity, number> = {
+            error: monaco.MarkerSeverity.Error,
+            warning: monaco.MarkerSeverity.Warning,
+            info: monaco.MarkerSeverity.Info,
+        };
+        const located = diagnostics.filter(d => d.lineNum > 0 && d.lineNum <= model.getLineCount());
+        const ranges = located.map(d => {
+            const maxColumn = model.getLineMaxColumn(d.lineNum);
+            const startColumn = Math.min(Math.max(1, d.linePos), maxColumn);
+            // Unknown lengths and messages at the end of a line still get a visible squiggle
+            const endColumn = d.length > 0 ? Math.min(startColumn + d.length, maxColumn) : maxColumn;
+            return { startLineNumber: d.lineNum, startColumn, endLineNumber: d.lineNum, endColumn: Math.max(endColumn, startColumn + 1) };
+        });
+        monaco.editor.setModelMarkers(model, 'wgsl', located.map((d, i) => ({ ...ranges[i], severity: severities[d.severity], message: d.message })));
+        if (!glyphsRef.current) glyphsRef.current = editor.createDecorationsCollection();
+        glyphsRef.current.set(located.map((d, i) => ({
+            range: ranges[i],
+            options: { glyphMarginClassName: `wgsl-glyph wgsl-glyph-${d.severity}`, glyphMarginHoverMessage: { value: d.message } },
+        })));
+    }, [monaco, editor, diagnostics]);
+
+    const jumpTo = (d: ShaderDiagnostic) => {
+        if (!editor || d.lineNum <= 0) return;
+        const position = { lineNumber: d.lineNum, column: Math.max(1, d.linePos) };
+        editor.revealPositionInCenter(position);
+        editor.setPosition(position);
+        editor.focus();
+    };
     
     // Add custom keywords to Monaco
     useEffect(() => {
@@ -338,8 +503,10 @@ export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, cod
                     theme="wgsl-dark"
                     value={code}
                     onChange={(val) => val && onCodeChange(val)}
+                    onMount={(mounted) => setEditor(mounted)}
                     options={{
                         minimap: { enabled: false },
+                        glyphMargin: true,
                         fontSize: 12,
                         fontFamily: "'JetBrains Mono', monospace",
                         padding: { top: 20 },
@@ -350,9 +517,27 @@ export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, cod
                     }}
                 />
             </div>
-            {error && (
+            {diagnostics.length > 0 && (
+                <div className="max-h-40 overflow-y-auto custom-scrollbar bg-black border-t border-white/10 font-mono text-[11px]">
+                    <div className="px-4 py-1 text-[10px] uppercase tracking-widest text-gray-500 border-b border-white/5">
+                        Problems ({diagnostics.length})
+                    </div>
+                    {diagnostics.map((d, i) => (
+                        <button
+                            key={i}
+                            onClick={() => jumpTo(d)}
+                            className="w-full flex items-baseline gap-3 px-4 py-1 text-left hover:bg-white/5 transition-colors"
+                        >
+                            <span className={`w-14 shrink-0 uppercase text-[10px] ${SEVERITY_COLORS[d.severity]}`}>{d.severity}</span>
+                            <span className="flex-1 text-gray-300 whitespace-pre-wrap break-words">{d.message}</span>
+                            {d.lineNum > 0 && <span className="shrink-0 text-gray-600">Ln {d.lineNum}, Col {d.linePos}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {error && !diagnostics.some(d => d.severity === 'error') && (
                 <div className="p-4 bg-red-900/20 border-t border-red-900/50 text-red-400 text-xs font-mono">
-                    ERROR: {error.message} (Line {error.lineNum})
+                    ERROR: {error.message}{error.lineNum ? ` (Line ${error.lineNum})` : ''}
                 </div>
             )}
         </div>
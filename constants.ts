@@ -12,32 +12,47 @@ struct Uniforms {
   mouse: vec4f, // xy = coords, z = click, w = scroll
   
   // -- Params Start at Offset 48 --
-  animSpeed: f32,       // 48 (Index 12)
-  detail: f32,          // 52 (Index 13)
-  vignette: f32,        // 56 (Index 14)
-  metallic: f32,        // 60 (Index 15)
+  // Members tagged with @param become sliders; offsets are computed from this struct.
+  animSpeed: f32,          // @param label="Animation Speed" min=0 max=2 default=0.2
+  detail: f32,             // @param label="Roughness / Detail" min=0.01 max=1 default=0.35
+  metallic: f32,           // @param label="Metallic" min=0 max=1 default=1.0
   
-  baseColor: vec4f,     // 64 (Index 16-19) - ALIGN 16
+  baseColor: vec4f,        // @param label="Base Color" type=color default=0.8,0.8,0.85
   
-  grainStrength: f32,   // 80 (Index 20)
-  lightAz: f32,         // 84 (Index 21)
-  lightEl: f32,         // 88 (Index 22)
-  isRendering: f32,     // 92 (Index 23)
+  lightAz: f32,            // @param label="Light Azimuth" min=0 max=1 default=0.1
+  lightEl: f32,            // @param label="Light Elevation" min=0 max=1 default=0.6
+  isRendering: f32,        // @param label="Debug Quality" min=0 max=2 default=0.0
   
-  aberrationStrength: f32, // 96 (Index 24)
-  electricSpeed: f32,      // 100 (Index 25)
-  electricIntensity: f32,  // 104 (Index 26)
+  electricSpeed: f32,      // @param label="Arc Speed" min=0 max=5 default=0.8
+  electricIntensity: f32,  // @param label="Arc Intensity" min=0 max=30 default=12.0
   
-  // WebGPU Implicitly pads to 112 to align vec4f
+  electricColor: vec4f,    // @param label="Arc Color" type=color default=0.1,0.6,1.0
   
-  electricColor: vec4f,    // 112 (Index 28-31) - ALIGN 16
+  audio: vec4f,            // 128 (Index 32-35) - x = volume, yzw = bass / mid / high bands
   
-  audio: vec4f,            // 128 (Index 32-35) - ALIGN 16
+  cameraTarget: vec4f,     // xyz = look-at point, w = roll (radians)
+  cameraFov: f32,          // Vertical field of view in degrees
+  tileOffset: vec2f,       // Pixel offset of this tile in the full frame (0,0 unless capturing tiles)
+  jitter: vec2f,           // Subpixel sample offset in pixels (progressive rendering)
+  frameSeed: f32,          // Changes every frame / sample; seeds stochastic effects
+  channelResolution: array<vec4f, 4>, // channel0-3: xy = size in pixels, z = video time, w = 1 for cubemaps
+  beat: f32,               // 1 on each detected beat, decaying toward 0
+  beatPhase: f32,          // 0 -> 1 between beats
+  bpm: f32,                // Estimated tempo, 0 until one is found
+  flash: f32,              // Arc flash pulse fired by beat events
 };
 
 @group(0) @binding(0) var<uniform> u: Uniforms;
 @group(0) @binding(1) var channel0: texture_2d<f32>;
 @group(0) @binding(2) var sampler0: sampler;
+// channel1-3 follow the same pattern; declare texture_cube<f32> for a cubemap channel
+@group(0) @binding(3) var channel1: texture_2d<f32>;
+@group(0) @binding(4) var sampler1: sampler;
+@group(0) @binding(5) var channel2: texture_2d<f32>;
+@group(0) @binding(6) var sampler2: sampler;
+@group(0) @binding(7) var channel3: texture_2d<f32>;
+@group(0) @binding(8) var sampler3: sampler;
+@group(0) @binding(9) var audioTex: texture_2d<f32>; // 512x2: row 0 = spectrum, row 1 = waveform
 
 struct VertexOutput {
   @builtin(position) position: vec4f,
@@ -367,7 +382,7 @@ fn getGlow(ro: vec3f, rd: vec3f, maxT: f32) -> vec3f {
     let tEnd = min(maxT, 15.0);
     
     // Dithering to break banding
-    t += hash(rd * u.time) * 0.2;
+    t += hash(rd * (u.time + u.frameSeed)) * 0.2;
     
     for(var i=0; i<35; i++) {
         if(t > tEnd) { break; }
@@ -400,7 +415,7 @@ fn getGlow(ro: vec3f, rd: vec3f, maxT: f32) -> vec3f {
             
             let surfaceFade = smoothstep(0.3, 0.0, geoD);
             
-            acc += color * intensity * surfaceFade * branchMask * u.electricIntensity * 0.002;
+            acc += color * intensity * surfaceFade * branchMask * u.electricIntensity * (1.0 + u.flash * 3.0) * 0.002;
         }
         
         t += 0.15;
@@ -409,13 +424,27 @@ fn getGlow(ro: vec3f, rd: vec3f, maxT: f32) -> vec3f {
     return acc;
 }
 
+// UV across the full frame; tiled captures draw one sub-viewport of it at a time
+fn frameUV(fragCoord: vec2f) -> vec2f {
+    let pixel = u.tileOffset + fragCoord;
+    return vec2f(pixel.x / u.resolution.x, 1.0 - pixel.y / u.resolution.y);
+}
+
 @fragment
-fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
+fn fs_main(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+    let uv = frameUV(fragCoord.xy + u.jitter);
     let ro = u.cameraPos.xyz;
-    let ta = vec3f(0.0, -0.5, 0.0);
+    let ta = u.cameraTarget.xyz;
+    let roll = u.cameraTarget.w;
     let ww = normalize(ta - ro);
-    let uu = normalize(cross(ww, vec3f(0.0, 1.0, 0.0)));
-    let vv = normalize(cross(uu, ww));
+    // Roll rotates the level basis about the view axis, whichever way the camera faces.
+    // Looking straight up or down, world up is parallel to the view, so +Z stands in for it.
+    let up = select(vec3f(0.0, 1.0, 0.0), vec3f(0.0, 0.0, 1.0), abs(ww.y) > 0.999);
+    let uu0 = normalize(cross(ww, up));
+    let vv0 = cross(uu0, ww);
+    let uu = cos(roll) * uu0 + sin(roll) * vv0;
+    let vv = cos(roll) * vv0 - sin(roll) * uu0;
+    let focal = 1.0 / tan(radians(max(u.cameraFov, 1.0)) * 0.5);
     
     var finalColor = vec3f(0.0);
     var aaSamples = 1;
@@ -424,13 +453,13 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     for (var i = 0; i < aaSamples; i++) {
         var offset = vec2f(0.0);
         if (aaSamples > 1) {
-             let r1 = fract(sin(f32(i)*12.9898 + uv.x) * 43758.5453);
-             let r2 = fract(cos(f32(i)*4.1414 + uv.y) * 53211.5543);
+             let r1 = fract(sin(f32(i)*12.9898 + uv.x + u.frameSeed) * 43758.5453);
+             let r2 = fract(cos(f32(i)*4.1414 + uv.y + u.frameSeed) * 53211.5543);
              offset = (vec2f(r1, r2) - 0.5) / u.resolution;
         }
         
         let p = (-u.resolution + 2.0 * (uv + offset) * u.resolution) / u.resolution.y;
-        let rd = normalize(p.x * uu + p.y * vv + 2.0 * ww);
+        let rd = normalize(p.x * uu + p.y * vv + focal * ww);
         
         let res = raymarch(ro, rd);
         let t = res.x;
@@ -511,23 +540,7 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     
     finalColor /= f32(aaSamples);
     
-    // Post
-    let q = uv;
-    finalColor *= 0.5 + 0.5 * pow(16.0 * q.x * q.y * (1.0 - q.x) * (1.0 - q.y), u.vignette);
-    
-    let noiseG = fract(sin(dot(uv * u.resolution, vec2f(12.9898, 78.233) * u.time)) * 43758.5453);
-    finalColor += (noiseG - 0.5) * u.grainStrength;
-    
-    // ACES Tone Mapping
-    let exposed = finalColor * 1.5;
-    let a = 2.51;
-    let b = 0.03;
-    let c = 2.43;
-    let d = 0.59;
-    let e = 0.14;
-    finalColor = clamp((exposed * (a * exposed + b)) / (exposed * (c * exposed + d) + e), vec3f(0.0), vec3f(1.0));
-    finalColor = pow(finalColor, vec3f(1.0 / 2.2));
-    
+    // Linear radiance; bloom, grain, vignette and tone mapping run in the post stack
     return vec4f(finalColor, 1.0);
 }
 `
\ No newline at end of file
@@ -0,0 +1,244 @@
+// Remote relay for testing the Remote panel: a dependency-free WebSocket server that forwards
+// every text frame to all other connected clients, so the browser and any script can talk
+// through it. Optionally bridges UDP OSC (TouchDesigner, Max, Ableton via a plugin) to the
+// text protocol described in components/Remote.tsx.
+//
+//   node scripts/remote-relay.mjs [--port 8787] [--host 127.0.0.1] [--osc-in 9000] [--osc-out 127.0.0.1:9001]
+//
+// The relay and the OSC input only listen on 127.0.0.1 unless `--host` says otherwise (e.g.
+// `--host 0.0.0.0` for other machines on the network). Browsers may only connect from a
+// localhost page; clients that send no Origin header, such as scripts, are always accepted.
+//
+// Typing a message such as `/param/electricIntensity 12` into the relay's stdin sends it to
+// every client, and everything clients send is printed.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+import { createInterface } from 'node:readline';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+const port = Number(option('port', 8787));
+const host = option('host', '127.0.0.1');
+const oscIn = option('osc-in', null);
+const oscOut = option('osc-out', null);
+
+// --- WebSocket (RFC 6455) ---
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1 << 20;
+const clients = new Set();
+
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = (text, except) => {
+  const data = frame(0x1, Buffer.from(text));
+  for (const client of clients) if (client !== except) client.socket.write(data);
+};
+
+const close = (client, code) => {
+  if (!clients.delete(client)) return;
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  client.socket.end(frame(0x8, payload));
+  console.log(`- ${client.name} (${clients.size} connected)`);
+};
+
+const onText = (client, text) => {
+  console.log(`${client.name} > ${text.replace(/\n/g, '\n    ')}`);
+  broadcast(text, client);
+  if (oscOut) text.split('\n').forEach(line => sendOsc(line.trim()));
+};
+
+// Parses as many complete frames as `client.buffer` holds; fragments collect until FIN.
+const receive = (client, chunk) => {
+  client.buffer = Buffer.concat([client.buffer, chunk]);
+  while (client.buffer.length >= 2) {
+    const b = client.buffer;
+    const fin = (b[0] & 0x80) !== 0;
+    const opcode = b[0] & 0x0f;
+    const masked = (b[1] & 0x80) !== 0;
+    let length = b[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (b.length < 4) return;
+      length = b.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (b.length < 10) return;
+      length = Number(b.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (!masked || length > MAX_PAYLOAD) return close(client, masked ? 1009 : 1002);
+    if (b.length < offset + 4 + length) return;
+    const mask = b.subarray(offset, offset + 4);
+    const payload = Buffer.from(b.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+    client.buffer = b.subarray(offset + 4 + length);
+
+    if (opcode === 0x8) return close(client, 1000);
+    if (opcode === 0x9) client.socket.write(frame(0xa, payload));
+    if (opcode === 0x1 || opcode === 0x2 || opcode === 0x0) {
+      client.fragments.push(payload);
+      if (opcode !== 0x0) client.binary = opcode === 0x2;
+      if (fin) {
+        const message = Buffer.concat(client.fragments);
+        client.fragments = [];
+        if (!client.binary) onText(client, message.toString('utf8'));
+      }
+    }
+  }
+};
+
+// Stops any web page the user happens to visit from driving the relay
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+const isLocalOrigin = (origin) => {
+  if (origin === undefined) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+let nextId = 1;
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket relay: connect with ws://\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!isLocalOrigin(req.headers.origin)) {
+    console.warn(`Rejected connection from origin ${req.headers.origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  socket.setNoDelay(true);
+  const client = { socket, name: `#${nextId++}`, buffer: Buffer.alloc(0), fragments: [], binary: false };
+  clients.add(client);
+  console.log(`+ ${client.name} ${req.socket.remoteAddress} (${clients.size} connected)`);
+  socket.on('data', chunk => receive(client, chunk));
+  socket.on('close', () => close(client, 1000));
+  socket.on('error', () => close(client, 1011));
+});
+
+server.listen(port, host, () => console.log(`Relay listening on ws://${host}:${port}`));
+
+// --- OSC Bridge ---
+// Messages carry int32 (i), float32 (f), float64 (d), string (s) and true/false (T/F) arguments;
+// bundles are unpacked and their timetags ignored.
+
+const padded = (length) => (length + 4) & ~3; // Strings end with a NUL and pad to four bytes
+
+const readString = (buffer, offset) => {
+  const end = buffer.indexOf(0, offset);
+  return { value: buffer.toString('utf8', offset, end), next: offset + padded(end - offset) };
+};
+
+const parseOsc = (buffer, offset = 0, end = buffer.length) => {
+  const head = readString(buffer, offset);
+  if (head.value === '#bundle') {
+    const messages = [];
+    for (let at = head.next + 8; at + 4 <= end;) {
+      const size = buffer.readInt32BE(at);
+      if (size <= 0 || at + 4 + size > end) throw new Error(`Bad OSC bundle element size ${size}`);
+      messages.push(...parseOsc(buffer, at + 4, at + 4 + size));
+      at += 4 + size;
+    }
+    return messages;
+  }
+  const tags = readString(buffer, head.next);
+  let at = tags.next;
+  const values = [];
+  for (const tag of tags.value.slice(1)) {
+    if (tag === 'i') { values.push(buffer.readInt32BE(at)); at += 4; }
+    else if (tag === 'f') { values.push(buffer.readFloatBE(at)); at += 4; }
+    else if (tag === 'd') { values.push(buffer.readDoubleBE(at)); at += 8; }
+    else if (tag === 's') { const s = readString(buffer, at); values.push(s.value); at = s.next; }
+    else if (tag === 'T' || tag === 'F') values.push(tag === 'T' ? 1 : 0);
+    else throw new Error(`Unsupported OSC type tag '${tag}'`);
+  }
+  return [{ address: head.value, args: values }];
+};
+
+const oscString = (value) => {
+  const bytes = Buffer.from(value);
+  const out = Buffer.alloc(padded(bytes.length));
+  bytes.copy(out);
+  return out;
+};
+
+// Numbers go out as float32, anything else as a string
+const encodeOsc = (address, values) => {
+  const parts = values.map(v => {
+    if (typeof v !== 'number') return oscString(String(v));
+    const b = Buffer.alloc(4);
+    b.writeFloatBE(v);
+    return b;
+  });
+  const tags = ',' + values.map(v => (typeof v === 'number' ? 'f' : 's')).join('');
+  return Buffer.concat([oscString(address), oscString(tags), ...parts]);
+};
+
+const udp = oscIn || oscOut ? createSocket('udp4') : null;
+const [outHost, outPort] = (oscOut ?? '').split(':');
+
+const sendOsc = (line) => {
+  if (!line.startsWith('/')) return;
+  const [address, ...tokens] = line.split(/\s+/);
+  const values = tokens.map(t => (t !== '' && isFinite(Number(t)) ? Number(t) : t));
+  udp.send(encodeOsc(address, values), Number(outPort), outHost || '127.0.0.1');
+};
+
+if (udp && oscIn) {
+  udp.on('message', (packet, from) => {
+    try {
+      const text = parseOsc(packet).map(m => [m.address, ...m.args].join(' ')).join('\n');
+      console.log(`osc ${from.address}:${from.port} > ${text}`);
+      broadcast(text);
+    } catch (err) {
+      console.warn(`Ignoring OSC packet from ${from.address}: ${err.message}`);
+    }
+  });
+  udp.bind(Number(oscIn), host, () => console.log(`OSC in on udp://${host}:${oscIn}`));
+}
+if (oscOut) console.log(`OSC out to udp://${outHost || '127.0.0.1'}:${outPort}`);
+
+// --- Console ---
+
+createInterface({ input: process.stdin }).on('line', line => {
+  if (line.trim()) broadcast(line.trim());
+});
+
+const shutdown = () => {
+  for (const client of [...clients]) close(client, 1001);
+  udp?.close();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -6,7 +6,18 @@ export interface ShaderError {
   linePos?: number;
 }
 
-export type ParamType = 'float' | 'color' | 'vec3';
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// One GPUCompilationMessage, or a located error from a later compile stage
+export interface ShaderDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  lineNum: number; // 1-based; 0 when the message has no location
+  linePos: number; // 1-based column, in UTF-16 code units
+  length: number; // UTF-16 code units, 0 if unknown
+}
+
+export type ParamType = 'float' | 'int' | 'color' | 'vec2' | 'vec3' | 'vec4' | 'matrix' | 'array';
 
 export interface BaseParam {
   id: string;
@@ -22,24 +33,61 @@ export interface FloatParam extends BaseParam {
   step?: number;
 }
 
+export interface IntParam extends BaseParam {
+  type: 'int'; // i32 or u32 member
+  value: number;
+  min: number;
+  max: number;
+}
+
 export interface ColorParam extends BaseParam {
   type: 'color';
   value: [number, number, number]; // RGB 0-1
 }
 
+export interface Vec2Param extends BaseParam {
+  type: 'vec2';
+  value: [number, number];
+}
+
 export interface Vec3Param extends BaseParam {
   type: 'vec3';
   value: [number, number, number];
 }
 
-export type ShaderParam = FloatParam | ColorParam | Vec3Param;
+export interface Vec4Param extends BaseParam {
+  type: 'vec4';
+  value: [number, number, number, number];
+}
+
+export interface MatrixParam extends BaseParam {
+  type: 'matrix';
+  value: number[]; // Column-major, columns * rows components
+}
+
+export interface ArrayParam extends BaseParam {
+  type: 'array';
+  value: number[]; // Elements flattened back to back, without stride padding
+}
+
+export type ShaderParam = FloatParam | IntParam | ColorParam | Vec2Param | Vec3Param | Vec4Param | MatrixParam | ArrayParam;
 
 export interface UniformLayout {
   size: number; // Total buffer size in bytes
   offsetMap: Record<string, number>; // Map of param ID to byte offset
+  typeMap?: Record<string, string>; // Map of param ID to normalized WGSL type (e.g. 'vec3<f32>')
 }
 
-export type ShotType = 'orbit' | 'sweep' | 'dolly' | 'breathing' | 'chaos';
+export interface UniformField {
+  name: string;
+  type: string; // WGSL type as declared, whitespace stripped (e.g. 'vec4f', 'array<f32,4>')
+  lineNum: number; // 1-based line in the shader source
+  align?: number; // Explicit @align(n)
+  size?: number; // Explicit @size(n)
+  annotation?: Record<string, string>; // key=value pairs from a `// @param` comment
+}
+
+export type ShotType = 'orbit' | 'sweep' | 'dolly' | 'breathing' | 'chaos' | 'path';
 
 export interface VideoConfig {
   duration: number; // Seconds
@@ -51,5 +99,155 @@ export interface VideoConfig {
       grain: number;
       aberration: number;
   };
-  format: 'webm' | 'mp4';
+  format: 'webm' | 'mp4' | 'png'; // 'png' renders offline to a zipped PNG sequence
+  soundtrack?: File; // Analysed per frame for the audio uniforms and muxed into the video
+}
+
+export interface TiledCaptureOptions {
+  width: number;
+  height: number;
+  tileSize: number; // Square tiles, clamped to the device's max texture size
+  format: 'png' | 'exr'; // 'exr' saves linear scene radiance, before post effects and tone mapping
+}
+
+export interface RenderProgress {
+  frame: number; // Frames (or tiles) finished so far
+  totalFrames: number;
+  unit?: 'frames' | 'tiles';
+}
+
+export interface CameraPose {
+  theta: number;
+  phi: number;
+  radius: number;
+}
+
+export type PresetValue = number | number[];
+
+export interface MidiCCMapping {
+  channel: number; // 0-15
+  controller: number; // CC number, 0-127
+  paramId: string; // A float or int param
+  min: number; // Param value at CC 0
+  max: number; // Param value at CC 127; may be below `min` to invert the knob
+  softTakeover: boolean; // Ignore the knob until it reaches the param's current value
+}
+
+export interface MidiNoteMapping {
+  channel: number;
+  note: number;
+  slot: number; // Preset library slot recalled on note-on, 0-based
+}
+
+export interface MidiMappings {
+  cc: MidiCCMapping[];
+  notes: MidiNoteMapping[];
+}
+
+export interface PresetFile {
+  schemaVersion: number;
+  name?: string;
+  createdAt: string; // ISO timestamp
+  shaderHash: string; // Hash of the shader source the values were tuned against
+  camera?: CameraPose; // Absent in presets migrated from bare param maps
+  params: Record<string, PresetValue>; // Param ID -> value
+  midi?: MidiMappings; // Controller bindings; saved with exported files and share links, not library slots
+}
+
+export interface PresetImportReport {
+  applied: string[]; // Param IDs that took the preset's value
+  missing: string[]; // Params in the current shader the preset has no value for
+  unknown: string[]; // Preset entries with no matching param
+  invalid: string[]; // Preset entries whose value doesn't fit the param's type
+  clamped: string[]; // Applied after clamping into the param's min/max
+  shaderChanged: boolean; // Preset was saved against a different shader source
+  migratedFrom?: number; // Original schema version, if the file was migrated
+}
+
+export interface SharedScene {
+  shaderCode: string;
+  preset: PresetFile; // Param values and camera
+}
+
+export type LfoShape = 'sine' | 'saw' | 'square' | 'random';
+
+export type ModulatorSource = 'lfo' | 'audio' | 'expression';
+
+export interface Modulator {
+  id: string;
+  paramId: string; // A float or color param
+  enabled: boolean;
+  source: ModulatorSource; // Settings of the other sources are kept while switching
+  depth: number; // Offset at full signal, as a fraction of a float's range or of a color channel
+  channel?: number; // Colors only: modulate one RGB component instead of all three
+  shape: LfoShape;
+  rate: number; // LFO cycles per second
+  band: number; // Index into the `audio` uniform: 0 = volume, 1-3 = bands
+  attack: number; // Seconds for the audio envelope to rise
+  release: number; // Seconds for it to fall
+  expression: string; // Over time, beat, beatPhase, bpm, volume, low, mid and high
+}
+
+export type ChannelSourceRecord = File[] | 'webcam' | null; // Files as loaded, the webcam, or the placeholder
+
+export type HistoryKind = 'initial' | 'params' | 'shader' | 'texture' | 'camera';
+
+export interface HistorySnapshot {
+  shaderCode: string;
+  params: Record<string, PresetValue>;
+  camera: CameraPose | null; // Last camera bookmark; null before the first one
+  channels: ChannelSourceRecord[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  kind: HistoryKind;
+  label: string;
+  time: number; // Last update, ms since epoch
+  coalesce?: string; // Edits with the same key in quick succession update this entry instead of adding one
+  snapshot: HistorySnapshot;
+}
+
+export type EasingType = 'linear' | 'bezier' | 'step';
+
+export interface Keyframe {
+  time: number; // Seconds
+  value: PresetValue;
+  easing: EasingType; // Curve of the segment leaving this key
+  bezier?: [number, number, number, number]; // CSS-style cubic-bezier(x1, y1, x2, y2) when easing is 'bezier'
+}
+
+export interface ParamTrack {
+  paramId: string;
+  keyframes: Keyframe[]; // Sorted by time
+}
+
+export interface Timeline {
+  duration: number; // Seconds
+  loop: boolean;
+  tracks: ParamTrack[];
+}
+
+export type Vec3 = [number, number, number];
+
+export type CameraInterpolation = 'catmull-rom' | 'bezier';
+
+export interface CameraKeyframe {
+  time: number; // Seconds
+  position: Vec3;
+  target: Vec3; // Look-at point
+  roll: number; // Radians
+  fov: number; // Vertical field of view, degrees
+}
+
+export interface CameraPath {
+  interpolation: CameraInterpolation; // 'bezier' treats inner keys as control points
+  keyframes: CameraKeyframe[]; // Sorted by time
+}
+
+export interface CameraShot {
+  position: Vec3;
+  target: Vec3;
+  roll: number;
+  fov: number;
 }